@@ -1,4 +1,14 @@
-import { CGMESVersion, type DrawingPointConfig } from '../models/types';
+import {
+  CGMESVersion,
+  PaperOrientation,
+  PaperSize,
+  RendererType,
+  TitleBlockField,
+  type DrawingPointConfig,
+  type ObjectStyleConfig,
+  type PrintSettings,
+  type VoltageColor
+} from '../models/types';
 
 /**
  * Application configuration settings
@@ -24,11 +34,43 @@ export const AppConfig = {
       singlePoint: 'blue',        // Single points not in paths
       line: 'black',              // Lines connecting points
       selectionRectangle: 'blue', // Selection rectangle
-      grid: 'rgba(200, 200, 200, 0.5)' // Light gray grid lines
+      grid: 'rgba(200, 200, 200, 0.5)', // Light gray grid lines
+      symbolFill: 'white',        // Background of equipment symbols
+      drawingPreview: 'darkorange', // Object being drawn with the drawing tool
+      layoutPreview: 'mediumseagreen' // Positions proposed by the auto-layout
     },
     
+    symbolSize: 12,             // Equipment symbol size in world coordinates
+    cullingMargin: 300,         // Objects this far outside the view are still drawn, for offset and long text
+    
+    // Drawing attributes per DiagramObjectStyle name (case-insensitive)
+    objectStyles: {
+      dashed: { lineDash: [6, 4] },
+      dotted: { lineDash: [2, 3] },
+      bold: { lineWidth: 3 },
+      thin: { lineWidth: 0.5 }
+    } as Record<string, ObjectStyleConfig>,
+    
     selectionThreshold: 6,
-    zoomFactor: 1.1
+    zoomFactor: 1.1,
+    
+    renderer: {
+      storageKey: 'cgmes-renderer',
+      default: RendererType.CANVAS_2D
+    },
+    
+    // Simplification when zoomed out, by view scale (screen pixels per world unit)
+    levelOfDetail: {
+      pointsMinScale: 0.5,      // Unselected point markers are hidden below this scale
+      textMinScale: 0.3,        // Text objects are hidden below this scale
+      symbolsMinScale: 0.2,     // Equipment symbols become plain squares below this scale
+      minSegmentPixels: 2       // Shorter line segments are merged into their neighbours
+    }
+  },
+
+  // Detection of concurrent edits by other users
+  concurrency: {
+    positionTolerance: 0.001  // Stored positions closer than this to the loaded ones count as unchanged
   },
 
   // Grid settings
@@ -38,6 +80,106 @@ export const AppConfig = {
     snapEnabled: false, // Snap-to-grid by default
     snapThreshold: 10   // Distance in pixels for snapping
   },
+
+  // Glue point settings
+  glue: {
+    rubberBand: true,   // Move glued points along with dragged points by default
+    inferenceTolerance: 2, // Distance in world coordinates below which points are proposed to be glued
+    checkTopology: true // Drop proposals contradicting the Terminal/ConnectivityNode topology by default
+  },
+  
+  // Voltage-level colouring settings
+  voltageColors: {
+    enabled: true,      // Colour objects by the nominal voltage of their equipment
+    storageKey: 'cgmes-dl-editor.voltagePalette', // Local storage key of the edited palette
+    palette: [
+      { minVoltage: 300, color: '#e53935', label: '380 kV' },
+      { minVoltage: 200, color: '#43a047', label: '220 kV' },
+      { minVoltage: 100, color: '#1e88e5', label: '110 kV' },
+      { minVoltage: 30, color: '#8e24aa', label: 'Medium voltage' },
+      { minVoltage: 0, color: '#757575', label: 'Low voltage' }
+    ] as VoltageColor[]
+  },
+  
+  // Drawing tool settings
+  drawing: {
+    defaultText: 'Text',        // Initial content of new text objects
+    equipmentSearchLimit: 50    // Maximum number of equipment search results
+  },
+  
+  // Auto-layout settings
+  layout: {
+    nodeSpacing: 60,            // Preferred distance between connected vertices in world coordinates
+    iterations: 300,            // Force-directed layout steps
+    groupStrength: 0.05,        // Pull towards the centre of the own substation
+    lineClasses: ['ACLineSegment', 'DCLineSegment', 'SeriesCompensator'] // Drawn as lines between their nodes
+  },
+  
+  // Orthogonal line routing settings
+  routing: {
+    autoRoute: false,           // Route lines attached to moved points by default
+    margin: 6,                  // Clearance around symbols and polygons in world coordinates
+    bendPenalty: 20             // Extra length a bend is worth, higher values give fewer bends
+  },
+  
+  // Diagram validation settings
+  validation: {
+    focusScale: 2,              // Maximum zoom when focusing the object of an issue
+    symbolSpacing: 1            // Symbols closer than this many symbol sizes on both axes overlap
+  },
+  
+  // Image export settings
+  export: {
+    size: 1600,                 // Longer side in pixels at 96 DPI of diagram and selection exports
+    margin: 20,                 // Space around diagram and selection exports in pixels at 96 DPI
+    dpi: 300,                   // Default resolution of PNG exports
+    maxPixels: 16384,           // Longest PNG side browsers reliably allocate a canvas for
+    background: 'white'
+  },
+  
+  // Print layout settings, lengths in millimetres
+  print: {
+    storageKey: 'cgmes-dl-editor.printSettings', // Local storage key of the last used settings
+    paperSizes: {
+      [PaperSize.A4]: [210, 297],
+      [PaperSize.A3]: [297, 420],
+      [PaperSize.A2]: [420, 594],
+      [PaperSize.A1]: [594, 841],
+      [PaperSize.A0]: [841, 1189]
+    } as Record<PaperSize, [number, number]>, // Width and height in portrait orientation
+    margin: 10,                 // Unprinted border of the sheets
+    overlap: 10,                // Part of the diagram repeated on neighbouring sheets
+    titleBlock: {
+      width: 100,
+      rowHeight: 6,
+      fontSize: 8               // In points
+    },
+    defaults: {
+      paperSize: PaperSize.A3,
+      orientation: PaperOrientation.LANDSCAPE,
+      columns: 1,
+      rows: 1,
+      titleBlockFields: Object.values(TitleBlockField),
+      author: ''
+    } as PrintSettings
+  },
+  
+  // Connection profiles of protected endpoints
+  connection: {
+    storageKey: 'cgmes-dl-editor.connectionProfiles', // Local and session storage key of the profiles
+    testQuery: 'ASK {}',        // Query sent to test a SPARQL endpoint
+    testUpdate: 'INSERT DATA {}' // Update sent to test a SPARQL update endpoint, changes nothing
+  },
+  
+  // Named graphs of SPARQL endpoints
+  graphs: {
+    storageKey: 'cgmes-dl-editor.graphScopes' // Local storage key of the named graphs chosen per endpoint
+  },
+  
+  // Undo/redo history settings
+  history: {
+    maxEntries: 100     // Oldest entries are dropped beyond this limit
+  },
   
   // CIM namespaces for different CGMES versions
   namespaces: {
@@ -45,6 +187,15 @@ export const AppConfig = {
     [CGMESVersion.V3_0]: 'http://iec.ch/TC57/CIM100#'
   },
   
+  // Local CIM/XML file settings
+  files: {
+    baseIri: 'http://cgmes.local/model', // Resolves rdf:ID and "#..." references of loaded files
+    diagramLayoutProfiles: {
+      [CGMESVersion.V2_4_15]: 'http://entsoe.eu/CIM/DiagramLayout/3/1',
+      [CGMESVersion.V3_0]: 'http://iec.ch/TC57/ns/CIM/DiagramLayout-EU/3.0'
+    }
+  },
+  
   // Default diagram view settings
   view: {
     initialScale: 1,
@@ -1,7 +1,8 @@
 import { DiagramObjectModel } from './DiagramObjectModel';
 import { GluePointModel } from './GluePointModel';
 import { PointModel } from './PointModel';
-import type { Bounds, Point2D, SparqlResults } from './types';
+import type { Bounds, DeltaVector, Point2D, SparqlResults, DiagramLayoutData } from './types';
+import { GridIndex } from '@/utils/spatial';
 import { v4 as uuidv4 } from 'uuid';
 
 
@@ -15,6 +16,10 @@ export class DiagramModel {
   texts: DiagramObjectModel[];
   gluePoints: GluePointModel[];
   pointToGluePointMap: Map<string, string>; // Maps point IRI to glue point IRI
+  
+  // Spatial indexes of points and object bounds, built on first use
+  private pointIndex: GridIndex<PointModel> | null = null;
+  private objectIndex: GridIndex<DiagramObjectModel> | null = null;
 
   /**
    * Create a new diagram model
@@ -34,6 +39,7 @@ export class DiagramModel {
    */
   addObject(object: DiagramObjectModel): void {
     this.objects.push(object);
+    this.invalidateSpatialIndex();
     
     // Add to texts array if it's a text object
     if (object.isText && object.textContent) {
@@ -48,6 +54,7 @@ export class DiagramModel {
    */
   addPoint(point: PointModel): void {
     this.points.push(point);
+    this.invalidateSpatialIndex();
   }
 
   
@@ -131,11 +138,121 @@ export class DiagramModel {
     this.gluePoints = this.gluePoints.filter(gp => gp.iri !== gluePointIri);
   }
   
+  /**
+   * Remove objects together with their points
+   * 
+   * The points are also taken out of their glue points, glue points left
+   * without any point are removed.
+   * 
+   * @param objectIris - IRIs of the objects to remove
+   */
+  removeObjects(objectIris: Iterable<string>): void {
+    const removedObjects = new Set(objectIris);
+    const removedPoints = new Set<string>();
+    
+    this.objects
+      .filter(object => removedObjects.has(object.iri))
+      .forEach(object => object.points.forEach(point => removedPoints.add(point.iri)));
+    
+    this.objects = this.objects.filter(object => !removedObjects.has(object.iri));
+    this.texts = this.texts.filter(object => !removedObjects.has(object.iri));
+    this.points = this.points.filter(point => !removedPoints.has(point.iri));
+    
+    removedPoints.forEach(pointIri => {
+      const gluePoint = this.getGluePointForPoint(pointIri);
+      if (!gluePoint) return;
+      
+      gluePoint.removePoint(pointIri);
+      this.pointToGluePointMap.delete(pointIri);
+      if (gluePoint.pointCount === 0) {
+        this.removeGluePoint(gluePoint.iri);
+      }
+    });
+    
+    this.invalidateSpatialIndex();
+  }
+  
+  /**
+   * Add copies of objects with their points and glue points
+   * 
+   * Glue points are copied with the copies of their points only, like
+   * the repositories clone them.
+   * 
+   * @param objectMapping - IRIs of the original objects mapped to the IRIs of their copies
+   * @param pointMapping - IRIs of the original points mapped to the IRIs of their copies
+   * @param gluePointMapping - IRIs of the original glue points mapped to the IRIs of their copies
+   * @param offset - Displacement of the copies
+   * @returns The copied objects
+   */
+  addCopies(
+    objectMapping: Map<string, string>,
+    pointMapping: Map<string, string>,
+    gluePointMapping: Map<string, string>,
+    offset: DeltaVector
+  ): DiagramObjectModel[] {
+    const copiedGluePoints = new Map<string, GluePointModel>();
+    
+    const copies = this.objects
+      .filter(original => objectMapping.has(original.iri))
+      .map(original => {
+        const copy = new DiagramObjectModel(
+          objectMapping.get(original.iri)!,
+          original.drawingOrder,
+          original.isPolygon,
+          original.isText,
+          original.textContent,
+          original.identifiedObject,
+          {
+            rotation: original.rotation,
+            offsetX: original.offsetX,
+            offsetY: original.offsetY,
+            style: original.style
+          },
+          original.name
+        );
+        
+        original.points.forEach(point => {
+          const pointIri = pointMapping.get(point.iri);
+          if (!pointIri) return;
+          
+          copy.addPoint(new PointModel(
+            pointIri,
+            point.x + offset.dx,
+            point.y + offset.dy,
+            point.sequenceNumber,
+            copy,
+            point.zPosition
+          ));
+          
+          const gluePoint = this.getGluePointForPoint(point.iri);
+          const gluePointIri = gluePoint && gluePointMapping.get(gluePoint.iri);
+          if (gluePointIri) {
+            if (!copiedGluePoints.has(gluePointIri)) {
+              copiedGluePoints.set(gluePointIri, new GluePointModel(gluePointIri));
+            }
+            copiedGluePoints.get(gluePointIri)?.addPoint(pointIri);
+          }
+        });
+        
+        return copy;
+      });
+    
+    copies.forEach(copy => {
+      this.addObject(copy);
+      copy.points.forEach(point => this.addPoint(point));
+    });
+    copiedGluePoints.forEach(gluePoint => this.addGluePoint(gluePoint));
+    this.sortObjects();
+    
+    return copies;
+  }
+  
   /**
    * Sort objects by drawing order
    */
   sortObjects(): void {
     this.objects.sort((a, b) => a.drawingOrder - b.drawingOrder);
+    this.invalidateSpatialIndex();
   }
   
   /**
@@ -175,7 +292,14 @@ export class DiagramModel {
     let closestPoint: PointModel | null = null;
     let closestDistSq = radiusSquared;
     
-    for (const point of this.points) {
+    const candidates = this.findPointsInBounds({
+      minX: position.x - radius,
+      minY: position.y - radius,
+      maxX: position.x + radius,
+      maxY: position.y + radius
+    });
+    
+    for (const point of candidates) {
       const distSq = point.distanceSquaredTo(position);
       if (distSq < closestDistSq) {
         closestDistSq = distSq;
@@ -186,6 +310,91 @@ export class DiagramModel {
     return closestPoint;
   }
   
+  /**
+   * Find the points in a rectangular area
+   * 
+   * @param bounds - Area to search, edges included
+   * @returns Points in the area, in the order of the points array
+   */
+  findPointsInBounds(bounds: Bounds): PointModel[] {
+    return this.getPointIndex().search(bounds);
+  }
+  
+  /**
+   * Find the objects whose points' bounds overlap an area
+   * 
+   * Symbols and text extend beyond their point, callers widen the area for them.
+   * 
+   * @param bounds - Area to search
+   * @returns Objects overlapping the area, in the order of the objects array
+   */
+  findObjectsInBounds(bounds: Bounds): DiagramObjectModel[] {
+    return this.getObjectIndex().search(bounds);
+  }
+  
+  /**
+   * Drop the spatial indexes, they are rebuilt on the next search
+   * 
+   * Needed after adding, removing or reordering points or objects outside
+   * of the methods of this class.
+   */
+  invalidateSpatialIndex(): void {
+    this.pointIndex = null;
+    this.objectIndex = null;
+  }
+  
+  /**
+   * Update the spatial indexes for moved points and their objects
+   * 
+   * @param points - Points whose position changed
+   */
+  updateSpatialIndex(points: Iterable<PointModel>): void {
+    if (!this.pointIndex || !this.objectIndex) return;
+    
+    const objects = new Set<DiagramObjectModel>();
+    for (const point of points) {
+      this.pointIndex.insert(point, { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y });
+      objects.add(point.parentObject);
+    }
+    
+    objects.forEach(object => {
+      if (object.points.length > 0) {
+        this.objectIndex!.insert(object, object.getBounds());
+      }
+    });
+  }
+  
+  private getPointIndex(): GridIndex<PointModel> {
+    if (!this.pointIndex) this.buildSpatialIndex();
+    return this.pointIndex!;
+  }
+  
+  private getObjectIndex(): GridIndex<DiagramObjectModel> {
+    if (!this.objectIndex) this.buildSpatialIndex();
+    return this.objectIndex!;
+  }
+  
+  /**
+   * Index the points and objects in cells holding about one point each
+   */
+  private buildSpatialIndex(): void {
+    const bounds = this.getBounds();
+    const extent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+    const cellSize = extent > 0 ? extent / Math.max(1, Math.round(Math.sqrt(this.points.length))) : 1;
+    
+    this.pointIndex = new GridIndex<PointModel>(cellSize);
+    this.objectIndex = new GridIndex<DiagramObjectModel>(cellSize);
+    
+    for (const point of this.points) {
+      this.pointIndex.insert(point, { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y });
+    }
+    for (const object of this.objects) {
+      if (object.points.length > 0) {
+        this.objectIndex.insert(object, object.getBounds());
+      }
+    }
+  }
+  
   /**
    * Process diagram data from SPARQL response
    * 
@@ -213,7 +422,8 @@ export class DiagramModel {
       const objectIri = binding.diagramObject.value;
       const object = objectMap.get(objectIri);
       
-      if (object) {
+      // Equipment with several CIM types yields a row per type, add each point once
+      if (object && !object.containsPoint(binding.point.value)) {
         const point = PointModel.fromSparqlBinding(binding, object);
         
         object.addPoint(point);
@@ -253,4 +463,66 @@ export class DiagramModel {
 
     return diagram;
   }
+
+  /**
+   * Process diagram data from a JSON layout
+   * 
+   * @param data - Layout with nested objects and points
+   * @returns Processed diagram model
+   */
+  static fromLayoutData(data: DiagramLayoutData): DiagramModel {
+    const diagram = new DiagramModel();
+    const gluePointMap = new Map<string, GluePointModel>();
+    
+    data.objects.forEach(objectData => {
+      const object = new DiagramObjectModel(
+        objectData.iri,
+        objectData.drawingOrder ?? 0,
+        objectData.isPolygon ?? false,
+        objectData.isTextDiagramObject ?? false,
+        objectData.textContent ?? '',
+        objectData.identifiedObject ?? null,
+        {
+          rotation: objectData.rotation,
+          offsetX: objectData.offsetX,
+          offsetY: objectData.offsetY,
+          style: objectData.style
+        },
+        objectData.name ?? ''
+      );
+      diagram.addObject(object);
+      
+      // Points are expected in sequence order
+      [...objectData.points]
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+        .forEach(pointData => {
+          const point = new PointModel(
+            pointData.iri,
+            pointData.x,
+            pointData.y,
+            pointData.sequenceNumber,
+            object,
+            pointData.zPosition ?? null
+          );
+          object.addPoint(point);
+          diagram.addPoint(point);
+          
+          if (pointData.gluePoint) {
+            if (!gluePointMap.has(pointData.gluePoint)) {
+              gluePointMap.set(pointData.gluePoint, new GluePointModel(pointData.gluePoint));
+            }
+            gluePointMap.get(pointData.gluePoint)?.addPoint(pointData.iri);
+          }
+        });
+    });
+    
+    // Sort objects by drawing order
+    diagram.sortObjects();
+    
+    gluePointMap.forEach(gluePoint => {
+      diagram.addGluePoint(gluePoint);
+    });
+    
+    return diagram;
+  }
 }
\ No newline at end of file
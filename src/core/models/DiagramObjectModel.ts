@@ -1,16 +1,22 @@
 
 import { PointModel } from './PointModel';
-import type { Point2D } from './types';
+import type { Bounds, DiagramObjectPresentation, DiagramObjectStyleData, IdentifiedObjectData, Point2D } from './types';
 
 /**
  * Model class for diagram objects
  */
 export class DiagramObjectModel {
     iri: string;
+    name: string;
     drawingOrder: number;
     isPolygon: boolean;
     isText: boolean;
     textContent: string;
+    identifiedObject: IdentifiedObjectData | null;
+    rotation: number;
+    offsetX: number;
+    offsetY: number;
+    style: DiagramObjectStyleData | null;
     points: PointModel[];
   
     /**
@@ -21,22 +27,52 @@ export class DiagramObjectModel {
      * @param isPolygon - Whether object is a polygon
      * @param isText - Whether object is a text
      * @param textContent - Text content
+     * @param identifiedObject - Depicted equipment, if linked
+     * @param presentation - Rotation, offset and style of the symbol or text
+     * @param name - Name of the diagram object itself
      */
     constructor(
       iri: string, 
       drawingOrder: number,
       isPolygon: boolean,
       isText: boolean,
-      textContent: string
+      textContent: string,
+      identifiedObject: IdentifiedObjectData | null = null,
+      presentation: Partial<DiagramObjectPresentation> = {},
+      name: string = ''
     ) {
       this.iri = iri;
+      this.name = name || '';
       this.drawingOrder = parseInt(String(drawingOrder)) || 0;
       this.isPolygon = isPolygon;
       this.isText = isText;
       this.textContent = textContent || '';
+      this.identifiedObject = identifiedObject;
+      this.rotation = parseFloat(String(presentation.rotation)) || 0;
+      this.offsetX = parseFloat(String(presentation.offsetX)) || 0;
+      this.offsetY = parseFloat(String(presentation.offsetY)) || 0;
+      this.style = presentation.style ?? null;
       this.points = [];
     }
     
+    /**
+     * Get the CIM class of the depicted equipment
+     * 
+     * @returns Class name or null if no equipment is linked
+     */
+    getEquipmentClass(): string | null {
+      return this.identifiedObject?.className || null;
+    }
+    
+    /**
+     * Get the nominal voltage of the depicted equipment
+     * 
+     * @returns Voltage in kV or null if unknown
+     */
+    getNominalVoltage(): number | null {
+      return this.identifiedObject?.nominalVoltage ?? null;
+    }
+    
     /**
      * Add a point to this object
      * 
@@ -57,6 +93,31 @@ export class DiagramObjectModel {
       return this.points.length === 1;
     }
     
+    /**
+     * Get the bounds of the object's points
+     * 
+     * @returns Bounds with minX, minY, maxX, maxY
+     */
+    getBounds(): Bounds {
+      if (this.points.length === 0) {
+        return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+      }
+      
+      let minX = Infinity;
+      let minY = Infinity;
+      let maxX = -Infinity;
+      let maxY = -Infinity;
+      
+      for (const point of this.points) {
+        minX = Math.min(minX, point.x);
+        minY = Math.min(minY, point.y);
+        maxX = Math.max(maxX, point.x);
+        maxY = Math.max(maxY, point.y);
+      }
+      
+      return { minX, minY, maxX, maxY };
+    }
+    
     /**
      * Check if this object contains a specific point
      * 
@@ -98,7 +159,23 @@ export class DiagramObjectModel {
         binding.drawingOrder?.value ?? 0,
         binding.isPolygon?.value === 'true',
         binding.isTextDiagramObject?.value === 'true',
-        binding.textContent?.value ?? ''
+        binding.textContent?.value ?? '',
+        binding.identifiedObject ? {
+          iri: binding.identifiedObject.value,
+          className: binding.identifiedObjectClass?.value ?? '',
+          name: binding.identifiedObjectName?.value,
+          nominalVoltage: binding.nominalVoltage ? parseFloat(binding.nominalVoltage.value) : undefined
+        } : null,
+        {
+          rotation: binding.rotation?.value ?? 0,
+          offsetX: binding.offsetX?.value ?? 0,
+          offsetY: binding.offsetY?.value ?? 0,
+          style: binding.style ? {
+            iri: binding.style.value,
+            name: binding.styleName?.value
+          } : null
+        },
+        binding.objectName?.value ?? ''
       );
     }
   }
\ No newline at end of file
@@ -10,6 +10,7 @@ export class PointModel {
   x: number;
   y: number;
   sequenceNumber: number;
+  zPosition: number | null;
   parentObject: DiagramObjectModel;
 
   /**
@@ -20,12 +21,21 @@ export class PointModel {
    * @param y - Y coordinate
    * @param sequenceNumber - Point sequence number
    * @param parentObject - Parent diagram object
+   * @param zPosition - Optional z coordinate
    */
-  constructor(iri: string, x: number, y: number, sequenceNumber: number, parentObject: DiagramObjectModel) {
+  constructor(
+    iri: string,
+    x: number,
+    y: number,
+    sequenceNumber: number,
+    parentObject: DiagramObjectModel,
+    zPosition: number | null = null
+  ) {
     this.iri = iri;
     this.x = parseFloat(String(x));
     this.y = parseFloat(String(y));
     this.sequenceNumber = parseInt(String(sequenceNumber)) || 0;
+    this.zPosition = zPosition !== null && !isNaN(parseFloat(String(zPosition))) ? parseFloat(String(zPosition)) : null;
     this.parentObject = parentObject;
   }
   
@@ -109,7 +119,8 @@ export class PointModel {
       binding.xPosition?.value ?? 0,
       binding.yPosition?.value ?? 0,
       binding.sequenceNumber?.value ?? 0,
-      parentObject
+      parentObject,
+      binding.zPosition?.value ?? null
     );
   }
 }
\ No newline at end of file
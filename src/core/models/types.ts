@@ -6,6 +6,23 @@ export enum CGMESVersion {
   V3_0 = '3.0'
 }
 
+/**
+ * Storage backends the editor can work on
+ */
+export enum RepositoryType {
+  SPARQL = 'sparql',
+  IN_MEMORY = 'in-memory',
+  REST = 'rest'
+}
+
+/**
+ * Direction of the diagram axes, CIM OrientationKind
+ */
+export enum DiagramOrientation {
+  POSITIVE = 'positive', // Y axis grows upwards
+  NEGATIVE = 'negative'  // Y axis grows downwards, like the screen
+}
+
 /**
  * View transform properties for canvas
  */
@@ -13,6 +30,7 @@ export interface ViewTransform {
   scale: number;
   offsetX: number;
   offsetY: number;
+  flipY: boolean; // World Y axis points up on screen, for positive diagram orientation
 }
 
 /**
@@ -65,7 +83,8 @@ export enum InteractionMode {
   NONE = 'none',
   PANNING = 'panning',
   SELECTING = 'selecting',
-  DRAGGING = 'dragging'
+  DRAGGING = 'dragging',
+  DRAWING = 'drawing'
 }
 
 /**
@@ -78,10 +97,32 @@ export interface InteractionState {
   dragAnchorPoint: string | null; // IRI of the point where dragging started
   panStart: Point2D | null;
   selectedPoints: Set<string>;
+  draggedPoints: Set<string>; // Selected points and, in rubber-band mode, the points glued to them
   originalPositions: Map<string, Point2D>;
   altKeyPressed: boolean; // Track ALT key state for disabling snap-to-grid
 }
 
+/**
+ * Kinds of diagram objects created with the drawing tool
+ */
+export enum DrawingTool {
+  LINE = 'line',       // Polyline, two or more points
+  POLYGON = 'polygon', // Closed polygon, three or more points
+  POINT = 'point',     // Single point, e.g. an equipment symbol
+  TEXT = 'text'        // TextDiagramObject at a single point
+}
+
+/**
+ * State of the drawing tool
+ */
+export interface DrawingState {
+  tool: DrawingTool;
+  points: Point2D[];        // Placed points in world coordinates
+  cursor: Point2D | null;   // Where the next point would be placed
+  text: string;             // Content of new text objects
+  equipment: IdentifiedObjectData | null; // Equipment the new object depicts
+}
+
 /**
  * SPARQL query/update types
  */
@@ -90,15 +131,21 @@ export enum SparqlOperationType {
   UPDATE = 'update'
 }
 
+/**
+ * Single RDF term in a SPARQL JSON result
+ */
+export interface SparqlTerm {
+  type: string;
+  value: string;
+  datatype?: string;
+  'xml:lang'?: string;
+}
+
 /**
  * SPARQL result binding format
  */
 export interface SparqlBinding {
-  [key: string]: {
-    type: string;
-    value: string;
-    datatype: string
-  };
+  [key: string]: SparqlTerm;
 }
 
 /**
@@ -119,6 +166,8 @@ export interface SparqlResults {
 export interface SparqlDiagramData {
   iri: string;
   name: string;
+  orientation?: DiagramOrientation; // Negative if not stated
+  initialView?: Bounds;             // Extent given by Diagram.x1InitialView to y2InitialView
 }
 
 /**
@@ -129,10 +178,409 @@ export interface MovePointsByDeltaData {
   deltaVector: DeltaVector; 
 }
 
+/**
+ * Equipment or other IdentifiedObject a diagram object depicts
+ */
+export interface IdentifiedObjectData {
+  iri: string;
+  className: string; // Local name of the CIM class, e.g. Breaker
+  name?: string;
+  nominalVoltage?: number; // kV, from the BaseVoltage of the equipment or its voltage level
+}
+
+/**
+ * DiagramObjectStyle referenced by a diagram object
+ */
+export interface DiagramObjectStyleData {
+  iri: string;
+  name?: string;
+}
+
+/**
+ * How a diagram object places its symbol or text relative to its point
+ */
+export interface DiagramObjectPresentation {
+  rotation: number; // Degrees, clockwise
+  offsetX: number;  // Offset of the point from the symbol centre
+  offsetY: number;
+  style: DiagramObjectStyleData | null;
+}
+
+/**
+ * Drawing attributes applied for a DiagramObjectStyle name
+ */
+export interface ObjectStyleConfig {
+  color?: string;
+  lineWidth?: number; // Pixels
+  lineDash?: number[]; // Pixels
+}
+
+/**
+ * Editable attributes of diagram objects, omitted attributes are left unchanged
+ */
+export interface DiagramObjectAttributes {
+  drawingOrder?: number;
+  rotation?: number;
+  offsetX?: number;
+  offsetY?: number;
+  name?: string;            // Empty string removes the name
+  styleIri?: string | null; // Null removes the style reference
+  text?: string;            // TextDiagramObjects only
+}
+
+/**
+ * Editable attributes of diagram object points, omitted attributes are left unchanged
+ */
+export interface PointAttributes {
+  zPosition?: number | null; // Null removes the z position
+}
+
+/**
+ * Colour for a voltage band of the voltage palette
+ */
+export interface VoltageColor {
+  minVoltage: number; // kV, applies from this voltage up to the next higher band
+  color: string;
+  label: string;
+}
+
+/**
+ * Diagram to be created
+ */
+export interface NewDiagramData {
+  iri: string;
+  name: string;
+  orientation: DiagramOrientation;
+}
+
+/**
+ * Diagram object to be created together with its points
+ */
+export interface NewDiagramObjectData {
+  iri: string;
+  diagramIri: string;
+  name?: string;
+  drawingOrder: number;
+  isPolygon: boolean;
+  isText: boolean;
+  text?: string;               // TextDiagramObjects only
+  identifiedObjectIri?: string; // Depicted equipment
+  points: {
+    iri: string;
+    x: number;
+    y: number;
+    sequenceNumber: number;
+  }[];
+}
+
+/**
+ * Equipment with the ConnectivityNodes its terminals connect to
+ */
+export interface TopologyEquipmentData extends IdentifiedObjectData {
+  nodeIris: string[];           // In terminal sequence order
+  substationIri?: string;       // Substation, or the top-level container if not in a substation
+  diagramObjectIris: string[];  // Objects depicting the equipment in the laid out diagram
+}
+
+/**
+ * Vertex of a graph to be laid out
+ */
+export interface LayoutNode {
+  id: string;
+  group?: string;               // Nodes of a group are kept close together
+  position: Point2D | null;     // Start position, computed if null
+  fixed: boolean;               // Fixed nodes keep their start position
+}
+
+/**
+ * Edge of a graph to be laid out
+ */
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+/**
+ * New positions of the objects depicting one piece of equipment
+ */
+export interface LayoutPlacement {
+  equipment: IdentifiedObjectData;
+  objectIri: string | null;     // Existing diagram object, null if a new one is created
+  pointIris: string[];          // Existing points in sequence order, empty if the points are inserted
+  positions: Point2D[];
+}
+
+/**
+ * Layout computed from the network topology, not yet stored
+ */
+export interface LayoutPreview {
+  diagramIri: string;
+  selectionOnly: boolean;
+  placements: LayoutPlacement[];
+}
+
+/**
+ * Glue point proposed for points of different objects lying close together
+ */
+export interface GluePointProposal {
+  iri: string;                  // IRI of the glue point once it is accepted
+  pointIris: string[];          // One point per object
+  center: Point2D;
+  topologyConfirmed: boolean;   // Every object's equipment shares a ConnectivityNode with another one
+}
+
+/**
+ * Glue points inferred for a diagram, not yet stored
+ */
+export interface GluePointInference {
+  diagramIri: string;
+  checkedTopology: boolean;
+  proposals: GluePointProposal[];
+}
+
+/**
+ * Problems found when validating a diagram
+ */
+export enum ValidationRule {
+  SEQUENCE_NUMBERS = 'sequence-numbers',             // Duplicate or gapped point sequence numbers
+  POLYGON_POINTS = 'polygon-points',                 // Polygons with fewer than three points
+  GLUE_POINT_OBJECTS = 'glue-point-objects',         // Glue points connecting points of one object only
+  OBJECT_WITHOUT_POINTS = 'object-without-points',
+  MISSING_IDENTIFIED_OBJECT = 'missing-identified-object', // Referenced equipment not in the data
+  POINT_OUTSIDE_EXTENT = 'point-outside-extent',     // Points outside the initial view of the diagram
+  OVERLAPPING_SYMBOLS = 'overlapping-symbols'
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Problem found in a diagram
+ */
+export interface ValidationIssue {
+  id: string;
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+  objectIris: string[];
+  pointIris: string[];          // Points to select when the issue is focused
+  gluePointIri?: string;
+  bounds: Bounds | null;        // Area to zoom to, null if the issue has no position
+  quickFix?: string;            // Label of the automatic fix, if there is one
+}
+
+/**
+ * Result of validating a diagram
+ */
+export interface ValidationReport {
+  diagramIri: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Ways to settle edits that collide with changes of another user
+ */
+export enum ConflictResolution {
+  KEEP_MINE = 'keep-mine',     // Overwrite the other user's changes
+  TAKE_THEIRS = 'take-theirs', // Show the other user's changes, drop mine
+  RELOAD = 'reload'            // Reload the diagram, dropping the whole edit
+}
+
+/**
+ * Point that another user moved or deleted since the diagram was loaded
+ */
+export interface PointConflict {
+  pointIri: string;
+  objectName: string;
+  mine: Point2D;
+  theirs: Point2D | null; // Null if the point was deleted
+}
+
+/**
+ * Renderers the diagram canvas can be drawn with
+ */
+export enum RendererType {
+  CANVAS_2D = 'canvas2d',
+  WEBGL = 'webgl'         // Lines, points and simplified symbols on the GPU
+}
+
+/**
+ * What is drawn at the current zoom level
+ */
+export interface LevelOfDetail {
+  showPoints: boolean;      // Markers of unselected points
+  showText: boolean;        // Text objects
+  showSymbols: boolean;     // Equipment symbols, else plain squares
+  minSegmentLength: number; // Shorter line segments are merged, in world coordinates
+}
+
+/**
+ * Part of the diagram an image export shows
+ */
+export enum ExportScope {
+  DIAGRAM = 'diagram',   // All objects of the diagram
+  VIEWPORT = 'viewport', // What the canvas currently shows
+  SELECTION = 'selection' // Objects with selected points
+}
+
+/**
+ * Image formats a diagram can be exported to
+ */
+export enum ImageFormat {
+  SVG = 'svg',
+  PNG = 'png'
+}
+
+/**
+ * ISO 216 paper sizes a diagram can be printed on
+ */
+export enum PaperSize {
+  A4 = 'A4',
+  A3 = 'A3',
+  A2 = 'A2',
+  A1 = 'A1',
+  A0 = 'A0'
+}
+
+export enum PaperOrientation {
+  PORTRAIT = 'portrait',
+  LANDSCAPE = 'landscape'
+}
+
+/**
+ * Entries of the title block on printed sheets
+ */
+export enum TitleBlockField {
+  DIAGRAM_NAME = 'diagram-name',
+  CGMES_VERSION = 'cgmes-version',
+  ENDPOINT = 'endpoint',
+  DATE = 'date',
+  AUTHOR = 'author'
+}
+
+/**
+ * Settings of the print layout
+ */
+export interface PrintSettings {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  columns: number;                    // Sheets across, the diagram is tiled over columns x rows sheets
+  rows: number;                       // Sheets down
+  titleBlockFields: TitleBlockField[]; // No title block if empty, the sheet number is always shown with it
+  author: string;
+}
+
+/**
+ * Named graphs of a SPARQL store that queries read from and updates write to
+ */
+export interface GraphScope {
+  sourceGraphs: string[];     // Read together with the target graph, the store's default graph if both are unset
+  targetGraph: string | null; // Written to, the store's default graph if null
+}
+
+/**
+ * Ways to authenticate against an endpoint
+ */
+export enum AuthenticationType {
+  NONE = 'none',
+  BASIC = 'basic',   // HTTP Basic with user name and password
+  BEARER = 'bearer'  // Token sent as "Authorization: Bearer <token>"
+}
+
+/**
+ * Triple stores with known endpoint layouts
+ */
+export enum SparqlServerType {
+  GENERIC = 'generic',       // Update endpoint is the query endpoint followed by /update
+  FUSEKI = 'fuseki',
+  GRAPHDB = 'graphdb',
+  VIRTUOSO = 'virtuoso',
+  BLAZEGRAPH = 'blazegraph',
+  STARDOG = 'stardog'
+}
+
+/**
+ * HTTP methods SPARQL queries can be sent with, updates are always posted
+ */
+export enum SparqlQueryMethod {
+  GET = 'GET',
+  POST = 'POST'
+}
+
+/**
+ * Additional header sent with every request, e.g. an API key
+ */
+export interface HttpHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * How to connect to a SPARQL endpoint or REST API, stored per URL
+ */
+export interface ConnectionProfile {
+  endpoint: string;
+  serverType: SparqlServerType;
+  updateEndpoint: string;   // Derived from the endpoint and server type if empty
+  queryMethod: SparqlQueryMethod;
+  authentication: AuthenticationType;
+  username: string;
+  password: string;
+  token: string;
+  headers: HttpHeader[];
+  sessionOnly: boolean;     // Kept in session storage, forgotten when the browser is closed
+}
+
+/**
+ * Outcome of testing a connection profile
+ */
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;          // Server response or reason the request failed
+}
+
+/**
+ * Point of a diagram object as exchanged with a REST backend
+ */
+export interface DiagramLayoutPointData {
+  iri: string;
+  x: number;
+  y: number;
+  sequenceNumber: number;
+  zPosition?: number | null;
+  gluePoint?: string | null;
+}
+
+/**
+ * Diagram object with its points as exchanged with a REST backend
+ */
+export interface DiagramLayoutObjectData {
+  iri: string;
+  name?: string;
+  drawingOrder: number;
+  isPolygon: boolean;
+  isTextDiagramObject: boolean;
+  textContent: string;
+  identifiedObject?: IdentifiedObjectData | null;
+  rotation?: number;
+  offsetX?: number;
+  offsetY?: number;
+  style?: DiagramObjectStyleData | null;
+  points: DiagramLayoutPointData[];
+}
+
+/**
+ * Diagram layout as exchanged with a REST backend
+ */
+export interface DiagramLayoutData {
+  objects: DiagramLayoutObjectData[];
+}
 
 // Export all types as a namespace to avoid circular dependencies
 export default {
   CGMESVersion,
+  DiagramOrientation,
+  DrawingTool,
   InteractionMode,
-  SparqlOperationType
+  SparqlOperationType,
+  RepositoryType
 };
\ No newline at end of file
@@ -1,22 +1,52 @@
 import type { DiagramModel } from '@/core/models/DiagramModel';
+import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
 import type { 
   InteractionState, 
   ViewTransform,
-  Bounds
+  Bounds,
+  LevelOfDetail
 } from '@/core/models/types';
+import { InteractionMode, ExportScope, ImageFormat, RendererType } from '@/core/models/types';
 import { AppConfig } from '@/core/config/AppConfig';
-import { getDynamicSize } from '@/utils/geometry';
+import { getDynamicSize, getYDirection, screenToWorld } from '@/utils/geometry';
 import { 
   renderSelectionRectangle, 
   renderLineOrPolygon,
   renderPoint,
   renderTextObject,
-  renderGrid
+  renderGrid,
+  renderEquipmentSymbol,
+  hasEquipmentSymbol,
+  getObjectStyle,
+  getEquipmentLineWidth,
+  renderDrawingPreview,
+  renderLayoutPreview
 } from '@/utils/canvas';
+import type { DrawingContext } from '@/utils/canvas';
+import { SvgContext } from '@/utils/svg';
+import { setPngResolution } from '@/utils/png';
+import { getLevelOfDetail, simplifyPath } from '@/utils/lod';
+import { GeometryBatch, MarkShape, WebGLRenderer } from '@/utils/webgl';
+import { downloadFile } from '@/utils/download';
 import { get } from 'svelte/store';
-import { gridEnabled, gridSize, viewTransform } from '../canvas/CanvasState';
-import { diagramData } from '../diagram/DiagramState';
+import { gridEnabled, gridSize, rendererType, viewTransform } from '../canvas/CanvasState';
+import { diagramData, diagramList, selectedDiagram } from '../diagram/DiagramState';
 import { interactionState } from '../interaction/InteractionState';
+import { voltageColoringEnabled, voltagePalette, findVoltageColor } from '../voltage/VoltageState';
+import { drawingState } from '../drawing/DrawingState';
+import { layoutPreview } from '../layout/LayoutState';
+import { selectedObjects } from '../inspector/InspectorState';
+import { setLoading, updateStatus } from '../ui/UIState';
+
+/**
+ * Objects and placement of an image export
+ */
+interface ExportFrame {
+  objects: DiagramObjectModel[];
+  viewTransform: ViewTransform; // Maps world coordinates to image pixels at 96 DPI
+  width: number;
+  height: number;
+}
 
 /**
  * Service for canvas rendering
@@ -26,6 +56,8 @@ export class CanvasService {
   private ctx: CanvasRenderingContext2D | null = null;
   private miniMapCanvas: HTMLCanvasElement | null = null;
   private miniMapCtx: CanvasRenderingContext2D | null = null;
+  private glCanvas: HTMLCanvasElement | null = null;
+  private glRenderer: WebGLRenderer | null = null;
   
   constructor() {
     // Subscribe to gridEnabled changes to trigger re-render
@@ -36,6 +68,26 @@ export class CanvasService {
     gridSize.subscribe(() => {
       this.reRender();
     });    
+    // Subscribe to voltage colouring changes to trigger re-render
+    voltageColoringEnabled.subscribe(() => {
+      this.reRender();
+    });
+    voltagePalette.subscribe(() => {
+      this.reRender();
+    });
+    // Subscribe to the drawing tool to show the object being drawn
+    drawingState.subscribe(() => {
+      this.reRender();
+    });
+    // Subscribe to the auto-layout to show the proposed positions
+    layoutPreview.subscribe(() => {
+      this.reRender();
+    });
+    // Subscribe to the renderer setting to switch between Canvas 2D and WebGL
+    rendererType.subscribe(() => {
+      this.updateRenderer();
+      this.reRender();
+    });
   }
 
   /**
@@ -54,10 +106,33 @@ export class CanvasService {
    * Set main canvas element
    * 
    * @param canvas - Canvas HTML element
+   * @param glCanvas - Canvas below the main canvas for WebGL rendering
    */
-  setCanvas(canvas: HTMLCanvasElement): void {
+  setCanvas(canvas: HTMLCanvasElement, glCanvas?: HTMLCanvasElement): void {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d');
+    this.glCanvas = glCanvas ?? null;
+    this.updateRenderer();
+  }
+  
+  /**
+   * Set up or release the WebGL renderer for the chosen renderer type
+   * 
+   * Without WebGL2, for example in headless browsers, the diagram stays on
+   * Canvas 2D, with the same level of detail.
+   */
+  private updateRenderer(): void {
+    const useWebGL = get(rendererType) === RendererType.WEBGL;
+    
+    if (useWebGL && !this.glRenderer && this.glCanvas) {
+      this.glRenderer = WebGLRenderer.create(this.glCanvas);
+      if (!this.glRenderer) {
+        updateStatus('WebGL2 is not available, drawing with Canvas 2D');
+      }
+    } else if (!useWebGL && this.glRenderer) {
+      this.glRenderer.dispose();
+      this.glRenderer = null;
+    }
   }
   
   /**
@@ -124,6 +199,26 @@ export class CanvasService {
     return Math.min(scaleX, scaleY);
   }
   
+  /**
+   * Get the color of an object from its style or the voltage palette
+   * 
+   * @param object - Diagram object
+   * @returns Color of the object's style, else the palette color, else the configured line color
+   */
+  getObjectColor(object: DiagramObjectModel): string {
+    const styleColor = getObjectStyle(object)?.color;
+    if (styleColor) {
+      return styleColor;
+    }
+    
+    const nominalVoltage = object.getNominalVoltage();
+    if (!get(voltageColoringEnabled) || nominalVoltage === null) {
+      return AppConfig.canvas.colors.line;
+    }
+    
+    return findVoltageColor(get(voltagePalette), nominalVoltage)?.color || AppConfig.canvas.colors.line;
+  }
+  
   /**
    * Render the diagram to the canvas
    * 
@@ -141,7 +236,10 @@ export class CanvasService {
     // Clear canvas
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
     
-    if (!diagram || diagram.objects.length === 0) {
+    // Empty diagrams are still shown while drawing or laying out their first objects
+    const preview = get(layoutPreview);
+    if (!diagram || (diagram.objects.length === 0 && interactionState.mode !== InteractionMode.DRAWING && !preview)) {
+      this.glRenderer?.clear();
       this.ctx.restore();
       return;
     }
@@ -149,7 +247,7 @@ export class CanvasService {
     // Apply view transform
     this.ctx.save();
     this.ctx.translate(viewTransform.offsetX, viewTransform.offsetY);
-    this.ctx.scale(viewTransform.scale, viewTransform.scale);
+    this.ctx.scale(viewTransform.scale, viewTransform.scale * getYDirection(viewTransform));
 
     // Render grid if enabled
     const isGridEnabled = get(gridEnabled);
@@ -163,8 +261,88 @@ export class CanvasService {
       );
     }
     
+    const visibleObjects = this.getVisibleObjects(diagram, viewTransform);
+    const levelOfDetail = getLevelOfDetail(viewTransform.scale);
+    if (this.glRenderer) {
+      this.renderWithWebGL(this.glRenderer, visibleObjects, viewTransform, interactionState.selectedPoints, levelOfDetail);
+    } else {
+      this.renderObjects(this.ctx, visibleObjects, viewTransform, interactionState.selectedPoints, true, levelOfDetail);
+    }
+    
+    // Render selection rectangle if selecting
+    if (
+      interactionState.mode === 'selecting' &&
+      interactionState.dragStart &&
+      interactionState.dragEnd
+    ) {
+      renderSelectionRectangle(
+        this.ctx,
+        interactionState.dragStart,
+        interactionState.dragEnd,
+        viewTransform
+      );
+    }
+    
+    // Render the object being drawn
+    if (interactionState.mode === InteractionMode.DRAWING) {
+      renderDrawingPreview(this.ctx, get(drawingState), viewTransform);
+    }
+    
+    // Render the positions proposed by the auto-layout
+    if (preview) {
+      renderLayoutPreview(this.ctx, preview, viewTransform);
+    }
+    
+    this.ctx.restore();
+    
+    // Also render the minimap if we have a minimap canvas
+    if (this.miniMapCanvas && this.miniMapCtx) {
+      this.renderMiniMap(diagram, viewTransform);
+    }
+  }
+  
+  /**
+   * Get the objects that can appear in the view
+   * 
+   * @param diagram - Diagram model
+   * @param viewTransform - View transformation
+   * @returns Objects near or in the visible area
+   */
+  private getVisibleObjects(diagram: DiagramModel, viewTransform: ViewTransform): DiagramObjectModel[] {
+    if (!this.canvas) return diagram.objects;
+    
+    const topLeft = screenToWorld(0, 0, viewTransform);
+    const bottomRight = screenToWorld(this.canvas.width, this.canvas.height, viewTransform);
+    const margin = AppConfig.canvas.cullingMargin;
+    
+    return diagram.findObjectsInBounds({
+      minX: Math.min(topLeft.x, bottomRight.x) - margin,
+      minY: Math.min(topLeft.y, bottomRight.y) - margin,
+      maxX: Math.max(topLeft.x, bottomRight.x) + margin,
+      maxY: Math.max(topLeft.y, bottomRight.y) + margin
+    });
+  }
+  
+  /**
+   * Render diagram objects in drawing order
+   * 
+   * @param ctx - Canvas or SVG context with the view transform applied
+   * @param objects - Objects to render
+   * @param viewTransform - View transformation
+   * @param selectedPoints - Set of selected point IRIs
+   * @param showPoints - Whether to mark the points of lines, texts and selected symbols
+   * @param levelOfDetail - Simplification for the zoom level, none in image exports
+   */
+  renderObjects(
+    ctx: DrawingContext,
+    objects: DiagramObjectModel[],
+    viewTransform: ViewTransform,
+    selectedPoints: Set<string>,
+    showPoints: boolean,
+    levelOfDetail: LevelOfDetail | null = null
+  ): void {
     // Sort objects by drawing order
-    const sortedObjects = [...diagram.objects].sort((a, b) => a.drawingOrder - b.drawingOrder);
+    const sortedObjects = [...objects].sort((a, b) => a.drawingOrder - b.drawingOrder);
     
     // Calculate point radius based on zoom level
     const pointRadius = getDynamicSize(
@@ -172,56 +350,303 @@ export class CanvasService {
       viewTransform.scale
     );
     
+    // Selected points stay marked when the other points are hidden
+    const showAllPoints = showPoints && (levelOfDetail?.showPoints ?? true);
+    
     // Render each object
     for (const object of sortedObjects) {
       if (object.points.length === 0) {
         continue;
       }
       
-      if (object.points.length === 1) {
+      const equipmentClass = object.getEquipmentClass();
+      
+      if (object.points.length === 1 && equipmentClass && hasEquipmentSymbol(equipmentClass)) {
+        // Render the symbol of the depicted equipment, marking it when selected
+        if (levelOfDetail && !levelOfDetail.showSymbols) {
+          const half = AppConfig.canvas.symbolSize / 2;
+          ctx.fillStyle = this.getObjectColor(object);
+          ctx.fillRect(object.points[0].x - half, object.points[0].y - half, half * 2, half * 2);
+        } else {
+          renderEquipmentSymbol(ctx, object, viewTransform, this.getObjectColor(object));
+        }
+        
+        if (showPoints && selectedPoints.has(object.points[0].iri)) {
+          renderPoint(ctx, object.points[0], pointRadius, true, true);
+        }
+      } else if (object.points.length === 1 &&
+          (!object.isText || showAllPoints || (showPoints && selectedPoints.has(object.points[0].iri)))) {
         // Render single point as a dot
         renderPoint(
-          this.ctx,
+          ctx,
           object.points[0],
           pointRadius,
-          interactionState.selectedPoints.has(object.points[0].iri),
+          selectedPoints.has(object.points[0].iri),
           true
         );
-      } else {
+      } else if (object.points.length > 1) {
         // Render connected points
         renderLineOrPolygon(
-          this.ctx,
+          ctx,
           object,
-          interactionState.selectedPoints,
-          viewTransform
+          selectedPoints,
+          viewTransform,
+          this.getObjectColor(object),
+          showAllPoints,
+          levelOfDetail ? simplifyPath(object.points, levelOfDetail.minSegmentLength) : object.points
         );
+        
+        if (showPoints && !showAllPoints) {
+          object.points
+            .filter(point => selectedPoints.has(point.iri))
+            .forEach(point => renderPoint(ctx, point, pointRadius, true, false));
+        }
       }
       
       // Render text for TextDiagramObject elements
-      if (object.isText && object.textContent && object.points.length > 0) {
-        renderTextObject(this.ctx, object, viewTransform);
+      if (object.isText && object.textContent && (levelOfDetail?.showText ?? true)) {
+        renderTextObject(ctx, object, viewTransform, getObjectStyle(object)?.color);
+      }
+    }
+  }
+  
+  /**
+   * Render diagram objects with WebGL, symbols and text on the main canvas above
+   * 
+   * Lines and point markers of all objects are drawn in one pass, so unlike
+   * on Canvas 2D the markers are always above the lines.
+   * 
+   * @param renderer - WebGL renderer of the canvas below the main canvas
+   * @param objects - Objects to render
+   * @param viewTransform - View transformation
+   * @param selectedPoints - Set of selected point IRIs
+   * @param levelOfDetail - Simplification for the zoom level
+   */
+  private renderWithWebGL(
+    renderer: WebGLRenderer,
+    objects: DiagramObjectModel[],
+    viewTransform: ViewTransform,
+    selectedPoints: Set<string>,
+    levelOfDetail: LevelOfDetail
+  ): void {
+    if (!this.canvas || !this.ctx) return;
+    
+    const colors = AppConfig.canvas.colors;
+    const pointRadius = getDynamicSize(AppConfig.canvas.pointSize, viewTransform.scale);
+    const sortedObjects = [...objects].sort((a, b) => a.drawingOrder - b.drawingOrder);
+    const batch = new GeometryBatch();
+    const symbols: DiagramObjectModel[] = [];
+    const texts: DiagramObjectModel[] = [];
+    
+    for (const object of sortedObjects) {
+      if (object.points.length === 0) continue;
+      
+      const equipmentClass = object.getEquipmentClass();
+      const firstPoint = object.points[0];
+      
+      if (object.points.length === 1 && equipmentClass && hasEquipmentSymbol(equipmentClass)) {
+        if (levelOfDetail.showSymbols) {
+          symbols.push(object);
+        } else {
+          batch.addMark(firstPoint, AppConfig.canvas.symbolSize / 2, this.getObjectColor(object), MarkShape.SQUARE);
+        }
+        if (selectedPoints.has(firstPoint.iri)) {
+          batch.addMark(firstPoint, pointRadius, colors.selectedPoint);
+        }
+      } else if (object.points.length === 1) {
+        const isSelected = selectedPoints.has(firstPoint.iri);
+        if (!object.isText || levelOfDetail.showPoints || isSelected) {
+          batch.addMark(firstPoint, pointRadius, isSelected ? colors.selectedPoint : colors.singlePoint);
+        }
+      } else {
+        const lineWidth = getObjectStyle(object)?.lineWidth ?? getEquipmentLineWidth(equipmentClass);
+        batch.addPath(
+          simplifyPath(object.points, levelOfDetail.minSegmentLength),
+          object.isPolygon,
+          this.getObjectColor(object),
+          lineWidth
+        );
+        
+        for (const point of object.points) {
+          const isSelected = selectedPoints.has(point.iri);
+          if (levelOfDetail.showPoints || isSelected) {
+            batch.addMark(point, pointRadius, isSelected ? colors.selectedPoint : colors.regularPoint);
+          }
+        }
+      }
+      
+      if (object.isText && object.textContent && levelOfDetail.showText) {
+        texts.push(object);
       }
     }
     
-    // Render selection rectangle if selecting
-    if (
-      interactionState.mode === 'selecting' &&
-      interactionState.dragStart &&
-      interactionState.dragEnd
-    ) {
-      renderSelectionRectangle(
-        this.ctx,
-        interactionState.dragStart,
-        interactionState.dragEnd,
-        viewTransform
-      );
+    renderer.render(batch, viewTransform, this.canvas.width, this.canvas.height);
+    
+    symbols.forEach(object => renderEquipmentSymbol(this.ctx!, object, viewTransform, this.getObjectColor(object)));
+    texts.forEach(object => renderTextObject(this.ctx!, object, viewTransform, getObjectStyle(object)?.color));
+  }
+  
+  /**
+   * Get the objects, view transform and size of an image export
+   * 
+   * The current view is exported as shown. The diagram and the selection are
+   * fitted into the configured export size, keeping the current orientation.
+   * 
+   * @param diagram - Diagram model
+   * @param scope - Part of the diagram to export
+   * @returns Export frame, or null if there is nothing to export
+   */
+  private getExportFrame(diagram: DiagramModel, scope: ExportScope): ExportFrame | null {
+    const currentView = get(viewTransform);
+    
+    if (scope === ExportScope.VIEWPORT) {
+      if (!this.canvas) return null;
+      return {
+        objects: diagram.objects,
+        viewTransform: currentView,
+        width: this.canvas.width,
+        height: this.canvas.height
+      };
     }
     
-    this.ctx.restore();
+    const objects = scope === ExportScope.SELECTION ? get(selectedObjects) : diagram.objects;
+    const points = objects.flatMap(object => object.points);
+    if (points.length === 0) return null;
     
-    // Also render the minimap if we have a minimap canvas
-    if (this.miniMapCanvas && this.miniMapCtx) {
-      this.renderMiniMap(diagram, viewTransform);
+    // Symbols extend half their size around their point
+    const half = AppConfig.canvas.symbolSize / 2;
+    const bounds: Bounds = {
+      minX: Math.min(...points.map(point => point.x)) - half,
+      minY: Math.min(...points.map(point => point.y)) - half,
+      maxX: Math.max(...points.map(point => point.x)) + half,
+      maxY: Math.max(...points.map(point => point.y)) + half
+    };
+    
+    const margin = AppConfig.export.margin;
+    const scale = this.calculateFitScale(bounds, AppConfig.export.size, AppConfig.export.size, margin);
+    const width = (bounds.maxX - bounds.minX) * scale + margin * 2;
+    const height = (bounds.maxY - bounds.minY) * scale + margin * 2;
+    
+    return {
+      objects,
+      viewTransform: {
+        scale,
+        offsetX: margin - bounds.minX * scale,
+        offsetY: currentView.flipY ? margin + bounds.maxY * scale : margin - bounds.minY * scale,
+        flipY: currentView.flipY
+      },
+      width,
+      height
+    };
+  }
+  
+  /**
+   * Get the pixel ratio of a PNG export, limited so that browsers can allocate the image
+   * 
+   * @param frame - Export frame
+   * @param dpi - Requested resolution
+   * @returns Image pixels per pixel at 96 DPI
+   */
+  private getPngPixelRatio(frame: ExportFrame, dpi: number): number {
+    return Math.min(dpi / 96, AppConfig.export.maxPixels / Math.max(frame.width, frame.height));
+  }
+  
+  /**
+   * Render the diagram to an SVG document with vector lines and text
+   * 
+   * @param scope - Part of the diagram to export
+   * @returns SVG document, or null if there is nothing to export
+   */
+  renderToSvg(scope: ExportScope): string | null {
+    const diagram = get(diagramData);
+    const frame = diagram ? this.getExportFrame(diagram, scope) : null;
+    if (!frame) return null;
+    
+    const ctx = new SvgContext();
+    ctx.translate(frame.viewTransform.offsetX, frame.viewTransform.offsetY);
+    ctx.scale(frame.viewTransform.scale, frame.viewTransform.scale * getYDirection(frame.viewTransform));
+    this.renderObjects(ctx, frame.objects, frame.viewTransform, new Set(), false);
+    
+    return ctx.toSvg(frame.width, frame.height, AppConfig.export.background);
+  }
+  
+  /**
+   * Render the diagram to a PNG image
+   * 
+   * Lines, symbols and text keep their size relative to the diagram, the
+   * resolution only adds detail. Very large images get a lower resolution.
+   * 
+   * @param scope - Part of the diagram to export
+   * @param dpi - Resolution in dots per inch
+   * @returns PNG image with its resolution stored, or null if there is nothing to export
+   */
+  async renderToPng(scope: ExportScope, dpi: number): Promise<Blob | null> {
+    const diagram = get(diagramData);
+    const frame = diagram ? this.getExportFrame(diagram, scope) : null;
+    if (!frame) return null;
+    
+    const pixelRatio = this.getPngPixelRatio(frame, dpi);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(frame.width * pixelRatio);
+    canvas.height = Math.round(frame.height * pixelRatio);
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    
+    ctx.fillStyle = AppConfig.export.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    
+    ctx.scale(pixelRatio, pixelRatio);
+    ctx.translate(frame.viewTransform.offsetX, frame.viewTransform.offsetY);
+    ctx.scale(frame.viewTransform.scale, frame.viewTransform.scale * getYDirection(frame.viewTransform));
+    this.renderObjects(ctx, frame.objects, frame.viewTransform, new Set(), false);
+    
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    return png ? await setPngResolution(png, pixelRatio * 96) : null;
+  }
+  
+  /**
+   * Export the diagram as an SVG or PNG image file
+   * 
+   * @param scope - Part of the diagram to export
+   * @param format - Image format
+   * @param dpi - Resolution of PNG images
+   * @returns True if the image was downloaded
+   */
+  async exportImage(scope: ExportScope, format: ImageFormat, dpi: number = AppConfig.export.dpi): Promise<boolean> {
+    const diagram = get(diagramData);
+    if (!diagram) return false;
+    
+    try {
+      setLoading(true);
+      updateStatus(`Exporting ${format.toUpperCase()} image...`);
+      
+      const content = format === ImageFormat.SVG
+        ? this.renderToSvg(scope)
+        : await this.renderToPng(scope, dpi);
+      
+      if (!content) {
+        updateStatus(scope === ExportScope.SELECTION ? 'Select objects to export them' : 'Nothing to export');
+        return false;
+      }
+      
+      const name = get(diagramList).find(entry => entry.iri === get(selectedDiagram))?.name || 'diagram';
+      const fileName = `${name.replace(/[^\w.-]+/g, '_')}.${format}`;
+      downloadFile(content, fileName, format === ImageFormat.SVG ? 'image/svg+xml' : 'image/png');
+      
+      // Tell when the resolution had to be lowered
+      const frame = format === ImageFormat.PNG ? this.getExportFrame(diagram, scope) : null;
+      const exportedDpi = frame ? Math.round(this.getPngPixelRatio(frame, dpi) * 96) : dpi;
+      updateStatus(exportedDpi < dpi
+        ? `Image exported at ${exportedDpi} DPI, the largest possible for its size`
+        : 'Image exported successfully');
+      return true;
+    } catch (error) {
+      console.error('Error exporting image:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
     }
   }
   
@@ -263,8 +688,14 @@ export class CanvasService {
     // Apply transform to fit the diagram
     this.miniMapCtx.save();
     this.miniMapCtx.translate(padding, padding);
-    this.miniMapCtx.scale(scale, scale);
-    this.miniMapCtx.translate(-bounds.minX, -bounds.minY);
+    if (mainViewTransform?.flipY) {
+      // Keep the minimap in the orientation of the main view
+      this.miniMapCtx.scale(scale, -scale);
+      this.miniMapCtx.translate(-bounds.minX, -bounds.maxY);
+    } else {
+      this.miniMapCtx.scale(scale, scale);
+      this.miniMapCtx.translate(-bounds.minX, -bounds.minY);
+    }
     
     // Sort objects by drawing order
     const sortedObjects = [...diagram.objects].sort((a, b) => a.drawingOrder - b.drawingOrder);
@@ -304,10 +735,12 @@ export class CanvasService {
     
     // Draw the current view rectangle if we have a main view transform
     if (mainViewTransform && this.canvas) {
-      const viewMinX = -mainViewTransform.offsetX / mainViewTransform.scale;
-      const viewMinY = -mainViewTransform.offsetY / mainViewTransform.scale;
-      const viewMaxX = (this.canvas.width - mainViewTransform.offsetX) / mainViewTransform.scale;
-      const viewMaxY = (this.canvas.height - mainViewTransform.offsetY) / mainViewTransform.scale;
+      const topLeft = screenToWorld(0, 0, mainViewTransform);
+      const bottomRight = screenToWorld(this.canvas.width, this.canvas.height, mainViewTransform);
+      const viewMinX = topLeft.x;
+      const viewMinY = Math.min(topLeft.y, bottomRight.y);
+      const viewMaxX = bottomRight.x;
+      const viewMaxY = Math.max(topLeft.y, bottomRight.y);
       
       this.miniMapCtx.strokeStyle = 'rgba(255, 0, 0, 0.8)';
       this.miniMapCtx.lineWidth = 2 / scale;
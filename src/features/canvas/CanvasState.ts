@@ -1,25 +1,101 @@
-import { writable } from 'svelte/store';
-import type { ViewTransform, Point2D } from '@/core/models/types';
+import { writable, get } from 'svelte/store';
+import type { ViewTransform, Point2D, CanvasSize, Bounds } from '@/core/models/types';
+import { DiagramOrientation, RendererType } from '@/core/models/types';
 import { AppConfig } from '@/core/config/AppConfig';
+import { calculateFitScale } from '@/utils/geometry';
 
 // View transformation state
 export const viewTransform = writable<ViewTransform>({
   scale: AppConfig.view.initialScale,
   offsetX: AppConfig.view.initialOffsetX,
-  offsetY: AppConfig.view.initialOffsetY
+  offsetY: AppConfig.view.initialOffsetY,
+  flipY: false
 });
 
+// Size of the diagram canvas in pixels
+export const canvasSize = writable<CanvasSize>({ width: 0, height: 0 });
+
 // Grid state
 export const gridEnabled = writable<boolean>(AppConfig.grid.enabled);
 export const gridSize = writable<number>(AppConfig.grid.size);
 
+// Renderer chosen in the settings, kept across sessions
+export const rendererType = writable<RendererType>(loadRendererType());
+
+rendererType.subscribe(type => {
+  try {
+    localStorage.setItem(AppConfig.canvas.renderer.storageKey, type);
+  } catch (error) {
+    console.warn('Could not store renderer setting:', error);
+  }
+});
+
+/**
+ * Read the stored renderer, falling back to the configured default
+ */
+function loadRendererType(): RendererType {
+  try {
+    const stored = localStorage.getItem(AppConfig.canvas.renderer.storageKey);
+    if (stored && Object.values(RendererType).includes(stored as RendererType)) {
+      return stored as RendererType;
+    }
+  } catch (error) {
+    console.warn('Could not read stored renderer setting:', error);
+  }
+
+  return AppConfig.canvas.renderer.default;
+}
+
 // View transformation functions
 export function resetViewTransform(): void {
-  viewTransform.set({
+  viewTransform.update(transform => ({
     scale: AppConfig.view.initialScale,
     offsetX: AppConfig.view.initialOffsetX,
-    offsetY: AppConfig.view.initialOffsetY
-  });
+    // Flipped views start with the origin in the lower left corner
+    offsetY: transform.flipY ? get(canvasSize).height - AppConfig.view.initialOffsetY : AppConfig.view.initialOffsetY,
+    flipY: transform.flipY
+  }));
+}
+
+/**
+ * Show the world Y axis in the direction of the diagram orientation
+ */
+export function setViewOrientation(orientation: DiagramOrientation): void {
+  viewTransform.update(transform => ({
+    ...transform,
+    flipY: orientation === DiagramOrientation.POSITIVE
+  }));
+}
+
+/**
+ * Center the view on an area, zoomed to fit it into the canvas
+ *
+ * @param bounds - Area in world coordinates
+ * @param maxScale - Scale used for small or empty areas
+ */
+export function zoomToBounds(bounds: Bounds, maxScale: number): void {
+  const size = get(canvasSize);
+  const margin = AppConfig.canvas.symbolSize * 2;
+  const scale = calculateFitScale(
+    {
+      minX: bounds.minX - margin,
+      minY: bounds.minY - margin,
+      maxX: bounds.maxX + margin,
+      maxY: bounds.maxY + margin
+    },
+    size.width,
+    size.height,
+    maxScale
+  );
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+
+  viewTransform.update(transform => ({
+    ...transform,
+    scale,
+    offsetX: size.width / 2 - centerX * scale,
+    offsetY: transform.flipY ? size.height / 2 + centerY * scale : size.height / 2 - centerY * scale
+  }));
 }
 
 export function zoom(center: Point2D, delta: number): void {
@@ -33,6 +109,7 @@ export function zoom(center: Point2D, delta: number): void {
     const newOffsetY = center.y - (center.y - transform.offsetY) * zoomFactor;
     
     return {
+      ...transform,
       scale: newScale,
       offsetX: newOffsetX,
       offsetY: newOffsetY
@@ -0,0 +1,127 @@
+import { get } from 'svelte/store';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type { Point2D, PointConflict } from '@/core/models/types';
+import { ConflictResolution } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+
+// Import state from feature modules
+import { diagramData, cimNamespace } from '../diagram/DiagramState';
+import { updateStatus } from '../ui/UIState';
+import { requestConflictResolution } from './ConflictState';
+import type { DiagramService } from '../diagram/DiagramService';
+
+export class ConflictService {
+  constructor(
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService
+  ) {}
+
+  /**
+   * Write point positions unless someone else changed the points since they were loaded
+   *
+   * Each point is only updated while it is still at its loaded position. The
+   * stored positions are read back afterwards; points that did not end up at
+   * their new position were moved or deleted by someone else, and the user
+   * decides how to resolve the conflict.
+   *
+   * @param pointIris - Points to move
+   * @param positions - New positions
+   * @param loadedPositions - Positions the points had when they were loaded
+   * @returns IRIs of the points now at their new positions, or null if the diagram was reloaded
+   */
+  async writePointPositions(
+      pointIris: string[],
+      positions: Point2D[],
+      loadedPositions: Point2D[]
+  ): Promise<string[] | null> {
+    const namespace = get(cimNamespace);
+    const repository = this.repositoryManager.current;
+
+    await repository.updatePointPositions(pointIris, positions, namespace, loadedPositions);
+    const stored = await repository.loadPointPositions(pointIris, namespace);
+
+    const conflicts = this.findConflicts(pointIris, positions, stored);
+    if (conflicts.length === 0) {
+      return pointIris;
+    }
+
+    updateStatus(`${conflicts.length} point(s) were changed by someone else`);
+    const resolution = await requestConflictResolution(conflicts);
+    const conflictIris = new Set(conflicts.map(conflict => conflict.pointIri));
+
+    switch (resolution) {
+      case ConflictResolution.KEEP_MINE: {
+        // Overwrite without a condition, points deleted in the meantime stay deleted
+        const overwrite = pointIris
+          .map((iri, index) => ({ iri, position: positions[index] }))
+          .filter(point => conflictIris.has(point.iri) && stored.has(point.iri));
+        if (overwrite.length > 0) {
+          await repository.updatePointPositions(
+              overwrite.map(point => point.iri),
+              overwrite.map(point => point.position),
+              namespace
+          );
+        }
+        return pointIris.filter(iri => stored.has(iri));
+      }
+
+      case ConflictResolution.TAKE_THEIRS:
+        if (conflicts.every(conflict => conflict.theirs !== null) && this.applyTheirs(conflicts)) {
+          return pointIris.filter(iri => !conflictIris.has(iri));
+        }
+        // Deleted points cannot be taken over locally
+        await this.diagramService.reloadDiagram();
+        return null;
+
+      case ConflictResolution.RELOAD:
+        await this.diagramService.reloadDiagram();
+        return null;
+    }
+  }
+
+  /**
+   * Compare the stored positions with the written ones
+   */
+  private findConflicts(pointIris: string[], positions: Point2D[], stored: Map<string, Point2D>): PointConflict[] {
+    const tolerance = AppConfig.concurrency.positionTolerance;
+    const pointsByIri = new Map((get(diagramData)?.points ?? []).map(point => [point.iri, point]));
+
+    return pointIris.flatMap((pointIri, index) => {
+      const mine = positions[index];
+      const theirs = stored.get(pointIri) ?? null;
+      if (theirs && Math.abs(theirs.x - mine.x) <= tolerance && Math.abs(theirs.y - mine.y) <= tolerance) {
+        return [];
+      }
+
+      const parent = pointsByIri.get(pointIri)?.parentObject;
+      return [{
+        pointIri,
+        objectName: parent?.identifiedObject?.name || parent?.name || parent?.iri || pointIri,
+        mine,
+        theirs
+      }];
+    });
+  }
+
+  /**
+   * Move the local points to the stored positions
+   *
+   * @returns False if the points are not in the loaded diagram
+   */
+  private applyTheirs(conflicts: PointConflict[]): boolean {
+    const currentDiagram = get(diagramData);
+    if (!currentDiagram) return false;
+
+    const theirsByIri = new Map(conflicts.map(conflict => [conflict.pointIri, conflict.theirs!]));
+    const points = currentDiagram.points.filter(point => theirsByIri.has(point.iri));
+    points.forEach(point => {
+      const theirs = theirsByIri.get(point.iri)!;
+      point.x = theirs.x;
+      point.y = theirs.y;
+    });
+
+    currentDiagram.updateSpatialIndex(points);
+    diagramData.set(currentDiagram);
+    return true;
+  }
+}
@@ -0,0 +1,41 @@
+import { writable } from 'svelte/store';
+import type { ConflictResolution, PointConflict } from '@/core/models/types';
+
+interface ConflictRequest {
+  conflicts: PointConflict[];
+  resolve: (resolution: ConflictResolution) => void;
+}
+
+// Conflicts waiting for the user to choose a resolution
+export const pendingConflict = writable<ConflictRequest | null>(null);
+
+// Requests made while the dialog is open, shown one after another
+const queuedConflicts: ConflictRequest[] = [];
+
+/**
+ * Show the conflict dialog and wait for the user's choice
+ *
+ * @param conflicts - Points changed by someone else
+ * @returns Chosen resolution
+ */
+export function requestConflictResolution(conflicts: PointConflict[]): Promise<ConflictResolution> {
+  return new Promise(resolve => {
+    pendingConflict.update(pending => {
+      if (pending) {
+        queuedConflicts.push({ conflicts, resolve });
+        return pending;
+      }
+      return { conflicts, resolve };
+    });
+  });
+}
+
+/**
+ * Close the conflict dialog with a resolution and show the next request
+ */
+export function resolveConflict(resolution: ConflictResolution): void {
+  pendingConflict.update(pending => {
+    pending?.resolve(resolution);
+    return queuedConflicts.shift() ?? null;
+  });
+}
@@ -0,0 +1,62 @@
+import { RepositoryType } from '@/core/models/types';
+import type { ConnectionProfile, ConnectionTestResult } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { SparqlService } from '@/services/SparqlService';
+import { RestDiagramRepository } from '@/services/repositories/RestDiagramRepository';
+import { buildRequestHeaders } from '@/services/utils/http-utils';
+import { isValidEndpoint } from '@/services/utils/sparql-utils';
+
+// Import state from feature modules
+import { setLoading, updateStatus } from '../ui/UIState';
+
+export class ConnectionService {
+  /**
+   * Send a request with the settings of a profile without connecting to the endpoint
+   *
+   * SPARQL endpoints are sent a trivial query and an update that changes nothing,
+   * REST APIs are asked for their diagrams.
+   *
+   * @param profile - Connection profile to test, possibly not saved yet
+   * @param type - Kind of backend behind the URL
+   * @returns Whether the server accepted the request and what it answered
+   */
+  async testConnection(profile: ConnectionProfile, type: RepositoryType): Promise<ConnectionTestResult> {
+    if (!isValidEndpoint(profile.endpoint)) {
+      return { ok: false, message: 'Please enter a valid URL' };
+    }
+
+    try {
+      setLoading(true);
+      updateStatus(`Testing connection to ${profile.endpoint}...`);
+
+      let message: string;
+
+      if (type === RepositoryType.REST) {
+        const diagrams = await new RestDiagramRepository(profile.endpoint, buildRequestHeaders(profile)).listDiagrams();
+        message = `Connected, the API lists ${diagrams.length} diagram(s)`;
+      } else {
+        const sparqlService = new SparqlService('');
+        sparqlService.useConnectionProfile(profile.endpoint, profile);
+        await sparqlService.executeQuery(AppConfig.connection.testQuery);
+        await sparqlService.executeUpdate(AppConfig.connection.testUpdate);
+        message = `Connected, ${sparqlService.getEndpoint()} answered the test query and ` +
+          `${sparqlService.getUpdateEndpoint()} the test update`;
+      }
+
+      updateStatus(message);
+      return { ok: true, message };
+    } catch (error) {
+      console.error('Error testing connection:', error);
+
+      // Browsers do not tell why a request got no response at all
+      const message = error instanceof TypeError
+        ? `No response (${error.message}). Check the URL and that the server allows requests from this origin (CORS).`
+        : error instanceof Error ? error.message : String(error);
+
+      updateStatus(`Error: ${message}`);
+      return { ok: false, message };
+    } finally {
+      setLoading(false);
+    }
+  }
+}
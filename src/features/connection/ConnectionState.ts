@@ -0,0 +1,85 @@
+import { get, writable } from 'svelte/store';
+import { AuthenticationType, SparqlQueryMethod, SparqlServerType } from '@/core/models/types';
+import type { ConnectionProfile } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+
+// Connection profiles by endpoint URL
+export const connectionProfiles = writable<Record<string, ConnectionProfile>>(loadConnectionProfiles());
+
+// Keep the profiles across sessions, session-only profiles until the browser is closed
+connectionProfiles.subscribe(profiles => {
+  storeConnectionProfiles(localStorage, Object.values(profiles).filter(profile => !profile.sessionOnly));
+  storeConnectionProfiles(sessionStorage, Object.values(profiles).filter(profile => profile.sessionOnly));
+});
+
+function storeConnectionProfiles(storage: Storage, profiles: ConnectionProfile[]): void {
+  try {
+    if (profiles.length > 0) {
+      storage.setItem(AppConfig.connection.storageKey, JSON.stringify(profiles));
+    } else {
+      storage.removeItem(AppConfig.connection.storageKey);
+    }
+  } catch (error) {
+    console.warn('Could not store connection profiles:', error);
+  }
+}
+
+/**
+ * Read the stored profiles, session-only profiles win over persistent ones
+ */
+function loadConnectionProfiles(): Record<string, ConnectionProfile> {
+  const profiles: Record<string, ConnectionProfile> = {};
+
+  [localStorage, sessionStorage].forEach(storage => {
+    try {
+      const stored = storage.getItem(AppConfig.connection.storageKey);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        parsed.forEach((profile: ConnectionProfile) => {
+          profiles[profile.endpoint] = { ...createConnectionProfile(profile.endpoint), ...profile };
+        });
+      }
+    } catch (error) {
+      console.warn('Could not read stored connection profiles:', error);
+    }
+  });
+
+  return profiles;
+}
+
+/**
+ * Profile of an endpoint without authentication, with updates sent to the endpoint followed by /update
+ */
+export function createConnectionProfile(endpoint: string): ConnectionProfile {
+  return {
+    endpoint,
+    serverType: SparqlServerType.GENERIC,
+    updateEndpoint: '',
+    queryMethod: SparqlQueryMethod.POST,
+    authentication: AuthenticationType.NONE,
+    username: '',
+    password: '',
+    token: '',
+    headers: [],
+    sessionOnly: false
+  };
+}
+
+// Connection profile functions
+export function getConnectionProfile(endpoint: string): ConnectionProfile | null {
+  return get(connectionProfiles)[endpoint] ?? null;
+}
+
+export function saveConnectionProfile(profile: ConnectionProfile): void {
+  connectionProfiles.update(profiles => ({ ...profiles, [profile.endpoint]: profile }));
+}
+
+export function removeConnectionProfile(endpoint: string): void {
+  connectionProfiles.update(profiles => {
+    const remaining = { ...profiles };
+    delete remaining[endpoint];
+    return remaining;
+  });
+}
@@ -1,8 +1,10 @@
 import { get } from 'svelte/store';
-import type { CanvasSize, SparqlDiagramData } from '@/core/models/types';
-import { DiagramModel } from '@/core/models/DiagramModel';
-import { SparqlService } from '@/services/SparqlService';
-import { DiagramQueryBuilder } from '@/queries/DiagramQueryBuilder';
+import { v4 as uuidv4 } from 'uuid';
+import type { CanvasSize, CGMESVersion, SparqlDiagramData } from '@/core/models/types';
+import { DiagramOrientation, RepositoryType } from '@/core/models/types';
+import type { DiagramModel } from '@/core/models/DiagramModel';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import { LocalRdfStore } from '@/services/LocalRdfStore';
 import { isValidEndpoint } from '@/services/utils/sparql-utils';
 import { addPaddingToBounds, calculateFitScale } from '@/utils/geometry';
 import { AppConfig } from '@/core/config/AppConfig';
@@ -12,52 +14,91 @@ import {
   diagramData, 
   diagramList, 
   cimNamespace,
-  selectedDiagram
+  selectedDiagram,
+  repositoryType,
+  setCGMESVersion
 } from './DiagramState';
-import { viewTransform, resetViewTransform } from '../canvas/CanvasState';
+import { viewTransform, resetViewTransform, setViewOrientation } from '../canvas/CanvasState';
 import { clearSelection } from '../interaction/InteractionState';
 import { setLoading, updateStatus } from '../ui/UIState';
+import { clearHistory } from '../history/HistoryState';
+import { clearLoadedFiles } from '../files/FileState';
+import { getConnectionProfile } from '../connection/ConnectionState';
+import { getGraphScope } from '../graphs/GraphState';
 
 export class DiagramService {
   constructor(
-    private sparqlService: SparqlService,
-    private diagramQueryBuilder: DiagramQueryBuilder
+    private repositoryManager: RepositoryManager
   ) {}
 
   /**
    * Load all available diagrams
+   * 
+   * @param endpoint - SPARQL endpoint or REST API URL, unused for the in-memory store
+   * @param type - Repository type to connect to
    */
-  async loadDiagramProfiles(endpoint: string): Promise<SparqlDiagramData[]> {
-    if (!isValidEndpoint(endpoint)) {
-      throw new Error('Please enter a valid SPARQL endpoint URL');
+  async loadDiagramProfiles(
+    endpoint: string,
+    type: RepositoryType = get(repositoryType)
+  ): Promise<SparqlDiagramData[]> {
+    const previousLocation = this.repositoryManager.location;
+    
+    switch (type) {
+      case RepositoryType.IN_MEMORY:
+        // The in-memory store is only filled by opening files
+        if (this.repositoryManager.current.type !== RepositoryType.IN_MEMORY) {
+          throw new Error('Open CIM/XML files to load diagrams into memory');
+        }
+        break;
+        
+      case RepositoryType.REST:
+        if (!isValidEndpoint(endpoint)) {
+          throw new Error('Please enter a valid REST API URL');
+        }
+        this.repositoryManager.connectRestApi(endpoint, getConnectionProfile(endpoint));
+        clearLoadedFiles();
+        break;
+        
+      default:
+        if (!isValidEndpoint(endpoint)) {
+          throw new Error('Please enter a valid SPARQL endpoint URL');
+        }
+        this.repositoryManager.connectSparqlEndpoint(
+          endpoint,
+          getConnectionProfile(endpoint),
+          getGraphScope(endpoint)
+        );
+        clearLoadedFiles();
+    }
+    
+    // Recorded edits only apply to the repository they were made in
+    if (this.repositoryManager.location !== previousLocation) {
+      clearHistory();
     }
     
+    return await this.loadDiagramList();
+  }
+  
+  /**
+   * Load all diagrams available in the current repository
+   */
+  async loadDiagramList(): Promise<SparqlDiagramData[]> {
     setLoading(true);
     updateStatus('Loading diagram profiles...');
     
     try {
-      // Set endpoint in SPARQL service
-      this.sparqlService.setEndpoint(endpoint);
-      
       // Get current namespace
       const namespace = get(cimNamespace);
       
-      // Build and execute query
-      const query = this.diagramQueryBuilder.buildDiagramsQuery(namespace);
-      const response = await this.sparqlService.executeQuery(query);
+      // Fetch diagrams from the repository
+      const diagrams = await this.repositoryManager.current.listDiagrams(namespace);
       
-      if (response.results.bindings.length === 0) {
+      if (diagrams.length === 0) {
         updateStatus('No diagrams found');
         diagramList.set([]);
         return [];
       }
       
-      // Process results
-      const diagrams = response.results.bindings.map((binding) => ({
-        iri: binding.diagram.value,
-        name: binding.name ? binding.name.value : binding.diagram.value
-      }));
-      
       // Update diagram list
       diagramList.set(diagrams);
       updateStatus(`Found ${diagrams.length} diagrams`);
@@ -72,6 +113,65 @@ export class DiagramService {
     }
   }
   
+  /**
+   * Create an empty diagram and open it
+   *
+   * Without a loaded in-memory store, an empty one is started,
+   * so diagrams can be drawn from scratch without any files or endpoint.
+   *
+   * @param name - Name of the diagram
+   * @param orientation - Direction of the diagram axes
+   * @param version - CGMES version the diagram is written in
+   * @returns IRI of the new diagram
+   */
+  async createDiagram(
+    name: string,
+    orientation: DiagramOrientation,
+    version: CGMESVersion
+  ): Promise<string> {
+    if (!name.trim()) {
+      throw new Error('Please enter a diagram name');
+    }
+    
+    const diagramIri = `urn:uuid:${uuidv4()}`;
+    
+    setLoading(true);
+    updateStatus('Creating diagram...');
+    
+    try {
+      if (get(repositoryType) === RepositoryType.IN_MEMORY &&
+          this.repositoryManager.current.type !== RepositoryType.IN_MEMORY) {
+        const store = new LocalRdfStore();
+        await store.open();
+        this.repositoryManager.useInMemoryStore(store, 'New model');
+        clearLoadedFiles();
+        clearHistory();
+      }
+      
+      setCGMESVersion(version);
+      
+      await this.repositoryManager.current.createDiagram(
+        { iri: diagramIri, name: name.trim(), orientation },
+        get(cimNamespace)
+      );
+    } catch (error) {
+      console.error('Error creating diagram:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+    
+    // Open the new diagram
+    await this.loadDiagramList();
+    selectedDiagram.set(diagramIri);
+    await this.loadDiagramLayout(diagramIri);
+    
+    updateStatus(`Created diagram ${name.trim()}`);
+    
+    return diagramIri;
+  }
+  
   /**
    * Reload the current diagram without resetting the view
    */
@@ -92,6 +192,10 @@ export class DiagramService {
     updateStatus('Loading diagram layout data...');
     
     try {
+      // Show the Y axis in the direction the diagram defines
+      const listed = get(diagramList).find(diagram => diagram.iri === diagramIri);
+      setViewOrientation(listed?.orientation ?? DiagramOrientation.NEGATIVE);
+      
       // Only reset view if specified (default is true for backward compatibility)
       if (resetView) {
         resetViewTransform();
@@ -101,17 +205,16 @@ export class DiagramService {
       // Get current namespace
       const namespace = get(cimNamespace);
       
-      // Build and execute query
-      const query = this.diagramQueryBuilder.buildDiagramLayoutQuery(diagramIri, namespace);
-      const response = await this.sparqlService.executeQuery(query);
-      
-      // Process diagram data
-      const diagram = DiagramModel.fromSparqlResults(response);
+      // Load and process diagram data
+      const repository = this.repositoryManager.current;
+      const diagram = await repository.loadDiagramLayout(diagramIri, namespace);
+      const readOnlyReason = await repository.checkDiagramWritable(diagramIri, namespace);
       
       // Update diagram data
       diagramData.set(diagram);
       
-      updateStatus(`Loaded diagram with ${diagram.objects.length} objects and ${diagram.points.length} points`);
+      const loaded = `Loaded diagram with ${diagram.objects.length} objects and ${diagram.points.length} points`;
+      updateStatus(readOnlyReason ? `${loaded}. Edits cannot be saved: ${readOnlyReason}` : loaded);
       
       return diagram;
     } catch (error) {
@@ -148,11 +251,12 @@ export class DiagramService {
       1.0 // Max scale
     );
     
-    // Update view transform
-    viewTransform.set({
+    // Update view transform, the top of the view is the highest Y for flipped diagrams
+    viewTransform.update(transform => ({
+      ...transform,
       scale,
       offsetX: -paddedBounds.minX * scale,
-      offsetY: -paddedBounds.minY * scale
-    });
+      offsetY: transform.flipY ? paddedBounds.maxY * scale : -paddedBounds.minY * scale
+    }));
   }
 }
\ No newline at end of file
@@ -1,13 +1,15 @@
 import { writable, derived } from 'svelte/store';
 import type { DiagramModel } from '@/core/models/DiagramModel';
-import { CGMESVersion } from '@/core/models/types';
+import type { SparqlDiagramData } from '@/core/models/types';
+import { CGMESVersion, RepositoryType } from '@/core/models/types';
 import { AppConfig } from '@/core/config/AppConfig';
 
 // Core diagram state
 export const diagramData = writable<DiagramModel | null>(null);
-export const diagramList = writable<{iri: string, name: string}[]>([]);
+export const diagramList = writable<SparqlDiagramData[]>([]);
 export const selectedDiagram = writable<string>('');
 export const cgmesVersion = writable<CGMESVersion>(CGMESVersion.V3_0);
+export const repositoryType = writable<RepositoryType>(RepositoryType.SPARQL);
 
 // Derived state
 export const cimNamespace = derived(
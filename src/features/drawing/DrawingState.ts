@@ -0,0 +1,123 @@
+import { writable, derived, get } from 'svelte/store';
+import type { DrawingState, IdentifiedObjectData, Point2D } from '@/core/models/types';
+import { DrawingTool, InteractionMode } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { gridSize } from '../canvas/CanvasState';
+import { interactionState, clearSelection, snapToGrid } from '../interaction/InteractionState';
+
+// Drawing tool state
+export const drawingState = writable<DrawingState>({
+  tool: DrawingTool.LINE,
+  points: [],
+  cursor: null,
+  text: AppConfig.drawing.defaultText,
+  equipment: null
+});
+
+// Whether the canvas is in drawing mode (derived)
+export const isDrawing = derived(
+  interactionState,
+  $state => $state.mode === InteractionMode.DRAWING
+);
+
+/**
+ * Number of points an object of the given kind needs
+ */
+export function getRequiredPointCount(tool: DrawingTool): number {
+  switch (tool) {
+    case DrawingTool.LINE:
+      return 2;
+    case DrawingTool.POLYGON:
+      return 3;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Whether objects of the given kind are finished by their first point
+ */
+export function isSinglePointTool(tool: DrawingTool): boolean {
+  return tool === DrawingTool.POINT || tool === DrawingTool.TEXT;
+}
+
+// Drawing mode functions
+export function startDrawing(tool: DrawingTool = get(drawingState).tool): void {
+  clearSelection();
+  interactionState.update(state => ({
+    ...state,
+    mode: InteractionMode.DRAWING
+  }));
+  drawingState.update(state => ({
+    ...state,
+    tool,
+    points: [],
+    cursor: null
+  }));
+}
+
+export function stopDrawing(): void {
+  interactionState.update(state => ({
+    ...state,
+    mode: InteractionMode.NONE
+  }));
+  clearDrawingPoints();
+}
+
+export function setDrawingTool(tool: DrawingTool): void {
+  drawingState.update(state => ({
+    ...state,
+    tool,
+    points: []
+  }));
+}
+
+export function setDrawingText(text: string): void {
+  drawingState.update(state => ({ ...state, text }));
+}
+
+export function setDrawingEquipment(equipment: IdentifiedObjectData | null): void {
+  drawingState.update(state => ({ ...state, equipment }));
+}
+
+// Point placement functions
+export function addDrawingPoint(position: Point2D): void {
+  drawingState.update(state => ({
+    ...state,
+    points: [...state.points, position]
+  }));
+}
+
+export function removeLastDrawingPoint(): void {
+  drawingState.update(state => ({
+    ...state,
+    points: state.points.slice(0, -1)
+  }));
+}
+
+export function updateDrawingCursor(position: Point2D | null): void {
+  drawingState.update(state => ({ ...state, cursor: position }));
+}
+
+export function clearDrawingPoints(): void {
+  drawingState.update(state => ({
+    ...state,
+    points: [],
+    cursor: null
+  }));
+}
+
+/**
+ * Snap a position for a new point to the grid, unless ALT is pressed
+ */
+export function snapDrawingPosition(position: Point2D, altKeyPressed: boolean): Point2D {
+  if (altKeyPressed) {
+    return position;
+  }
+
+  const size = get(gridSize);
+  return {
+    x: snapToGrid(position.x, size),
+    y: snapToGrid(position.y, size)
+  };
+}
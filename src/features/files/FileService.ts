@@ -0,0 +1,150 @@
+import { get } from 'svelte/store';
+import { unzipSync } from 'fflate';
+import { RepositoryType } from '@/core/models/types';
+import { LocalRdfStore } from '@/services/LocalRdfStore';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import { detectCGMESVersion } from '@/services/utils/cimxml-utils';
+import { downloadFile } from '@/utils/download';
+import { AppConfig } from '@/core/config/AppConfig';
+import type { DiagramService } from '../diagram/DiagramService';
+
+// Import state from feature modules
+import {
+  diagramData,
+  cgmesVersion,
+  selectedDiagram,
+  repositoryType,
+  setCGMESVersion
+} from '../diagram/DiagramState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import { clearSelection } from '../interaction/InteractionState';
+import { clearHistory } from '../history/HistoryState';
+import { setLoadedFiles } from './FileState';
+
+interface ModelDocument {
+  name: string;
+  content: string;
+}
+
+export class FileService {
+  constructor(
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService
+  ) {}
+
+  /**
+   * Load CIM/XML documents into an in-browser store and work on them instead of an endpoint
+   *
+   * @param files - RDF/XML files or ZIP archives containing them
+   * @returns True if successful
+   */
+  async openModelFiles(files: File[]): Promise<boolean> {
+    setLoading(true);
+    updateStatus('Reading files...');
+
+    try {
+      const documents = await this.readModelDocuments(files);
+      if (documents.length === 0) {
+        updateStatus('No CIM/XML documents found in the selected files');
+        return false;
+      }
+
+      // Pick the CGMES version from the namespaces the documents declare
+      const version = documents
+        .map(document => detectCGMESVersion(document.content))
+        .find(detected => detected !== null);
+      if (version) {
+        setCGMESVersion(version);
+      }
+
+      const store = new LocalRdfStore();
+      await store.open();
+
+      for (const document of documents) {
+        updateStatus(`Parsing ${document.name}...`);
+        try {
+          store.loadRdfXml(document.content, AppConfig.files.baseIri);
+        } catch (error) {
+          throw new Error(`${document.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // Switch to the loaded data, discarding state of the previous repository
+      const fileNames = documents.map(document => document.name);
+      this.repositoryManager.useInMemoryStore(store, fileNames.join(', '));
+      repositoryType.set(RepositoryType.IN_MEMORY);
+      setLoadedFiles(fileNames);
+      clearHistory();
+      clearSelection();
+      selectedDiagram.set('');
+      diagramData.set(null);
+
+      updateStatus(`Loaded ${store.size} triples from ${documents.length} file(s)`);
+    } catch (error) {
+      console.error('Error opening files:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+
+    try {
+      await this.diagramService.loadDiagramList();
+    } catch (error) {
+      // The files stay loaded, the diagram service has already reported why listing failed
+      console.error('Error listing diagrams of opened files:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Export the DiagramLayout profile of the current repository as a CIM/XML file
+   *
+   * @returns True if successful
+   */
+  async exportDiagramLayout(): Promise<boolean> {
+    setLoading(true);
+    updateStatus('Exporting diagram layout...');
+
+    try {
+      const content = await this.repositoryManager.current.exportDiagramLayout(get(cgmesVersion));
+
+      const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, 'Z');
+      downloadFile(content, `DL_${timestamp}.xml`, 'application/rdf+xml');
+
+      updateStatus('Diagram layout exported successfully');
+      return true;
+    } catch (error) {
+      console.error('Error exporting diagram layout:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Read all RDF/XML documents from the given files, unpacking ZIP archives
+   */
+  private async readModelDocuments(files: File[]): Promise<ModelDocument[]> {
+    const documents: ModelDocument[] = [];
+    const decoder = new TextDecoder();
+
+    for (const file of files) {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+
+        for (const [name, data] of Object.entries(entries)) {
+          if (/\.(xml|rdf)$/i.test(name)) {
+            documents.push({ name, content: decoder.decode(data) });
+          }
+        }
+      } else {
+        documents.push({ name: file.name, content: await file.text() });
+      }
+    }
+
+    return documents;
+  }
+}
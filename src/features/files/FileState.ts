@@ -0,0 +1,16 @@
+import { writable, derived } from 'svelte/store';
+
+// Names of the CIM/XML documents loaded into the in-browser store
+export const loadedFiles = writable<string[]>([]);
+
+// Derived state
+export const isWorkingOnFiles = derived(loadedFiles, $files => $files.length > 0);
+
+// File functions
+export function setLoadedFiles(fileNames: string[]): void {
+  loadedFiles.set(fileNames);
+}
+
+export function clearLoadedFiles(): void {
+  loadedFiles.set([]);
+}
@@ -1,21 +1,29 @@
 import { get } from 'svelte/store';
 import { v4 as uuidv4 } from 'uuid';
-import { SparqlService } from '@/services/SparqlService';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
 import type { GluePointModel } from '@/core/models/GluePointModel';
+import type { GluePointProposal } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { proposeGluePoints } from '@/utils/gluing';
 import type { DiagramService } from '@/features/diagram/DiagramService';
+import type { HistoryService } from '@/features/history/HistoryService';
 
 // Import state from feature modules
-import { diagramData, cimNamespace } from '../diagram/DiagramState';
+import { diagramData, cimNamespace, selectedDiagram } from '../diagram/DiagramState';
 import { setLoading, updateStatus } from '../ui/UIState';
-import type { GluePointQueryBuilder } from '@/queries/GluePointQueryBuilder';
-import { selectedGluePoint } from './GluePointState';
+import {
+  selectedGluePoint,
+  gluePointInference,
+  inferenceChecksTopology,
+  clearGluePointInference
+} from './GluePointState';
 import { interactionState, clearSelection, togglePointSelection } from '../interaction/InteractionState';
 
 export class GluePointService {
   constructor(
-      private sparqlService: SparqlService,
-      private gluePointQueryBuilder: GluePointQueryBuilder,
-      private diagramService: DiagramService
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService,
+      private historyService: HistoryService
   ) {}
 
   /**
@@ -136,20 +144,21 @@ export class GluePointService {
       setLoading(true);
       updateStatus('Creating glue point...');
 
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
 
       // Create the glue point in the model
       const gluePoint = currentDiagram.createGluePoint(pointIris, gluePointIri);
 
       // Persist to database
-      const query = this.gluePointQueryBuilder.buildCreateGluePointQuery(
-          gluePointIri,
-          pointIris,
-          namespace
-      );
+      await repository.createGluePoint(gluePointIri, pointIris, namespace);
 
-      await this.sparqlService.executeUpdate(query);
+      this.historyService.record(
+          'Create glue point',
+          () => repository.createGluePoint(gluePointIri, pointIris, namespace),
+          () => repository.removeGluePoint(gluePointIri, namespace)
+      );
 
       // Update the UI state
       diagramData.set(currentDiagram);
@@ -193,19 +202,24 @@ export class GluePointService {
       setLoading(true);
       updateStatus('Removing glue point...');
 
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      // Remember the connected points for undo
+      const connectedPoints = Array.from(gluePoint.connectedPoints);
 
       // Remove from model
       currentDiagram.removeGluePoint(gluePointIri);
 
       // Persist to database
-      const query = this.gluePointQueryBuilder.buildRemoveGluePointQuery(
-          gluePointIri,
-          namespace
-      );
+      await repository.removeGluePoint(gluePointIri, namespace);
 
-      await this.sparqlService.executeUpdate(query);
+      this.historyService.record(
+          'Remove glue point',
+          () => repository.removeGluePoint(gluePointIri, namespace),
+          () => repository.createGluePoint(gluePointIri, connectedPoints, namespace)
+      );
 
       // Update the UI state
       diagramData.set(currentDiagram);
@@ -263,21 +277,22 @@ export class GluePointService {
       setLoading(true);
       updateStatus('Adding point to glue point...');
 
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
 
       // Add to model
       gluePoint.addPoint(pointIri);
       currentDiagram.pointToGluePointMap.set(pointIri, gluePointIri);
 
       // Persist to database
-      const query = this.gluePointQueryBuilder.buildAddPointToGluePointQuery(
-          pointIri,
-          gluePointIri,
-          namespace
-      );
+      await repository.addPointToGluePoint(pointIri, gluePointIri, namespace);
 
-      await this.sparqlService.executeUpdate(query);
+      this.historyService.record(
+          'Add point to glue point',
+          () => repository.addPointToGluePoint(pointIri, gluePointIri, namespace),
+          () => repository.removePointFromGluePoint(pointIri, gluePointIri, namespace)
+      );
 
       // Update the UI state
       diagramData.set(currentDiagram);
@@ -335,21 +350,22 @@ export class GluePointService {
       setLoading(true);
       updateStatus('Removing point from glue point...');
 
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
 
       // Remove from model
       gluePoint.removePoint(pointIri);
       currentDiagram.pointToGluePointMap.delete(pointIri);
 
       // Persist to database
-      const query = this.gluePointQueryBuilder.buildRemovePointFromGluePointQuery(
-          pointIri,
-          gluePointIri,
-          namespace
-      );
+      await repository.removePointFromGluePoint(pointIri, gluePointIri, namespace);
 
-      await this.sparqlService.executeUpdate(query);
+      this.historyService.record(
+          'Remove point from glue point',
+          () => repository.removePointFromGluePoint(pointIri, gluePointIri, namespace),
+          () => repository.addPointToGluePoint(pointIri, gluePointIri, namespace)
+      );
 
       // Update the UI state
       diagramData.set(currentDiagram);
@@ -430,4 +446,156 @@ export class GluePointService {
 
     return success;
   }
-}
\ No newline at end of file
+
+  /**
+   * Propose glue points for points of different objects lying close together
+   *
+   * Only the ends of lines and the points of single-point objects are
+   * considered, text objects and polygons are never glued. Points that are
+   * already glued are left alone. When the topology is checked, points whose
+   * equipment shares no ConnectivityNode with the other proposed objects are
+   * dropped from a proposal.
+   *
+   * @param tolerance - Distance below which points are proposed to be glued
+   * @returns True if there are proposals to review
+   */
+  async inferGluePoints(tolerance: number = AppConfig.glue.inferenceTolerance): Promise<boolean> {
+    const currentDiagram = get(diagramData);
+    const diagramIri = get(selectedDiagram);
+    if (!currentDiagram || !diagramIri) return false;
+
+    const checkTopology = get(inferenceChecksTopology);
+
+    try {
+      setLoading(true);
+      updateStatus('Searching for coincident points...');
+
+      // ConnectivityNodes of the equipment depicted by each object
+      const objectNodes = new Map<string, Set<string>>();
+      if (checkTopology) {
+        updateStatus('Reading network topology...');
+        const topology = await this.repositoryManager.current.loadTopology(diagramIri, get(cimNamespace));
+        topology.forEach(equipment => {
+          equipment.diagramObjectIris.forEach(objectIri => {
+            objectNodes.set(objectIri, new Set(equipment.nodeIris));
+          });
+        });
+      }
+
+      const proposals: GluePointProposal[] = proposeGluePoints(
+          currentDiagram,
+          tolerance,
+          checkTopology ? objectNodes : null
+      ).map(proposal => ({ iri: `urn:uuid:${uuidv4()}`, ...proposal }));
+
+      if (proposals.length === 0) {
+        clearGluePointInference();
+        updateStatus('No glue points to propose');
+        return false;
+      }
+
+      gluePointInference.set({ diagramIri, checkedTopology: checkTopology, proposals });
+
+      const confirmedCount = proposals.filter(proposal => proposal.topologyConfirmed).length;
+      updateStatus(`Proposed ${proposals.length} glue point(s)` +
+          (checkTopology ? `, ${confirmedCount} confirmed by the topology` : ''));
+      return true;
+    } catch (error) {
+      console.error('Error inferring glue points:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Store proposed glue points
+   *
+   * Proposals whose points no longer exist or have been glued meanwhile are skipped.
+   *
+   * @param proposalIris - Proposals to accept, all proposals if omitted
+   * @returns True if at least one glue point was created
+   */
+  async acceptGluePointProposals(proposalIris?: string[]): Promise<boolean> {
+    const inference = get(gluePointInference);
+    const currentDiagram = get(diagramData);
+    if (!inference || !currentDiagram) return false;
+
+    const accepted = inference.proposals
+      .filter(proposal => !proposalIris || proposalIris.includes(proposal.iri))
+      .filter(proposal => proposal.pointIris.every(pointIri =>
+          currentDiagram.points.some(point => point.iri === pointIri) &&
+          !currentDiagram.pointToGluePointMap.has(pointIri)));
+
+    const remaining = inference.proposals
+      .filter(proposal => proposalIris && !proposalIris.includes(proposal.iri));
+
+    if (accepted.length === 0) {
+      updateStatus('No proposed glue points can be created');
+      return false;
+    }
+
+    try {
+      setLoading(true);
+      updateStatus(`Creating ${accepted.length} glue point(s)...`);
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      const create = () => repository.transaction(async transaction => {
+        for (const proposal of accepted) {
+          await transaction.createGluePoint(proposal.iri, proposal.pointIris, namespace);
+        }
+      });
+
+      await create();
+
+      this.historyService.record(`Create ${accepted.length} glue point(s)`, create, () => repository.transaction(async transaction => {
+        for (const proposal of accepted) {
+          await transaction.removeGluePoint(proposal.iri, namespace);
+        }
+      }));
+
+      // Update the model and the UI state
+      accepted.forEach(proposal => currentDiagram.createGluePoint(proposal.pointIris, proposal.iri));
+      diagramData.set(currentDiagram);
+
+      gluePointInference.set(remaining.length > 0 ? { ...inference, proposals: remaining } : null);
+
+      updateStatus(`Created ${accepted.length} glue point(s)`);
+      return true;
+    } catch (error) {
+      console.error('Error creating glue points:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      // Reload the diagram on error to restore correct state
+      await this.diagramService.reloadDiagram();
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Drop a proposed glue point without storing it
+   *
+   * @param proposalIri - Proposal to drop
+   */
+  rejectGluePointProposal(proposalIri: string): void {
+    const inference = get(gluePointInference);
+    if (!inference) return;
+
+    const remaining = inference.proposals.filter(proposal => proposal.iri !== proposalIri);
+    gluePointInference.set(remaining.length > 0 ? { ...inference, proposals: remaining } : null);
+  }
+
+  /**
+   * Drop all proposed glue points
+   */
+  discardGluePointProposals(): void {
+    clearGluePointInference();
+    updateStatus('Glue point proposals discarded');
+  }
+}
@@ -1,4 +1,6 @@
 import { writable, derived, get } from 'svelte/store';
+import type { GluePointInference } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
 import { interactionState } from '../interaction/InteractionState';
 import { diagramData } from '../diagram/DiagramState';
 
@@ -6,6 +8,14 @@ import { diagramData } from '../diagram/DiagramState';
 export const showGluePoints = writable<boolean>(false);
 export const selectedGluePoint = writable<string | null>(null);
 
+// Inferred glue points, shown for review until they are accepted or discarded
+export const gluePointInference = writable<GluePointInference | null>(null);
+export const inferenceChecksTopology = writable<boolean>(AppConfig.glue.checkTopology);
+
+export function clearGluePointInference(): void {
+    gluePointInference.set(null);
+}
+
 // Helper to get all glue points to visualize
 export function getGluePointsForVisualization(): Array<{
     iri: string;
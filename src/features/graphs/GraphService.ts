@@ -0,0 +1,95 @@
+import { get } from 'svelte/store';
+import { RepositoryType } from '@/core/models/types';
+import type { GraphScope } from '@/core/models/types';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type { DiagramService } from '../diagram/DiagramService';
+import { iri } from '@/services/utils/sparql-terms';
+import { isValidEndpoint } from '@/services/utils/sparql-utils';
+
+// Import state from feature modules
+import { diagramData, diagramList, selectedDiagram } from '../diagram/DiagramState';
+import { clearSelection } from '../interaction/InteractionState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import { getConnectionProfile } from '../connection/ConnectionState';
+import { namedGraphs, saveGraphScope } from './GraphState';
+
+export class GraphService {
+  constructor(
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService
+  ) {}
+
+  /**
+   * Ask a SPARQL endpoint for its named graphs, without connecting to it
+   *
+   * @param endpoint - SPARQL endpoint URL
+   * @returns Graph IRIs, empty if the endpoint could not be asked
+   */
+  async listNamedGraphs(endpoint: string): Promise<string[]> {
+    if (!isValidEndpoint(endpoint)) {
+      updateStatus('Error: Please enter a valid SPARQL endpoint URL');
+      return [];
+    }
+
+    setLoading(true);
+    updateStatus(`Loading named graphs of ${endpoint}...`);
+
+    try {
+      const repository = this.repositoryManager.inspectSparqlEndpoint(endpoint, getConnectionProfile(endpoint));
+      const graphs = await repository.listNamedGraphs();
+
+      namedGraphs.set(graphs);
+      updateStatus(graphs.length > 0 ? `Found ${graphs.length} named graphs` : 'No named graphs found');
+
+      return graphs;
+    } catch (error) {
+      console.error('Error loading named graphs:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      namedGraphs.set([]);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Read from and write to the chosen named graphs of an endpoint
+   *
+   * The choice is stored for the endpoint and the diagrams are loaded again
+   * from the chosen graphs. The open diagram stays open if they contain it.
+   *
+   * @param endpoint - SPARQL endpoint URL
+   * @param scope - Graphs to read from and the graph to write to
+   * @returns True if the diagrams were loaded from the chosen graphs
+   */
+  async useGraphs(endpoint: string, scope: GraphScope): Promise<boolean> {
+    try {
+      // Reject graph names that are no IRIs before anything is stored
+      [...scope.sourceGraphs, ...(scope.targetGraph ? [scope.targetGraph] : [])].forEach(graph => iri(graph));
+    } catch (error) {
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    saveGraphScope(endpoint, scope);
+
+    const openDiagram = get(diagramData) ? get(selectedDiagram) : '';
+
+    try {
+      await this.diagramService.loadDiagramProfiles(endpoint, RepositoryType.SPARQL);
+
+      if (openDiagram && get(diagramList).some(diagram => diagram.iri === openDiagram)) {
+        await this.diagramService.reloadDiagram();
+      } else if (openDiagram) {
+        clearSelection();
+        selectedDiagram.set('');
+        diagramData.set(null);
+      }
+    } catch (error) {
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    return true;
+  }
+}
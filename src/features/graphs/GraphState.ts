@@ -0,0 +1,46 @@
+import { get, writable } from 'svelte/store';
+import type { GraphScope } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { DEFAULT_GRAPH_SCOPE } from '@/services/utils/sparql-graphs';
+
+// Named graphs chosen by SPARQL endpoint URL
+export const graphScopes = writable<Record<string, GraphScope>>(loadGraphScopes());
+
+// Named graphs last listed by an endpoint
+export const namedGraphs = writable<string[]>([]);
+
+// Keep the choices across sessions
+graphScopes.subscribe(scopes => {
+  try {
+    localStorage.setItem(AppConfig.graphs.storageKey, JSON.stringify(scopes));
+  } catch (error) {
+    console.warn('Could not store graph choices:', error);
+  }
+});
+
+function loadGraphScopes(): Record<string, GraphScope> {
+  try {
+    const stored = localStorage.getItem(AppConfig.graphs.storageKey);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Could not read stored graph choices:', error);
+    return {};
+  }
+}
+
+// Graph scope functions
+export function getGraphScope(endpoint: string): GraphScope {
+  return get(graphScopes)[endpoint] ?? DEFAULT_GRAPH_SCOPE;
+}
+
+export function saveGraphScope(endpoint: string, scope: GraphScope): void {
+  graphScopes.update(scopes => {
+    const remaining = { ...scopes };
+    delete remaining[endpoint];
+
+    // Endpoints read and written as a whole are not stored
+    return scope.sourceGraphs.length > 0 || scope.targetGraph
+      ? { ...remaining, [endpoint]: scope }
+      : remaining;
+  });
+}
@@ -0,0 +1,136 @@
+import { get } from 'svelte/store';
+import type { DiagramService } from '../diagram/DiagramService';
+
+// Import state from feature modules
+import { selectedDiagram } from '../diagram/DiagramState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import {
+  undoStack,
+  redoStack,
+  pushHistoryEntry,
+  markUndone,
+  markRedone,
+  type HistoryAction,
+  type HistoryEntry
+} from './HistoryState';
+
+export class HistoryService {
+  private busy = false;
+
+  constructor(
+      private diagramService: DiagramService
+  ) {}
+
+  /**
+   * Record an edit that has already been persisted
+   *
+   * @param label - Human readable description of the edit
+   * @param apply - Applies the edit again
+   * @param revert - Reverts the edit
+   */
+  record(label: string, apply: HistoryAction, revert: HistoryAction): void {
+    pushHistoryEntry(label, apply, revert);
+  }
+
+  /**
+   * Revert the most recent edit
+   *
+   * @returns True if successful
+   */
+  async undo(): Promise<boolean> {
+    const entry = get(undoStack).at(-1);
+    if (!entry) {
+      updateStatus('Nothing to undo');
+      return false;
+    }
+
+    return await this.applyEntry(entry, true);
+  }
+
+  /**
+   * Re-apply the most recently undone edit
+   *
+   * @returns True if successful
+   */
+  async redo(): Promise<boolean> {
+    const entry = get(redoStack).at(-1);
+    if (!entry) {
+      updateStatus('Nothing to redo');
+      return false;
+    }
+
+    return await this.applyEntry(entry, false);
+  }
+
+  /**
+   * Undo all edits up to and including the given entry
+   *
+   * @param entryId - ID of the oldest entry to undo
+   */
+  async undoTo(entryId: number): Promise<void> {
+    while (get(undoStack).some(e => e.id === entryId)) {
+      if (!await this.undo()) return;
+    }
+  }
+
+  /**
+   * Redo all edits up to and including the given entry
+   *
+   * @param entryId - ID of the newest entry to redo
+   */
+  async redoTo(entryId: number): Promise<void> {
+    while (get(redoStack).some(e => e.id === entryId)) {
+      if (!await this.redo()) return;
+    }
+  }
+
+  /**
+   * Execute one direction of an entry and move it to the opposite stack
+   */
+  private async applyEntry(entry: HistoryEntry, isUndo: boolean): Promise<boolean> {
+    if (this.busy) return false;
+
+    const action = isUndo ? 'Undo' : 'Redo';
+
+    this.busy = true;
+    setLoading(true);
+    updateStatus(`${action}: ${entry.label}...`);
+
+    try {
+      await (isUndo ? entry.revert() : entry.apply());
+
+      if (isUndo) {
+        markUndone(entry);
+      } else {
+        markRedone(entry);
+      }
+
+      await this.reloadIfDiagramSelected();
+
+      updateStatus(`${action} successful: ${entry.label}`);
+      return true;
+    } catch (error) {
+      console.error(`Error during ${action.toLowerCase()}:`, error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      // Restore the diagram from the store after a partial replay,
+      // keeping the error of the replay if the reload fails as well
+      try {
+        await this.reloadIfDiagramSelected();
+      } catch (reloadError) {
+        console.error('Error reloading after a failed replay:', reloadError);
+        updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return false;
+    } finally {
+      this.busy = false;
+      setLoading(false);
+    }
+  }
+
+  private async reloadIfDiagramSelected(): Promise<void> {
+    if (get(selectedDiagram)) {
+      await this.diagramService.reloadDiagram();
+    }
+  }
+}
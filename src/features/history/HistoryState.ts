@@ -0,0 +1,65 @@
+import { writable, derived } from 'svelte/store';
+import { AppConfig } from '@/core/config/AppConfig';
+
+/**
+ * Persists one direction of a recorded edit
+ */
+export type HistoryAction = () => Promise<void>;
+
+/**
+ * A recorded edit with the actions to replay and revert it
+ */
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: Date;
+  apply: HistoryAction;  // (Re)applies the edit in the repository
+  revert: HistoryAction; // Reverts the edit in the repository
+}
+
+// History stacks (most recent entry last)
+export const undoStack = writable<HistoryEntry[]>([]);
+export const redoStack = writable<HistoryEntry[]>([]);
+
+// Derived state
+export const canUndo = derived(undoStack, $stack => $stack.length > 0);
+export const canRedo = derived(redoStack, $stack => $stack.length > 0);
+
+let nextEntryId = 1;
+
+// History functions
+export function pushHistoryEntry(label: string, apply: HistoryAction, revert: HistoryAction): HistoryEntry {
+  const entry: HistoryEntry = {
+    id: nextEntryId++,
+    label,
+    timestamp: new Date(),
+    apply,
+    revert
+  };
+
+  undoStack.update(stack => {
+    const newStack = [...stack, entry];
+    // Drop the oldest entries once the limit is reached
+    return newStack.slice(Math.max(0, newStack.length - AppConfig.history.maxEntries));
+  });
+
+  // A new edit invalidates everything that was undone before
+  redoStack.set([]);
+
+  return entry;
+}
+
+export function markUndone(entry: HistoryEntry): void {
+  undoStack.update(stack => stack.filter(e => e.id !== entry.id));
+  redoStack.update(stack => [...stack, entry]);
+}
+
+export function markRedone(entry: HistoryEntry): void {
+  redoStack.update(stack => stack.filter(e => e.id !== entry.id));
+  undoStack.update(stack => [...stack, entry]);
+}
+
+export function clearHistory(): void {
+  undoStack.set([]);
+  redoStack.set([]);
+}
@@ -0,0 +1,22 @@
+import { writable, derived } from 'svelte/store';
+import type { DiagramObjectStyleData } from '@/core/models/types';
+import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import type { PointModel } from '@/core/models/PointModel';
+import { diagramData } from '../diagram/DiagramState';
+import { selectedPoints } from '../interaction/InteractionState';
+
+// Inspector state
+export const inspectorOpen = writable<boolean>(true);
+export const objectStyles = writable<DiagramObjectStyleData[]>([]);
+
+// Selected points and the objects they belong to (derived)
+export const selectedPointModels = derived(
+  [diagramData, selectedPoints],
+  ([$diagramData, $selectedPoints]): PointModel[] =>
+    $diagramData ? $diagramData.points.filter(point => $selectedPoints.has(point.iri)) : []
+);
+
+export const selectedObjects = derived(
+  selectedPointModels,
+  $points => Array.from(new Set<DiagramObjectModel>($points.map(point => point.parentObject)))
+);
@@ -5,6 +5,7 @@ import { viewTransform, gridSize } from '@/features/canvas/CanvasState';
 import { diagramData } from '@/features/diagram/DiagramState';
 import { AppConfig } from '@/core/config/AppConfig';
 import { DiagramModel } from '@/core/models/DiagramModel';
+import { PointModel } from '@/core/models/PointModel';
 
 // Define initial interaction state
 const initialInteractionState: InteractionState = {
@@ -14,6 +15,7 @@ const initialInteractionState: InteractionState = {
   dragAnchorPoint: null,
   panStart: null,
   selectedPoints: new Set<string>(),
+  draggedPoints: new Set<string>(),
   originalPositions: new Map<string, Point2D>(),
   altKeyPressed: false
 };
@@ -30,6 +32,30 @@ export const selectedPoints = derived(
 // Event bus
 export const positionUpdateEvent = writable<MovePointsByDeltaData | null>(null);
 
+// Rubber-band mode: glued points follow the points they are glued to
+export const rubberBandEnabled = writable<boolean>(AppConfig.glue.rubberBand);
+
+/**
+ * Points to move together with the given points
+ *
+ * In rubber-band mode these are the given points and every point sharing
+ * a glue point with them, otherwise only the given points.
+ *
+ * @param diagram - Diagram containing the points
+ * @param pointIris - Points being moved
+ * @returns IRIs of all points to move
+ */
+export function getPointsToMove(diagram: DiagramModel, pointIris: Iterable<string>): Set<string> {
+  const pointsToMove = new Set<string>(pointIris);
+  if (!get(rubberBandEnabled)) return pointsToMove;
+
+  Array.from(pointsToMove).forEach(pointIri => {
+    diagram.getGluedPoints(pointIri).forEach(gluedPointIri => pointsToMove.add(gluedPointIri));
+  });
+
+  return pointsToMove;
+}
+
 // Selection functions
 export function clearSelection(): void {
   interactionState.update(state => ({
@@ -60,7 +86,8 @@ export function startDragging(position: Point2D, altKeyPressed: boolean = false)
   
   const currentState = get(interactionState);
   
-  // Store original positions
+  // Store original positions of the selected points and the points following them
+  const draggedPoints = getPointsToMove(currentDiagram, currentState.selectedPoints);
   const originalPositions = new Map<string, Point2D>();
   let dragAnchorPoint: string | null = null;
   
@@ -80,7 +107,7 @@ export function startDragging(position: Point2D, altKeyPressed: boolean = false)
   
   if (currentDiagram.points && Array.isArray(currentDiagram.points)) {
     currentDiagram.points.forEach((point) => {
-      if (currentState.selectedPoints.has(point.iri)) {
+      if (draggedPoints.has(point.iri)) {
         originalPositions.set(point.iri, { x: point.x, y: point.y });
       }
     });
@@ -92,6 +119,7 @@ export function startDragging(position: Point2D, altKeyPressed: boolean = false)
     dragStart: position,
     dragEnd: position,
     dragAnchorPoint,
+    draggedPoints,
     originalPositions,
     altKeyPressed // Store the ALT key state for snap-to-grid control
   }));
@@ -100,7 +128,7 @@ export function startDragging(position: Point2D, altKeyPressed: boolean = false)
 /**
  * Snap a coordinate value to the nearest grid line
  */
-function snapToGrid(value: number, gridSize: number): number {
+export function snapToGrid(value: number, gridSize: number): number {
   return Math.round(value / gridSize) * gridSize;
 }
 
@@ -120,8 +148,8 @@ export function updateDragging(position: Point2D, altKeyPressed: boolean = false
   // Calculate movement with possible grid snapping
   const { dx, dy } = calculateDragMovement(position, currentState, altKeyPressed);
 
-  // Apply movement to selected points only
-  updateSelectedPointPositions(currentDiagram, currentState, dx, dy);
+  // Apply movement to dragged points only
+  updateDraggedPointPositions(currentDiagram, currentState, dx, dy);
 
   // Update drag end position
   interactionState.update(state => ({...state, dragEnd: position}));
@@ -165,20 +193,23 @@ function calculateDragMovement(position: Point2D, state: InteractionState, altKe
   return { dx, dy };
 }
 
-function updateSelectedPointPositions(diagram: DiagramModel, state: InteractionState, dx: number, dy: number) {
+function updateDraggedPointPositions(diagram: DiagramModel, state: InteractionState, dx: number, dy: number) {
   if (!diagram.points || !Array.isArray(diagram.points)) {
     return;
   }
   
+  const movedPoints: PointModel[] = [];
   diagram.points.forEach(point => {
-    if (state.selectedPoints.has(point.iri)) {
+    if (state.draggedPoints.has(point.iri)) {
       const original = state.originalPositions.get(point.iri);
       if (original) {
         point.x = original.x + dx;
         point.y = original.y + dy;
+        movedPoints.push(point);
       }
     }
   });
+  diagram.updateSpatialIndex(movedPoints);
 }
 
 export function endDragging(position: Point2D): MovePointsByDeltaData | null {
@@ -210,7 +241,7 @@ export function endDragging(position: Point2D): MovePointsByDeltaData | null {
   }
   
   const result: MovePointsByDeltaData = {
-    pointIris: Array.from(currentState.selectedPoints),
+    pointIris: Array.from(currentState.draggedPoints),
     deltaVector: { dx,  dy } 
   };
   
@@ -230,15 +261,18 @@ export function revertDraggedPositions(): void {
   
   // Revert positions
   if (currentDiagram.points && Array.isArray(currentDiagram.points)) {
+    const movedPoints: PointModel[] = [];
     currentDiagram.points.forEach((point) => {
-      if (currentState.selectedPoints.has(point.iri)) {
+      if (currentState.draggedPoints.has(point.iri)) {
         const original = currentState.originalPositions.get(point.iri);
         if (original) {
           point.x = original.x;
           point.y = original.y;
+          movedPoints.push(point);
         }
       }
     });
+    currentDiagram.updateSpatialIndex(movedPoints);
   }
   
   // Force diagram update
@@ -293,11 +327,8 @@ export function completeSelecting(): void {
   const newSelectedPoints = new Set<string>(currentState.selectedPoints);
   
   if (currentDiagram.points && Array.isArray(currentDiagram.points)) {
-    currentDiagram.points.forEach((point) => {
-      if (point.x >= startX && point.x <= endX && point.y >= startY && point.y <= endY) {
-        newSelectedPoints.add(point.iri);
-      }
-    });
+    currentDiagram.findPointsInBounds({ minX: startX, minY: startY, maxX: endX, maxY: endY })
+      .forEach((point) => newSelectedPoints.add(point.iri));
   }
   
   // Update state
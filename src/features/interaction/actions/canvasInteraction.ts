@@ -3,13 +3,13 @@ import type { InteractionState, Point2D, MovePointsByDeltaData } from '@/core/mo
 import { InteractionMode } from '@/core/models/types';
 import type { PointModel } from '@/core/models/PointModel';
 import { AppConfig } from '@/core/config/AppConfig';
-import {pointToLineDistanceSquared, screenToWorld} from '@/utils/geometry';
+import {getYDirection, pointToLineDistanceSquared, screenToWorld} from '@/utils/geometry';
 import { findClosestLineSegment } from '@/utils/geometry';
 import { serviceRegistry } from '@/services/ServiceRegistry';
 import { canvasService } from '../../canvas/CanvasService';
 
 // Import from UI state
-import { updateCoordinates } from '../../ui/UIState';
+import { updateCoordinates, updateStatus } from '../../ui/UIState';
 
 // Import from canvas state
 import { viewTransform, zoom as zoomViewport, resetViewTransform, gridSize } from '../../canvas/CanvasState';
@@ -28,7 +28,8 @@ import {
   updatePanning,
   endPanning,
   clearSelection,
-  positionUpdateEvent
+  positionUpdateEvent,
+  getPointsToMove
 } from '../InteractionState';
 
 // Import from diagram state
@@ -47,9 +48,22 @@ import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
 import {selectedGluePoint, showGluePoints} from "@/features/gluepoints/GluePointState";
 import type {DiagramModel} from "@/core/models/DiagramModel";
 
+// Import from drawing state
+import {
+  drawingState,
+  stopDrawing,
+  addDrawingPoint,
+  removeLastDrawingPoint,
+  updateDrawingCursor,
+  clearDrawingPoints,
+  snapDrawingPosition,
+  isSinglePointTool
+} from '../../drawing/DrawingState';
+
 // Services
 const pointService = serviceRegistry.pointService;
 const objectService = serviceRegistry.objectService;
+const historyService = serviceRegistry.historyService;
 
 // Add a variable to track the last mouse event
 let lastMouseEvent: MouseEvent | null = null;
@@ -76,6 +90,14 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
   
   // Handle keyboard events for copy/paste
   function handleKeyDown(e: KeyboardEvent) {
+    // Keys typed into form fields, e.g. the property inspector, are not shortcuts
+    if (isTextInput(e.target)) return;
+    
+    // Keys of the drawing tool take precedence while drawing
+    if (get(interactionState).mode === InteractionMode.DRAWING && handleDrawingKey(e)) {
+      return;
+    }
+    
     if (get(showPointTooltip) && e.key === 'Escape') {
       // Close tooltip with Escape
       hideTooltip();
@@ -133,6 +155,17 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
         e.preventDefault();
         duplicateSelectedObjects();
         return;
+      } else if (e.key.toLowerCase() === 'z' || e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        
+        // Ctrl+Y and Ctrl+Shift+Z redo, Ctrl+Z undoes, also with Caps Lock on
+        const replay = e.key.toLowerCase() === 'y' || e.shiftKey
+          ? historyService.redo()
+          : historyService.undo();
+        replay.catch(error => {
+          updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        });
+        return;
       } else if (e.key === 'c') {
         // Copy operation
         copySelectedDiagramObjects();
@@ -170,8 +203,51 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
     }
   }
   
+  // Check whether a keyboard event originates from an editable field
+  function isTextInput(target: EventTarget | null): boolean {
+    if (target instanceof HTMLInputElement) {
+      return !['checkbox', 'radio', 'button', 'submit', 'color'].includes(target.type);
+    }
+    
+    return target instanceof HTMLTextAreaElement || 
+      target instanceof HTMLSelectElement;
+  }
+  
+  // Handle keys of the drawing tool, returns true if the key was used
+  function handleDrawingKey(e: KeyboardEvent): boolean {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finishDrawing();
+      return true;
+    }
+    
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      removeLastDrawingPoint();
+      return true;
+    }
+    
+    if (e.key === 'Escape') {
+      // Discard the object being drawn, or leave drawing mode if there is none
+      if (get(drawingState).points.length > 0) {
+        clearDrawingPoints();
+      } else {
+        stopDrawing();
+      }
+      return true;
+    }
+    
+    return false;
+  }
+  
   // Add double-click handler for inserting or deleting points
   function handleDoubleClick(e: MouseEvent) {
+    // Double-click finishes the object being drawn
+    if (get(interactionState).mode === InteractionMode.DRAWING) {
+      finishDrawing();
+      return;
+    }
+    
     // Don't act if the tooltip is active
     if (get(showPointTooltip)) {
       return;
@@ -280,12 +356,15 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
     let dx = 0;
     let dy = 0;
     
+    // Up and down refer to the screen, whatever the diagram orientation
+    const yDirection = getYDirection(get(viewTransform));
+    
     switch (e.key) {
       case 'ArrowUp':
-        dy = -moveDistance;
+        dy = -moveDistance * yDirection;
         break;
       case 'ArrowDown':
-        dy = moveDistance;
+        dy = moveDistance * yDirection;
         break;
       case 'ArrowLeft':
         dx = -moveDistance;
@@ -297,25 +376,26 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
     
     if (dx === 0 && dy === 0) return;
     
-    // Move the points
+    const diagram = get(diagramData);
+    if (!diagram) return;
+    
+    // Move the points, glued points follow in rubber-band mode
+    const pointsToMove = getPointsToMove(diagram, selectedPointIris);
     const moveData: MovePointsByDeltaData = {
-      pointIris: selectedPointIris,
+      pointIris: Array.from(pointsToMove),
       deltaVector: { dx, dy }
     };
     
     // Move points locally first
-    const diagram = get(diagramData);
-    if (diagram) {
-      diagram.points
-        .filter(point => selectedPointIris.includes(point.iri))
-        .forEach(point => {
-          point.x += dx;
-          point.y += dy;
-        });
-      
-      // Update diagram to reflect changes
-      diagramData.set(diagram);
-    }
+    const movedPoints = diagram.points.filter(point => pointsToMove.has(point.iri));
+    movedPoints.forEach(point => {
+      point.x += dx;
+      point.y += dy;
+    });
+    diagram.updateSpatialIndex(movedPoints);
+    
+    // Update diagram to reflect changes
+    diagramData.set(diagram);
     
     // Trigger position update to persist changes
     positionUpdateEvent.set(moveData);
@@ -358,6 +438,7 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
       const newOffsetY = center.y - (center.y - transform.offsetY) * (newScale / transform.scale);
       
       return {
+        ...transform,
         scale: newScale,
         offsetX: newOffsetX,
         offsetY: newOffsetY
@@ -525,6 +606,8 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
       updateSelecting(worldPos);
     } else if (state.mode === InteractionMode.DRAGGING) {
       updateDragging(worldPos, e.altKey);
+    } else if (state.mode === InteractionMode.DRAWING) {
+      updateDrawingCursor(snapDrawingPosition(worldPos, e.altKey));
     }
     
     return true;
@@ -590,6 +673,14 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
     
     if (!diagram) return;
     
+    // Place a point of the object being drawn
+    if (currentState.mode === InteractionMode.DRAWING) {
+      if (e.button === 0) {
+        placeDrawingPoint(snapDrawingPosition(worldPos, e.altKey));
+      }
+      return;
+    }
+    
     // Calculate selection radius based on zoom level
     const selectionRadius = AppConfig.canvas.selectionThreshold * 
       Math.pow(currentTransform.scale, -0.3);
@@ -697,6 +788,11 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
   
   // Handle mouse leave events
   function handleMouseLeave() {
+    // Hide the preview segment to the cursor
+    if (get(interactionState).mode === InteractionMode.DRAWING) {
+      updateDrawingCursor(null);
+    }
+    
     // Don't hide the tooltip if it's pinned or being hovered
     if (!get(isTooltipPinned) && !get(isTooltipHovered)) {
       hideTooltipIfNotPinned();
@@ -724,6 +820,32 @@ export function canvasInteraction(canvas: HTMLCanvasElement) {
     await pointService.deletePointFromLine(point);
   }
 
+  /**
+   * Place a point of the object being drawn, single point objects are created right away
+   */
+  function placeDrawingPoint(position: Point2D) {
+    const drawing = get(drawingState);
+    const last = drawing.points[drawing.points.length - 1];
+    
+    // The clicks of a double-click finishing the object land on the last point
+    if (last && last.x === position.x && last.y === position.y) {
+      return;
+    }
+    
+    addDrawingPoint(position);
+    
+    if (isSinglePointTool(drawing.tool)) {
+      finishDrawing();
+    }
+  }
+
+  /**
+   * Create a diagram object from the placed points
+   */
+  function finishDrawing() {
+    objectService.createDrawnObject();
+  }
+
   /**
    * Copy selected diagram objects to clipboard
    */
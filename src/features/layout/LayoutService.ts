@@ -0,0 +1,395 @@
+import { get } from 'svelte/store';
+import { v4 as uuidv4 } from 'uuid';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type { NewPointData } from '@/services/repositories/DiagramRepository';
+import type {
+  LayoutEdge,
+  LayoutNode,
+  LayoutPlacement,
+  NewDiagramObjectData,
+  Point2D,
+  TopologyEquipmentData
+} from '@/core/models/types';
+import type { DiagramModel } from '@/core/models/DiagramModel';
+import { AppConfig } from '@/core/config/AppConfig';
+import { computeForceLayout } from '@/utils/layout';
+
+// Import state from feature modules
+import { diagramData, cimNamespace, selectedDiagram } from '../diagram/DiagramState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import { snapToGrid } from '../interaction/InteractionState';
+import { selectedObjects } from '../inspector/InspectorState';
+import { canvasSize, gridSize } from '../canvas/CanvasState';
+import { layoutPreview, clearLayoutPreview } from './LayoutState';
+import type { DiagramService } from '../diagram/DiagramService';
+import type { HistoryService } from '../history/HistoryService';
+
+export class LayoutService {
+  constructor(
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService,
+      private historyService: HistoryService
+  ) {}
+
+  /**
+   * Compute positions from the network topology and show them as a preview
+   *
+   * @param selectionOnly - Only move the equipment of the selected objects, everything else stays in place
+   * @returns True if a preview is shown
+   */
+  async previewLayout(selectionOnly: boolean = false): Promise<boolean> {
+    const currentDiagram = get(diagramData);
+    const diagramIri = get(selectedDiagram);
+
+    if (!currentDiagram || !diagramIri) {
+      updateStatus('Load a diagram before computing a layout');
+      return false;
+    }
+
+    const selectedObjectIris = new Set(get(selectedObjects).map(object => object.iri));
+    if (selectionOnly && selectedObjectIris.size === 0) {
+      updateStatus('Select the objects to re-layout');
+      return false;
+    }
+
+    try {
+      setLoading(true);
+      updateStatus('Reading network topology...');
+
+      const topology = await this.repositoryManager.current.loadTopology(diagramIri, get(cimNamespace));
+      if (topology.length === 0) {
+        updateStatus('No equipment connected to ConnectivityNodes found');
+        return false;
+      }
+
+      updateStatus('Computing layout...');
+      const placements = this.computePlacements(
+          topology,
+          currentDiagram,
+          selectionOnly ? selectedObjectIris : null
+      );
+
+      if (placements.length === 0) {
+        updateStatus(selectionOnly ? 'The selected objects do not depict connected equipment' : 'Nothing to lay out');
+        return false;
+      }
+
+      layoutPreview.set({ diagramIri, selectionOnly, placements });
+
+      const equipmentCount = new Set(placements.map(placement => placement.equipment.iri)).size;
+      updateStatus(`Layout computed for ${equipmentCount} equipment, apply or discard the preview`);
+      return true;
+    } catch (error) {
+      console.error('Error computing layout:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Store the previewed layout
+   *
+   * Existing points are moved, objects without points get new points
+   * and equipment not yet in the diagram gets a new diagram object.
+   *
+   * @returns True if successful
+   */
+  async applyLayout(): Promise<boolean> {
+    const preview = get(layoutPreview);
+    const currentDiagram = get(diagramData);
+
+    if (!preview || !currentDiagram) {
+      updateStatus('No layout to apply');
+      return false;
+    }
+
+    if (preview.diagramIri !== get(selectedDiagram)) {
+      clearLayoutPreview();
+      updateStatus('The layout preview belongs to another diagram');
+      return false;
+    }
+
+    const pointsByIri = new Map(currentDiagram.points.map(point => [point.iri, point]));
+    const movedPointIris: string[] = [];
+    const oldPositions: Point2D[] = [];
+    const newPositions: Point2D[] = [];
+    const insertedPoints: NewPointData[] = [];
+    const newObjects: NewDiagramObjectData[] = [];
+
+    // New objects are drawn on top of the existing ones
+    let drawingOrder = currentDiagram.objects.reduce((max, object) => Math.max(max, object.drawingOrder), -1) + 1;
+
+    preview.placements.forEach(placement => {
+      if (placement.pointIris.length > 0) {
+        placement.pointIris.forEach((pointIri, index) => {
+          const point = pointsByIri.get(pointIri);
+          if (!point) return;
+
+          movedPointIris.push(pointIri);
+          oldPositions.push({ x: point.x, y: point.y });
+          newPositions.push(placement.positions[index]);
+        });
+      } else if (placement.objectIri) {
+        const objectIri = placement.objectIri;
+        placement.positions.forEach((position, index) => {
+          insertedPoints.push({
+            iri: `urn:uuid:${uuidv4()}`,
+            objectIri,
+            x: position.x,
+            y: position.y,
+            sequenceNumber: index
+          });
+        });
+      } else {
+        newObjects.push({
+          iri: `urn:uuid:${uuidv4()}`,
+          diagramIri: preview.diagramIri,
+          name: placement.equipment.name,
+          drawingOrder: drawingOrder++,
+          isPolygon: false,
+          isText: false,
+          identifiedObjectIri: placement.equipment.iri,
+          points: placement.positions.map((position, index) => ({
+            iri: `urn:uuid:${uuidv4()}`,
+            x: position.x,
+            y: position.y,
+            sequenceNumber: index
+          }))
+        });
+      }
+    });
+
+    try {
+      setLoading(true);
+      updateStatus('Applying layout...');
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      const apply = () => repository.transaction(async transaction => {
+        if (movedPointIris.length > 0) {
+          await transaction.updatePointPositions(movedPointIris, newPositions, namespace);
+        }
+        for (const point of insertedPoints) {
+          await transaction.insertPoint(point, namespace);
+        }
+        for (const object of newObjects) {
+          await transaction.createDiagramObject(object, namespace);
+        }
+      });
+
+      const revert = () => repository.transaction(async transaction => {
+        if (newObjects.length > 0) {
+          await transaction.deleteObjects(newObjects.map(object => object.iri), namespace);
+        }
+        for (const point of insertedPoints) {
+          await transaction.deletePoint(point.iri, namespace);
+        }
+        if (movedPointIris.length > 0) {
+          await transaction.updatePointPositions(movedPointIris, oldPositions, namespace);
+        }
+      });
+
+      await apply();
+
+      this.historyService.record(
+          preview.selectionOnly ? 'Re-layout selection' : 'Auto-layout diagram',
+          apply,
+          revert
+      );
+
+      clearLayoutPreview();
+      await this.diagramService.reloadDiagram();
+
+      // A diagram laid out from scratch may be far from the current view
+      if (!preview.selectionOnly) {
+        this.diagramService.autoFitDiagram(get(canvasSize));
+      }
+
+      updateStatus(`Layout applied: ${movedPointIris.length} points moved, ${insertedPoints.length} points and ${newObjects.length} objects created`);
+      return true;
+    } catch (error) {
+      console.error('Error applying layout:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      // Show what was stored before the error
+      await this.diagramService.reloadDiagram();
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Drop the previewed layout without storing it
+   */
+  discardLayout(): void {
+    clearLayoutPreview();
+    updateStatus('Layout discarded');
+  }
+
+  /**
+   * Lay out the topology graph and derive the new positions of the diagram objects
+   *
+   * Equipment and ConnectivityNodes are the vertices, terminals the edges.
+   * Lines are drawn between their first and last node, all other objects
+   * keep their shape and move with their equipment.
+   *
+   * @param topology - Equipment with its nodes and diagram objects
+   * @param diagram - Current diagram
+   * @param selectedObjectIris - Objects to re-layout, null to lay out the whole diagram
+   * @returns New positions per diagram object
+   */
+  private computePlacements(
+      topology: TopologyEquipmentData[],
+      diagram: DiagramModel,
+      selectedObjectIris: Set<string> | null
+  ): LayoutPlacement[] {
+    const objectsByIri = new Map(diagram.objects.map(object => [object.iri, object]));
+
+    // Current centre of the points depicting each equipment
+    const getCurrentPosition = (equipment: TopologyEquipmentData): Point2D | null => {
+      const points = equipment.diagramObjectIris.flatMap(iri => objectsByIri.get(iri)?.points ?? []);
+      if (points.length === 0) return null;
+
+      return {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+      };
+    };
+
+    // Equipment that is moved, and fixed equipment sharing a node with it
+    const moved = selectedObjectIris
+      ? topology.filter(equipment => equipment.diagramObjectIris.some(iri => selectedObjectIris.has(iri)))
+      : topology;
+    const movedIris = new Set(moved.map(equipment => equipment.iri));
+    const freeNodes = new Set(moved.flatMap(equipment => equipment.nodeIris));
+    const anchors = selectedObjectIris
+      ? topology.filter(equipment =>
+          !movedIris.has(equipment.iri) &&
+          equipment.nodeIris.some(iri => freeNodes.has(iri)) &&
+          getCurrentPosition(equipment) !== null)
+      : [];
+
+    const nodes: LayoutNode[] = [];
+    const edges: LayoutEdge[] = [];
+    const nodeGroups = new Map<string, string | undefined>();
+
+    [...moved, ...anchors].forEach(equipment => {
+      const isMoved = movedIris.has(equipment.iri);
+      nodes.push({
+        id: equipment.iri,
+        group: equipment.substationIri,
+        // A layout of the whole diagram starts from scratch, the positions may be broken
+        position: selectedObjectIris ? getCurrentPosition(equipment) : null,
+        fixed: !isMoved
+      });
+
+      equipment.nodeIris.forEach(nodeIri => {
+        if (!freeNodes.has(nodeIri)) return;
+
+        edges.push({ source: equipment.iri, target: nodeIri });
+        if (!nodeGroups.has(nodeIri)) {
+          nodeGroups.set(nodeIri, equipment.substationIri);
+        }
+      });
+    });
+
+    nodeGroups.forEach((group, nodeIri) => {
+      nodes.push({ id: nodeIri, group, position: null, fixed: false });
+    });
+
+    const positions = computeForceLayout(nodes, edges, {
+      spacing: AppConfig.layout.nodeSpacing,
+      iterations: AppConfig.layout.iterations,
+      groupStrength: AppConfig.layout.groupStrength
+    });
+
+    // A new layout starts one spacing away from the origin, in positive coordinates
+    if (!selectedObjectIris) {
+      let minX = Infinity;
+      let minY = Infinity;
+      positions.forEach(position => {
+        minX = Math.min(minX, position.x);
+        minY = Math.min(minY, position.y);
+      });
+      positions.forEach(position => {
+        position.x += AppConfig.layout.nodeSpacing - minX;
+        position.y += AppConfig.layout.nodeSpacing - minY;
+      });
+    }
+
+    const size = get(gridSize);
+    const snap = (position: Point2D): Point2D => ({
+      x: snapToGrid(position.x, size),
+      y: snapToGrid(position.y, size)
+    });
+
+    const placements: LayoutPlacement[] = [];
+
+    moved.forEach(equipment => {
+      const target = positions.get(equipment.iri);
+      if (!target) return;
+
+      const equipmentData = { iri: equipment.iri, className: equipment.className, name: equipment.name };
+      const nodePositions = equipment.nodeIris
+        .map(iri => positions.get(iri))
+        .filter((position): position is Point2D => position !== undefined);
+      const lineEnds = AppConfig.layout.lineClasses.includes(equipment.className) && nodePositions.length >= 2
+        ? [nodePositions[0], nodePositions[nodePositions.length - 1]]
+        : null;
+      const current = getCurrentPosition(equipment);
+
+      equipment.diagramObjectIris.forEach(objectIri => {
+        const object = objectsByIri.get(objectIri);
+
+        // Objects without points get the points of a new object
+        if (!object || object.points.length === 0) {
+          placements.push({
+            equipment: equipmentData,
+            objectIri,
+            pointIris: [],
+            positions: (lineEnds ?? [target]).map(snap)
+          });
+          return;
+        }
+
+        let newPositions: Point2D[];
+        if (lineEnds && object.points.length >= 2 && !object.isPolygon && !object.isText) {
+          // Spread the points of the line evenly between its nodes
+          const last = object.points.length - 1;
+          newPositions = object.points.map((_, index) => ({
+            x: lineEnds[0].x + (lineEnds[1].x - lineEnds[0].x) * index / last,
+            y: lineEnds[0].y + (lineEnds[1].y - lineEnds[0].y) * index / last
+          }));
+        } else {
+          const dx = target.x - (current?.x ?? target.x);
+          const dy = target.y - (current?.y ?? target.y);
+          newPositions = object.points.map(point => ({ x: point.x + dx, y: point.y + dy }));
+        }
+
+        placements.push({
+          equipment: equipmentData,
+          objectIri,
+          pointIris: object.points.map(point => point.iri),
+          positions: newPositions.map(snap)
+        });
+      });
+
+      // Equipment not yet in the diagram
+      if (equipment.diagramObjectIris.length === 0) {
+        placements.push({
+          equipment: equipmentData,
+          objectIri: null,
+          pointIris: [],
+          positions: (lineEnds ?? [target]).map(snap)
+        });
+      }
+    });
+
+    return placements;
+  }
+}
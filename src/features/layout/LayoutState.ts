@@ -0,0 +1,9 @@
+import { writable } from 'svelte/store';
+import type { LayoutPreview } from '@/core/models/types';
+
+// Layout computed from the topology, shown on the canvas until it is applied or discarded
+export const layoutPreview = writable<LayoutPreview | null>(null);
+
+export function clearLayoutPreview(): void {
+  layoutPreview.set(null);
+}
@@ -1,21 +1,34 @@
 import { get } from 'svelte/store';
-import { SparqlService } from '@/services/SparqlService';
-import { ObjectQueryBuilder } from '@/queries/ObjectQueryBuilder';
-import type { Point2D, Bounds } from '@/core/models/types';
-import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import { v4 as uuidv4 } from 'uuid';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type {
+  Point2D,
+  Bounds,
+  DeltaVector,
+  DiagramObjectAttributes,
+  IdentifiedObjectData,
+  NewDiagramObjectData
+} from '@/core/models/types';
+import { DrawingTool } from '@/core/models/types';
+import { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import { PointModel } from '@/core/models/PointModel';
+import type { DiagramModel } from '@/core/models/DiagramModel';
+import type { ClonedObjectsData } from '@/services/repositories/DiagramRepository';
 
 // Import state from feature modules
 import { diagramData, cimNamespace, selectedDiagram } from '../diagram/DiagramState';
 import { setLoading, updateStatus } from '../ui/UIState';
 import { interactionState, clearSelection } from '../interaction/InteractionState';
+import { objectStyles } from '../inspector/InspectorState';
+import { drawingState, clearDrawingPoints, getRequiredPointCount } from '../drawing/DrawingState';
 import type { DiagramService } from '../diagram/DiagramService';
-import { v4 as uuidv4 } from 'uuid';
+import type { HistoryService } from '../history/HistoryService';
 
 export class ObjectService {
   constructor(
-      private sparqlService: SparqlService,
+      private repositoryManager: RepositoryManager,
       private diagramService: DiagramService,
-      private objectQueryBuilder: ObjectQueryBuilder
+      private historyService: HistoryService
   ) {}
 
   /**
@@ -46,17 +59,18 @@ export class ObjectService {
       // Update the diagram in the UI
       diagramData.set(currentDiagram);
 
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
 
       // Persist changes to the database
-      const query = this.objectQueryBuilder.buildUpdatePolygonPropertyQuery(
-          object.iri,
-          isPolygon,
-          namespace
-      );
+      await repository.updatePolygonProperty(object.iri, isPolygon, namespace);
 
-      await this.sparqlService.executeUpdate(query);
+      this.historyService.record(
+          `${isPolygon ? 'Create' : 'Remove'} polygon`,
+          () => repository.updatePolygonProperty(object.iri, isPolygon, namespace),
+          () => repository.updatePolygonProperty(object.iri, !isPolygon, namespace)
+      );
 
       updateStatus(`Polygon ${isPolygon ? 'created' : 'removed'} successfully`);
 
@@ -78,6 +92,329 @@ export class ObjectService {
     }
   }
 
+  /**
+   * Load the diagram object styles available in the repository
+   */
+  async loadObjectStyles(): Promise<void> {
+    try {
+      const namespace = get(cimNamespace);
+      objectStyles.set(await this.repositoryManager.current.listObjectStyles(namespace));
+    } catch (error) {
+      console.error('Error loading object styles:', error);
+      objectStyles.set([]);
+    }
+  }
+
+  /**
+   * Update attributes of one or more diagram objects
+   *
+   * @param objects - Objects to update
+   * @param attributes - New values, omitted attributes are left unchanged
+   * @returns True if successful
+   */
+  async updateObjectAttributes(
+      objects: DiagramObjectModel[],
+      attributes: DiagramObjectAttributes
+  ): Promise<boolean> {
+    if (objects.length === 0 || Object.keys(attributes).length === 0) return false;
+
+    const currentDiagram = get(diagramData);
+    if (!currentDiagram) return false;
+
+    if (attributes.text !== undefined && objects.some(object => !object.isText)) {
+      updateStatus('Text can only be set on text diagram objects');
+      return false;
+    }
+
+    // Keep the previous values for undo and for reverting on errors
+    const previous = objects.map(object => ({
+      object,
+      attributes: this.getObjectAttributes(object, attributes)
+    }));
+
+    try {
+      setLoading(true);
+      updateStatus(`Updating ${objects.length} diagram object(s)...`);
+
+      // Update objects locally
+      objects.forEach(object => this.applyObjectAttributes(object, attributes));
+      this.refreshDrawingOrder(currentDiagram, attributes);
+      diagramData.set(currentDiagram);
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+      const objectIris = objects.map(object => object.iri);
+
+      // Persist changes to the database
+      await repository.updateObjectAttributes(objectIris, attributes, namespace);
+
+      // Objects with the same previous values are restored together
+      const restoreGroups = new Map<string, { attributes: DiagramObjectAttributes; objectIris: string[] }>();
+      previous.forEach(entry => {
+        const key = JSON.stringify(entry.attributes);
+        if (!restoreGroups.has(key)) {
+          restoreGroups.set(key, { attributes: entry.attributes, objectIris: [] });
+        }
+        restoreGroups.get(key)?.objectIris.push(entry.object.iri);
+      });
+
+      this.historyService.record(
+          objects.length === 1 ? 'Edit object attributes' : `Edit attributes of ${objects.length} objects`,
+          async () => {
+            await repository.updateObjectAttributes(objectIris, attributes, namespace);
+            this.applyToLoadedObjects([{ objectIris, attributes }]);
+          },
+          async () => {
+            await repository.transaction(async transaction => {
+              for (const group of restoreGroups.values()) {
+                await transaction.updateObjectAttributes(group.objectIris, group.attributes, namespace);
+              }
+            });
+            this.applyToLoadedObjects(Array.from(restoreGroups.values()));
+          }
+      );
+
+      updateStatus('Diagram objects updated successfully');
+      return true;
+    } catch (error) {
+      console.error('Error updating diagram object attributes:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      // Revert the change in the UI
+      previous.forEach(entry => this.applyObjectAttributes(entry.object, entry.attributes));
+      this.refreshDrawingOrder(currentDiagram, attributes);
+      diagramData.set(currentDiagram);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Get the current values of an object for the given attributes
+   */
+  private getObjectAttributes(
+      object: DiagramObjectModel,
+      attributes: DiagramObjectAttributes
+  ): DiagramObjectAttributes {
+    const current: DiagramObjectAttributes = {
+      drawingOrder: object.drawingOrder,
+      rotation: object.rotation,
+      offsetX: object.offsetX,
+      offsetY: object.offsetY,
+      name: object.name,
+      styleIri: object.style?.iri ?? null,
+      text: object.textContent
+    };
+
+    return Object.fromEntries(
+        Object.keys(attributes).map(key => [key, current[key as keyof DiagramObjectAttributes]])
+    );
+  }
+
+  /**
+   * Apply attribute values to the local object model
+   */
+  private applyObjectAttributes(object: DiagramObjectModel, attributes: DiagramObjectAttributes): void {
+    if (attributes.drawingOrder !== undefined) object.drawingOrder = attributes.drawingOrder;
+    if (attributes.rotation !== undefined) object.rotation = attributes.rotation;
+    if (attributes.offsetX !== undefined) object.offsetX = attributes.offsetX;
+    if (attributes.offsetY !== undefined) object.offsetY = attributes.offsetY;
+    if (attributes.name !== undefined) object.name = attributes.name;
+    if (attributes.text !== undefined) object.textContent = attributes.text;
+
+    if (attributes.styleIri !== undefined) {
+      const styleIri = attributes.styleIri;
+      object.style = styleIri ? {
+        iri: styleIri,
+        name: get(objectStyles).find(style => style.iri === styleIri)?.name
+      } : null;
+    }
+  }
+
+  /**
+   * Apply attribute values to the objects of the loaded diagram after an undo or redo
+   *
+   * The loaded diagram may have been reloaded since the edit, so objects are looked up by IRI.
+   */
+  private applyToLoadedObjects(groups: { objectIris: string[]; attributes: DiagramObjectAttributes }[]): void {
+    const currentDiagram = get(diagramData);
+    if (!currentDiagram) return;
+
+    groups.forEach(group => {
+      const iris = new Set(group.objectIris);
+      currentDiagram.objects
+        .filter(object => iris.has(object.iri))
+        .forEach(object => this.applyObjectAttributes(object, group.attributes));
+      this.refreshDrawingOrder(currentDiagram, group.attributes);
+    });
+
+    diagramData.set(currentDiagram);
+  }
+
+  /**
+   * Keep objects drawn, hit-tested and culled in their drawing order after it changed
+   */
+  private refreshDrawingOrder(diagram: DiagramModel, attributes: DiagramObjectAttributes): void {
+    if (attributes.drawingOrder !== undefined) {
+      diagram.sortObjects();
+    }
+  }
+
+  /**
+   * Find equipment in the repository to link new diagram objects to
+   *
+   * @param searchTerm - Part of the name or IRI
+   * @returns Matching equipment, empty on errors
+   */
+  async searchEquipment(searchTerm: string): Promise<IdentifiedObjectData[]> {
+    if (!searchTerm.trim()) return [];
+
+    try {
+      const namespace = get(cimNamespace);
+      return await this.repositoryManager.current.searchEquipment(searchTerm.trim(), namespace);
+    } catch (error) {
+      console.error('Error searching equipment:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Create a diagram object from the points placed with the drawing tool
+   *
+   * @returns True if successful
+   */
+  async createDrawnObject(): Promise<boolean> {
+    const drawing = get(drawingState);
+    const currentDiagram = get(diagramData);
+    const diagramIri = get(selectedDiagram);
+
+    if (!currentDiagram || !diagramIri) {
+      updateStatus('Create or load a diagram before drawing');
+      return false;
+    }
+
+    const requiredPoints = getRequiredPointCount(drawing.tool);
+    if (drawing.points.length < requiredPoints) {
+      updateStatus(`Place at least ${requiredPoints} points to create a ${drawing.tool}`);
+      return false;
+    }
+
+    const isText = drawing.tool === DrawingTool.TEXT;
+    if (isText && !drawing.text.trim()) {
+      updateStatus('Enter the text of the new text object');
+      return false;
+    }
+
+    // New objects are drawn on top of the existing ones
+    const drawingOrder = currentDiagram.objects.reduce((max, object) => Math.max(max, object.drawingOrder), -1) + 1;
+
+    const object: NewDiagramObjectData = {
+      iri: `urn:uuid:${uuidv4()}`,
+      diagramIri,
+      drawingOrder,
+      isPolygon: drawing.tool === DrawingTool.POLYGON,
+      isText,
+      text: isText ? drawing.text : undefined,
+      identifiedObjectIri: drawing.equipment?.iri,
+      points: drawing.points.map((point, index) => ({
+        iri: `urn:uuid:${uuidv4()}`,
+        x: point.x,
+        y: point.y,
+        sequenceNumber: index
+      }))
+    };
+
+    try {
+      setLoading(true);
+      updateStatus(`Creating ${drawing.tool}...`);
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      // Persist the new object with its points
+      await repository.createDiagramObject(object, namespace);
+
+      this.historyService.record(
+          `Draw ${drawing.tool}`,
+          () => repository.createDiagramObject(object, namespace),
+          () => repository.deleteObjects([object.iri], namespace)
+      );
+
+      // Continue with the next object
+      clearDrawingPoints();
+
+      this.addDrawnObject(currentDiagram, object, drawing.equipment);
+
+      updateStatus(`Created ${drawing.tool}${drawing.equipment ? ` for ${drawing.equipment.name || drawing.equipment.iri}` : ''}`);
+      return true;
+    } catch (error) {
+      console.error('Error creating diagram object:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Add an object created with the drawing tool to the loaded diagram
+   */
+  private addDrawnObject(
+      diagram: DiagramModel,
+      data: NewDiagramObjectData,
+      equipment: IdentifiedObjectData | null
+  ): void {
+    const object = new DiagramObjectModel(
+        data.iri,
+        data.drawingOrder,
+        data.isPolygon,
+        data.isText,
+        data.text ?? '',
+        equipment,
+        {},
+        data.name ?? ''
+    );
+
+    data.points.forEach(pointData => {
+      const point = new PointModel(pointData.iri, pointData.x, pointData.y, pointData.sequenceNumber, object);
+      object.addPoint(point);
+      diagram.addPoint(point);
+    });
+
+    diagram.addObject(object);
+    diagram.sortObjects();
+    diagramData.set(diagram);
+  }
+
+  /**
+   * Add cloned objects to the loaded diagram
+   *
+   * @param cloned - IRIs of the clones with their mappings from the originals
+   * @param offset - Displacement of the clones
+   * @returns False if the repository gave no mappings or the originals are not in the diagram
+   */
+  private addClonesToDiagram(cloned: ClonedObjectsData, offset: DeltaVector): boolean {
+    const diagram = get(diagramData);
+    if (!diagram || !cloned.objectMapping || !cloned.pointMapping) return false;
+
+    const objectMapping = new Map(Object.entries(cloned.objectMapping));
+    const loadedIris = new Set(diagram.objects.map(object => object.iri));
+    if (Array.from(objectMapping.keys()).some(iri => !loadedIris.has(iri))) return false;
+
+    diagram.addCopies(
+        objectMapping,
+        new Map(Object.entries(cloned.pointMapping)),
+        new Map(Object.entries(cloned.gluePointMapping ?? {})),
+        offset
+    );
+    diagramData.set(diagram);
+    return true;
+  }
+
   /**
    * Copy selected diagram objects to clipboard
    */
@@ -232,8 +569,9 @@ export class ObjectService {
       const offsetX = pastePosition.x - boundsCenter.x;
       const offsetY = pastePosition.y - boundsCenter.y;
 
-      // Get the current namespace and diagram
+      // Get the current namespace, repository and diagram
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
       const diagramIri = get(selectedDiagram);
 
       if (!diagramIri) {
@@ -241,17 +579,27 @@ export class ObjectService {
         return;
       }
 
-      // Call the SparqlService to clone objects
-      const newObjPointIris = await this.cloneObjectsWithOffset(
+      // Let the repository clone the objects
+      const newObjPointIris = await repository.cloneObjects(
           diagramIri,
           Array.from(objectIris),
-          offsetX,
-          offsetY,
+          { dx: offsetX, dy: offsetY },
           namespace
       );
 
-      // Reload the diagram to include the new objects
-      await this.diagramService.reloadDiagram();
+      // Capture the clones so that redo can restore them as they were
+      const clonedSnapshot = await repository.snapshotObjects(newObjPointIris.objectIris, namespace);
+
+      this.historyService.record(
+          `Paste ${objectIris.size} diagram objects`,
+          () => repository.restoreSnapshot(clonedSnapshot),
+          () => repository.deleteObjects(newObjPointIris.objectIris, namespace)
+      );
+
+      // Add the copies to the diagram, reloading it if they cannot be built locally
+      if (!this.addClonesToDiagram(newObjPointIris, { dx: offsetX, dy: offsetY })) {
+        await this.diagramService.reloadDiagram();
+      }
 
       // Select the newly created points
       if (newObjPointIris && newObjPointIris.pointIris) {
@@ -343,19 +691,25 @@ export class ObjectService {
     updateStatus(`Deleting ${objectIris.size} diagram objects...`);
 
     try {
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+      const objectIrisToDelete = Array.from(objectIris);
 
-      // Build delete query
-      const deleteQuery = this.objectQueryBuilder.buildDeleteDiagramObjectsQuery(
-          Array.from(objectIris),
-          namespace
-      );
+      // Capture everything the deletion removes, so it can be undone
+      const removedSnapshot = await repository.snapshotObjects(objectIrisToDelete, namespace);
 
-      // Execute delete query
-      await this.sparqlService.executeUpdate(deleteQuery);
+      // Delete objects with their points
+      await repository.deleteObjects(objectIrisToDelete, namespace);
 
-      await this.diagramService.reloadDiagram();
+      this.historyService.record(
+          `Delete ${objectIris.size} diagram objects`,
+          () => repository.deleteObjects(objectIrisToDelete, namespace),
+          () => repository.restoreSnapshot(removedSnapshot)
+      );
+
+      currentDiagram.removeObjects(objectIrisToDelete);
+      diagramData.set(currentDiagram);
 
       updateStatus(`Deleted ${objectIris.size} diagram objects`);
 
@@ -370,237 +724,4 @@ export class ObjectService {
       setLoading(false);
     }
   }
-
-  /**
-   * Clone objects with their points and apply an offset to the point positions
-   * 
-   * @param diagramIri - Diagram IRI
-   * @param objectIris - IRIs of objects to clone
-   * @param offsetX - X offset to apply to point positions
-   * @param offsetY - Y offset to apply to point positions
-   * @param cimNamespace - CIM namespace
-   * @returns New object and point IRIs
-   */
-  async cloneObjectsWithOffset(
-      diagramIri: string,
-      objectIris: string[],
-      offsetX: number,
-      offsetY: number,
-      cimNamespace: string
-  ): Promise<{ objectIris: string[], pointIris: string[] }> {
-    try {
-      // Step 1: Create mappings for new IRIs
-      const objectMapping = new Map<string, string>();
-      const gluePointMapping = new Map<string, string>();
-      const pointMapping = new Map<string, string>();
-      const newObjectIris: string[] = [];
-      const newPointIris: string[] = [];
-
-      // Create new IRIs for each DiagramObject
-      objectIris.forEach(iri => {
-        const newIri = `urn:uuid:${uuidv4()}`;
-        objectMapping.set(iri, newIri);
-        newObjectIris.push(newIri);
-      });
-
-      // Step 2: Clone all DiagramObjects (including TextDiagramObjects)
-      let objectCloneQuery = `
-        PREFIX cim: <${cimNamespace}>
-        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
-        
-        INSERT {
-          ?newObj ?p ?o .
-          ?newObj cim:DiagramObject.Diagram <${diagramIri}> .
-        }
-        WHERE {
-          VALUES (?obj ?newObj) {
-            ${Array.from(objectMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n          ')}
-          }
-          ?obj ?p ?o .
-          FILTER(?p != cim:DiagramObject.Diagram)
-        }
-      `;
-
-      await this.sparqlService.executeUpdate(objectCloneQuery);
-
-      // Step 3: Get all points and create new point IRIs
-      const allPointsQuery = `
-        PREFIX cim: <${cimNamespace}>
-        
-        SELECT ?point ?obj
-        WHERE {
-          VALUES ?obj {
-            ${objectIris.map(iri => `<${iri}>`).join('\n          ')}
-          }
-          ?point cim:DiagramObjectPoint.DiagramObject ?obj .
-        }
-      `;
-
-      const allPointsResult = await this.sparqlService.executeQuery(allPointsQuery);
-
-      // Create mappings for all points
-      if (allPointsResult.results && allPointsResult.results.bindings && allPointsResult.results.bindings.length > 0) {
-        allPointsResult.results.bindings.forEach(binding => {
-          if (binding.point) {
-            const oldPointIri = binding.point.value;
-            const newPointIri = `urn:uuid:${uuidv4()}`;
-            pointMapping.set(oldPointIri, newPointIri);
-            newPointIris.push(newPointIri);
-          }
-        });
-      } else {
-        // No points to clone
-        return { objectIris: newObjectIris, pointIris: [] };
-      }
-
-      // Step 4: Find all DiagramGluePoints linked to the DiagramObjects via DiagramObjectPoints
-      const gluePointsQuery = `
-        PREFIX cim: <${cimNamespace}>
-        
-        SELECT DISTINCT ?point ?gluePoint
-        WHERE {
-          VALUES ?obj {
-            ${objectIris.map(iri => `<${iri}>`).join('\n          ')}
-          }
-          ?point cim:DiagramObjectPoint.DiagramObject ?obj .
-          ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ?gluePoint .
-        }
-      `;
-
-      const gluePointsResult = await this.sparqlService.executeQuery(gluePointsQuery);
-
-      // Create mappings for glue points
-      if (gluePointsResult.results && gluePointsResult.results.bindings) {
-        gluePointsResult.results.bindings.forEach(binding => {
-          if (binding.gluePoint) {
-            const oldGlueIri = binding.gluePoint.value;
-            if (!gluePointMapping.has(oldGlueIri)) {
-              const newGlueIri = `urn:uuid:${uuidv4()}`;
-              gluePointMapping.set(oldGlueIri, newGlueIri);
-            }
-          }
-        });
-      }
-
-      // Step 5: Clone the DiagramGluePoints if any were found
-      if (gluePointMapping.size > 0) {
-        const gluePointCloneQuery = `
-          PREFIX cim: <${cimNamespace}>
-          PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
-          
-          INSERT {
-            ?newGlue ?p ?o .
-          }
-          WHERE {
-            VALUES (?glue ?newGlue) {
-              ${Array.from(gluePointMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n            ')}
-            }
-            ?glue ?p ?o .
-          }
-        `;
-
-        await this.sparqlService.executeUpdate(gluePointCloneQuery);
-      }
-
-      // Step 6: Clone all points (basic properties only, no references)
-      const pointCloneQuery = `
-        PREFIX cim: <${cimNamespace}>
-        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
-        
-        INSERT {
-          ?newPoint ?p ?o .
-        }
-        WHERE {
-          VALUES (?point ?newPoint) {
-            ${Array.from(pointMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n          ')}
-          }
-          ?point ?p ?o .
-          FILTER(?p != cim:DiagramObjectPoint.DiagramObject)
-          FILTER(?p != cim:DiagramObjectPoint.DiagramObjectGluePoint)
-        }
-      `;
-
-      await this.sparqlService.executeUpdate(pointCloneQuery);
-
-      // Step 7: Update DiagramObject references for points
-      const updateObjectRefsQuery = `
-        PREFIX cim: <${cimNamespace}>
-        
-        INSERT {
-          ?newPoint cim:DiagramObjectPoint.DiagramObject ?newObj .
-        }
-        WHERE {
-          VALUES (?point ?newPoint) {
-            ${Array.from(pointMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n          ')}
-          }
-          ?point cim:DiagramObjectPoint.DiagramObject ?obj .
-          VALUES (?obj ?newObj) {
-            ${Array.from(objectMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n          ')}
-          }
-        }
-      `;
-
-      await this.sparqlService.executeUpdate(updateObjectRefsQuery);
-
-      // Step 8: Update GluePoint references if needed
-      if (gluePointMapping.size > 0) {
-        const updateGlueRefsQuery = `
-          PREFIX cim: <${cimNamespace}>
-          
-          INSERT {
-            ?newPoint cim:DiagramObjectPoint.DiagramObjectGluePoint ?newGlue .
-          }
-          WHERE {
-            VALUES (?point ?newPoint) {
-              ${Array.from(pointMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n            ')}
-            }
-            ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ?glue .
-            VALUES (?glue ?newGlue) {
-              ${Array.from(gluePointMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n            ')}
-            }
-          }
-        `;
-
-        await this.sparqlService.executeUpdate(updateGlueRefsQuery);
-      }
-
-      // Step 9: Update point coordinates with offset
-      const updateCoordinatesQuery = `
-        PREFIX cim: <${cimNamespace}>
-        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
-        
-        DELETE {
-          ?newPoint cim:DiagramObjectPoint.xPosition ?oldX .
-          ?newPoint cim:DiagramObjectPoint.yPosition ?oldY .
-        }
-        INSERT {
-          ?newPoint cim:DiagramObjectPoint.xPosition ?newX .
-          ?newPoint cim:DiagramObjectPoint.yPosition ?newY .
-        }
-        WHERE {
-          VALUES (?point ?newPoint) {
-            ${Array.from(pointMapping.entries()).map(([oldIri, newIri]) => `(<${oldIri}> <${newIri}>)`).join('\n          ')}
-          }
-          ?point cim:DiagramObjectPoint.xPosition ?x .
-          ?point cim:DiagramObjectPoint.yPosition ?y .
-          
-          ?newPoint cim:DiagramObjectPoint.xPosition ?oldX .
-          ?newPoint cim:DiagramObjectPoint.yPosition ?oldY .
-          
-          BIND(xsd:float(?x) + ${offsetX} AS ?newX)
-          BIND(xsd:float(?y) + ${offsetY} AS ?newY)
-        }
-      `;
-
-      await this.sparqlService.executeUpdate(updateCoordinatesQuery);
-
-      return {
-        objectIris: newObjectIris,
-        pointIris: newPointIris
-      };
-    } catch (error) {
-      console.error('Error in cloneObjectsWithOffset:', error);
-      throw error;
-    }
-  }
 }
\ No newline at end of file
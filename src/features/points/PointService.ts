@@ -1,24 +1,25 @@
 import { v4 as uuidv4 } from 'uuid';
 import { get } from 'svelte/store';
 import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
-import type { Point2D, MovePointsByDeltaData } from '@/core/models/types';
+import type { Point2D, MovePointsByDeltaData, PointAttributes } from '@/core/models/types';
 import { PointModel } from '@/core/models/PointModel';
-import { SparqlService } from '@/services/SparqlService';
-import { PointQueryBuilder } from '@/queries/PointQueryBuilder';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
 
 // Import state from feature modules
 import { diagramData, cimNamespace } from '../diagram/DiagramState';
+import { viewTransform } from '../canvas/CanvasState';
 import { setLoading, updateStatus } from '../ui/UIState';
 import { clearSelection, togglePointSelection, interactionState } from '../interaction/InteractionState';
-import type { ObjectQueryBuilder } from '@/queries/ObjectQueryBuilder';
 import type { DiagramService } from '../diagram/DiagramService';
+import type { HistoryService } from '../history/HistoryService';
+import type { ConflictService } from '../conflicts/ConflictService';
 
 export class PointService {
   constructor(
-      private sparqlService: SparqlService,
-      private pointQueryBuilder: PointQueryBuilder,
-      private objectQueryBuilder: ObjectQueryBuilder,
-      private diagramService: DiagramService
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService,
+      private historyService: HistoryService,
+      private conflictService: ConflictService
   ) {}
 
   /**
@@ -41,6 +42,12 @@ export class PointService {
       setLoading(true);
       updateStatus('Adding new point...');
 
+      // Remember the sequence numbers for undo
+      const previousSequence = object.points.map(point => ({
+        iri: point.iri,
+        sequenceNumber: point.sequenceNumber
+      }));
+
       // Create new point
       const newPoint = new PointModel(
           newPointIri,
@@ -59,15 +66,16 @@ export class PointService {
       });
 
       // Add point to the diagram's points collection
-      currentDiagram.points.push(newPoint);
+      currentDiagram.addPoint(newPoint);
 
       // Update the diagram in the UI
       diagramData.set(currentDiagram);
 
-      // Get the current namespace
+      // Get the current namespace and repository
       const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
 
-      // Create data for SPARQL update
+      // Create data for the repository update
       const pointUpdateData = {
         iri: newPointIri,
         objectIri: object.iri,
@@ -82,26 +90,18 @@ export class PointService {
         sequenceNumber: point.sequenceNumber
       }));
 
-      // Persist changes to the database
-      // First insert the new point
-      const insertQuery = this.pointQueryBuilder.buildInsertPointQuery(
-          pointUpdateData.iri,
-          pointUpdateData.objectIri,
-          pointUpdateData.x,
-          pointUpdateData.y,
-          pointUpdateData.sequenceNumber,
-          namespace
-      );
-
-      await this.sparqlService.executeUpdate(insertQuery);
+      // Insert the new point and update all sequence numbers in one transaction
+      const persist = () => repository.transaction(async transaction => {
+        await transaction.insertPoint(pointUpdateData, namespace);
+        await transaction.updateSequenceNumbers(sequenceUpdates, namespace);
+      });
 
-      // Then update all sequence numbers
-      const updateSequenceQuery = this.pointQueryBuilder.buildUpdateSequenceNumbersQuery(
-          sequenceUpdates,
-          namespace
-      );
+      await persist();
 
-      await this.sparqlService.executeUpdate(updateSequenceQuery);
+      this.historyService.record('Add point', persist, () => repository.transaction(async transaction => {
+        await transaction.deletePoint(newPointIri, namespace);
+        await transaction.updateSequenceNumbers(previousSequence, namespace);
+      }));
 
       updateStatus('New point added');
 
@@ -151,6 +151,17 @@ export class PointService {
       setLoading(true);
       updateStatus('Deleting point...');
 
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      // Capture the point and the current sequence for undo
+      const pointSnapshot = await repository.snapshotPoint(point.iri, namespace);
+      const previousSequence = object.points.map(p => ({
+        iri: p.iri,
+        sequenceNumber: p.sequenceNumber
+      }));
+
       // Remove the point from the object's points array
       object.points.splice(pointIndex, 1);
 
@@ -170,9 +181,6 @@ export class PointService {
 
       // Persist changes to the database
 
-      // Get the current namespace
-      const namespace = get(cimNamespace);
-
       // Prepare sequence number updates for all points in the object
       const sequenceUpdates = object.points.map((p: { iri: any; sequenceNumber: any; }) => ({
         iri: p.iri,
@@ -180,31 +188,27 @@ export class PointService {
       }));
 
 
-      // Delete the point
-      const deletePointQuery = this.pointQueryBuilder.buildDeletePointQuery(
-          point.iri,
-          namespace
-      );
-      await this.sparqlService.executeUpdate(deletePointQuery);
+      // Delete the point and update sequence numbers in one transaction.
+      // If the object was a polygon and now has fewer than 3 points, update the polygon property
+      const persist = () => repository.transaction(async transaction => {
+        await transaction.deletePoint(point.iri, namespace);
+        await transaction.updateSequenceNumbers(sequenceUpdates, namespace);
 
-      // Update sequence numbers
-      const updateSequenceQuery = this.pointQueryBuilder.buildUpdateSequenceNumbersQuery(
-          sequenceUpdates,
-          namespace
-      );
-      await this.sparqlService.executeUpdate(updateSequenceQuery);
+        if (needsPolygonUpdate) {
+          await transaction.updatePolygonProperty(object.iri, false, namespace);
+        }
+      });
 
-      // If the object was a polygon and now has fewer than 3 points, update the polygon property
-      if (needsPolygonUpdate) {
+      await persist();
 
-        const updatePolygonQuery = this.objectQueryBuilder.buildUpdatePolygonPropertyQuery(
-            object.iri,
-            false,
-            namespace
-        );
-        await this.sparqlService.executeUpdate(updatePolygonQuery);
+      this.historyService.record('Delete point', persist, () => repository.transaction(async transaction => {
+        await transaction.restoreSnapshot(pointSnapshot);
+        await transaction.updateSequenceNumbers(previousSequence, namespace);
 
-      }
+        if (needsPolygonUpdate) {
+          await transaction.updatePolygonProperty(object.iri, true, namespace);
+        }
+      }));
 
       // Update the diagram in the UI
 
@@ -213,6 +217,7 @@ export class PointService {
       if (diagramPointIndex >= 0) {
         currentDiagram.points.splice(diagramPointIndex, 1);
       }
+      currentDiagram.invalidateSpatialIndex();
 
       // Update the diagram in the UI
       diagramData.set(currentDiagram);
@@ -243,40 +248,33 @@ export class PointService {
       return false;
     }
 
-    // Get the diagram data
-    const currentDiagram = get(diagramData);
-    if (!currentDiagram) return false;
-
-    // Find all glued points that need to be updated
-    const allPointsToUpdate = new Set<string>(pointsAndVector.pointIris);
-
-    // For each selected point, add its glued points
-    pointsAndVector.pointIris.forEach(pointIri => {
-      const gluedPoints = currentDiagram.getGluedPoints(pointIri);
-      gluedPoints.forEach(gluedPointIri => {
-        allPointsToUpdate.add(gluedPointIri);
-      });
-    });
-
-    // Create the updated movement data
-    const updatedPointsAndVector: MovePointsByDeltaData = {
-      pointIris: Array.from(allPointsToUpdate),
-      deltaVector: pointsAndVector.deltaVector
-    };
-
     setLoading(true);
     updateStatus('Updating point positions...');
 
     try {
-      // Get current namespace
-      const namespace = get(cimNamespace);
-      // Build update query
-      const query = this.pointQueryBuilder.buildUpdateDiagramPointPositionsByVectorQuery(updatedPointsAndVector, namespace);
-
-      // Execute update
-      await this.sparqlService.executeUpdate(query);
+      // The points are already moved locally, glued points are among them in rubber-band mode
+      const { dx, dy } = pointsAndVector.deltaVector;
+      const pointsByIri = new Map((get(diagramData)?.points ?? []).map(point => [point.iri, point]));
+      const pointIris = pointsAndVector.pointIris.filter(iri => pointsByIri.has(iri));
+      const positions = pointIris.map(iri => ({ x: pointsByIri.get(iri)!.x, y: pointsByIri.get(iri)!.y }));
+      const loadedPositions = positions.map(position => ({ x: position.x - dx, y: position.y - dy }));
+
+      const writtenIris = await this.conflictService.writePointPositions(pointIris, positions, loadedPositions);
+      if (!writtenIris) return false;
+      if (writtenIris.length === 0) return true;
+
+      const written = new Set(writtenIris);
+      const indices = pointIris.flatMap((iri, index) => written.has(iri) ? [index] : []);
+      const newPositions = indices.map(index => positions[index]);
+      const oldPositions = indices.map(index => loadedPositions[index]);
+
+      this.historyService.record(
+          `Move ${writtenIris.length} points`,
+          () => this.replayPointPositions(writtenIris, newPositions, oldPositions),
+          () => this.replayPointPositions(writtenIris, oldPositions, newPositions)
+      );
 
-      updateStatus(`Updated ${updatedPointsAndVector.pointIris.length} points`);
+      updateStatus(`Updated ${writtenIris.length} points`);
       return true;
     } catch (error) {
       console.error('Error updating point positions:', error);
@@ -293,7 +291,8 @@ export class PointService {
    * Update point positions with absolute coordinates
    */
   async updatePointPositionsAbsolute(
-      updateData: { points: string[], newPositions: Point2D[] }
+      updateData: { points: string[], newPositions: Point2D[], oldPositions: Point2D[] },
+      historyLabel: string = 'Move points'
   ): Promise<boolean> {
     if (updateData.points.length === 0 || updateData.points.length !== updateData.newPositions.length) {
       return false;
@@ -303,19 +302,27 @@ export class PointService {
     updateStatus('Updating point positions...');
 
     try {
-      // Get current namespace
-      const namespace = get(cimNamespace);
-
-      const query = this.pointQueryBuilder.buildUpdateDiagramPointPositionsQuery(
+      // Execute update, unless someone else moved the points in the meantime
+      const writtenIris = await this.conflictService.writePointPositions(
           updateData.points,
           updateData.newPositions,
-          namespace
+          updateData.oldPositions
+      );
+      if (!writtenIris) return false;
+      if (writtenIris.length === 0) return true;
+
+      const written = new Set(writtenIris);
+      const indices = updateData.points.flatMap((iri, index) => written.has(iri) ? [index] : []);
+      const newPositions = indices.map(index => updateData.newPositions[index]);
+      const oldPositions = indices.map(index => updateData.oldPositions[index]);
+
+      this.historyService.record(
+          historyLabel,
+          () => this.replayPointPositions(writtenIris, newPositions, oldPositions),
+          () => this.replayPointPositions(writtenIris, oldPositions, newPositions)
       );
 
-      // Execute update
-      await this.sparqlService.executeUpdate(query);
-
-      updateStatus(`Updated ${updateData.points.length} points`);
+      updateStatus(`Updated ${writtenIris.length} points`);
       return true;
     } catch (error) {
       console.error('Error updating point positions:', error);
@@ -328,8 +335,84 @@ export class PointService {
     }
   }
 
+  /**
+   * Move points again for undo or redo, unless someone else moved them since
+   *
+   * @throws Error if the user chose to reload instead of replaying the move
+   */
+  private async replayPointPositions(pointIris: string[], positions: Point2D[], expectedPositions: Point2D[]): Promise<void> {
+    const writtenIris = await this.conflictService.writePointPositions(pointIris, positions, expectedPositions);
+    if (!writtenIris) {
+      throw new Error('The points were changed by someone else');
+    }
+  }
+
   // ========== TRANSFORMATION OPERATIONS ==========
 
+  /**
+   * Update attributes of one or more points
+   *
+   * @param points - Points to update
+   * @param attributes - New values, omitted attributes are left unchanged
+   * @returns True if successful
+   */
+  async updatePointAttributes(points: PointModel[], attributes: PointAttributes): Promise<boolean> {
+    if (points.length === 0 || attributes.zPosition === undefined) return false;
+
+    const currentDiagram = get(diagramData);
+    if (!currentDiagram) return false;
+
+    const zPosition = attributes.zPosition;
+    const previousPositions = points.map(point => point.zPosition);
+
+    try {
+      setLoading(true);
+      updateStatus(`Updating ${points.length} point(s)...`);
+
+      // Update points locally
+      points.forEach(point => point.zPosition = zPosition);
+      diagramData.set(currentDiagram);
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+      const pointIris = points.map(point => point.iri);
+
+      // Persist changes to the database
+      await repository.updatePointAttributes(pointIris, attributes, namespace);
+
+      // Points with the same previous z position are restored together
+      const restoreGroups = new Map<number | null, string[]>();
+      points.forEach((point, index) => {
+        const previous = previousPositions[index];
+        restoreGroups.set(previous, [...(restoreGroups.get(previous) || []), point.iri]);
+      });
+
+      this.historyService.record(
+          points.length === 1 ? 'Edit point attributes' : `Edit attributes of ${points.length} points`,
+          () => repository.updatePointAttributes(pointIris, attributes, namespace),
+          () => repository.transaction(async transaction => {
+            for (const [previous, iris] of restoreGroups) {
+              await transaction.updatePointAttributes(iris, { zPosition: previous }, namespace);
+            }
+          })
+      );
+
+      updateStatus('Points updated successfully');
+      return true;
+    } catch (error) {
+      console.error('Error updating point attributes:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      // Revert the change in the UI
+      points.forEach((point, index) => point.zPosition = previousPositions[index]);
+      diagramData.set(currentDiagram);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
   /**
    * Validate selected points for transformation operations
    */
@@ -459,16 +542,19 @@ export class PointService {
     });
 
     // Update the diagram
-    diagramData.set(get(diagramData));
+    const diagram = get(diagramData);
+    diagram?.updateSpatialIndex(pointsToUpdate.map(({ point }) => point));
+    diagramData.set(diagram);
   }
 
   /**
-   * Prepare position update data for SPARQL
+   * Prepare position update data for the repository
    */
   private preparePositionUpdateData(pointsToUpdate: { point: PointModel; newX: number; newY: number }[]) {
     return {
       points: pointsToUpdate.map(({ point }) => point.iri),
-      newPositions: pointsToUpdate.map(({ newX, newY }) => ({ x: newX, y: newY }))
+      newPositions: pointsToUpdate.map(({ newX, newY }) => ({ x: newX, y: newY })),
+      oldPositions: pointsToUpdate.map(({ point }) => ({ x: point.x, y: point.y }))
     };
   }
 
@@ -495,7 +581,8 @@ export class PointService {
 
     // Calculate rotation center based on selected points only
     const center = this.calculatePointsCenter(selectedPoints);
-    const { sin, cos } = this.getRotationTrigValues(degrees);
+    // Keep the rotation clockwise on screen when the Y axis points up
+    const { sin, cos } = this.getRotationTrigValues(get(viewTransform).flipY ? -degrees : degrees);
 
     // Start operation
     setLoading(true);
@@ -505,14 +592,18 @@ export class PointService {
       // Calculate new positions for selected points only
       const pointsToRotate = this.calculateRotatedPositionsForPoints(selectedPoints, center, sin, cos);
 
+      // Prepare data for the repository update before the local model changes
+      const updateData = this.preparePositionUpdateData(pointsToRotate);
+
       // Update local model first
       this.updateLocalPointPositions(pointsToRotate);
 
-      // Prepare data for SPARQL update
-      const updateData = this.preparePositionUpdateData(pointsToRotate);
-
-      // Send update to server
-      await this.updatePointPositionsAbsolute(updateData);
+      // Send update to server, the status already tells if it was not stored
+      const updated = await this.updatePointPositionsAbsolute(
+          updateData,
+          `Rotate ${selectedPoints.length} points by ${degrees}°`
+      );
+      if (!updated) return false;
 
       updateStatus(`Rotated ${selectedPoints.length} points by ${degrees} degrees`);
       return true;
@@ -546,14 +637,18 @@ export class PointService {
       // Calculate new positions for selected points only
       const pointsToMirror = this.calculateHorizontallyMirroredPositionsForPoints(selectedPoints, center);
 
+      // Prepare data for the repository update before the local model changes
+      const updateData = this.preparePositionUpdateData(pointsToMirror);
+
       // Update local model first
       this.updateLocalPointPositions(pointsToMirror);
 
-      // Prepare data for SPARQL update
-      const updateData = this.preparePositionUpdateData(pointsToMirror);
-
-      // Send update to server
-      await this.updatePointPositionsAbsolute(updateData);
+      // Send update to server, the status already tells if it was not stored
+      const updated = await this.updatePointPositionsAbsolute(
+          updateData,
+          `Mirror ${selectedPoints.length} points horizontally`
+      );
+      if (!updated) return false;
 
       updateStatus(`Mirrored ${selectedPoints.length} points horizontally`);
       return true;
@@ -587,14 +682,18 @@ export class PointService {
       // Calculate new positions for selected points only
       const pointsToMirror = this.calculateVerticallyMirroredPositionsForPoints(selectedPoints, center);
 
+      // Prepare data for the repository update before the local model changes
+      const updateData = this.preparePositionUpdateData(pointsToMirror);
+
       // Update local model first
       this.updateLocalPointPositions(pointsToMirror);
 
-      // Prepare data for SPARQL update
-      const updateData = this.preparePositionUpdateData(pointsToMirror);
-
-      // Send update to server
-      await this.updatePointPositionsAbsolute(updateData);
+      // Send update to server, the status already tells if it was not stored
+      const updated = await this.updatePointPositionsAbsolute(
+          updateData,
+          `Mirror ${selectedPoints.length} points vertically`
+      );
+      if (!updated) return false;
 
       updateStatus(`Mirrored ${selectedPoints.length} points vertically`);
       return true;
@@ -0,0 +1,305 @@
+import { get } from 'svelte/store';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type { Bounds, PrintSettings, ViewTransform } from '@/core/models/types';
+import { PaperOrientation, TitleBlockField } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { getYDirection } from '@/utils/geometry';
+import { PdfDocument, measurePdfText } from '@/utils/pdf';
+import type { PdfContext } from '@/utils/pdf';
+import { downloadFile } from '@/utils/download';
+
+// Import state from feature modules
+import { diagramData, diagramList, selectedDiagram, cgmesVersion } from '../diagram/DiagramState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import { viewTransform } from '../canvas/CanvasState';
+import { canvasService } from '../canvas/CanvasService';
+
+// Points per millimetre and per pixel at 96 DPI
+const POINTS_PER_MM = 72 / 25.4;
+const POINTS_PER_PIXEL = 72 / 96;
+
+const titleBlockLabels: Record<TitleBlockField, string> = {
+  [TitleBlockField.DIAGRAM_NAME]: 'Diagram',
+  [TitleBlockField.CGMES_VERSION]: 'CGMES version',
+  [TitleBlockField.ENDPOINT]: 'Endpoint',
+  [TitleBlockField.DATE]: 'Date',
+  [TitleBlockField.AUTHOR]: 'Author'
+};
+
+/**
+ * Placement of the drawing on the sheets, lengths in points
+ */
+interface SheetLayout {
+  sheetWidth: number;
+  sheetHeight: number;
+  frame: Bounds;            // Drawing area of each sheet
+  overlap: number;          // Part of the frame repeated on the neighbouring sheet
+  viewTransform: ViewTransform; // Maps world coordinates to pixels of all sheets put together
+}
+
+export class PrintService {
+  constructor(
+      private repositoryManager: RepositoryManager
+  ) {}
+
+  /**
+   * Lay out the current diagram on sheets and download them as a PDF document
+   *
+   * The diagram is scaled to fit the columns and rows of sheets. Neighbouring
+   * sheets repeat a strip of the diagram, marked with dashed lines, so that
+   * printed sheets can be aligned. Each sheet has a title block if any of
+   * its fields is chosen.
+   *
+   * @param settings - Paper, tiling and title block settings
+   * @returns True if the document was downloaded
+   */
+  async printDiagram(settings: PrintSettings): Promise<boolean> {
+    const diagram = get(diagramData);
+    if (!diagram) return false;
+
+    const points = diagram.points;
+    if (points.length === 0) {
+      updateStatus('Nothing to print');
+      return false;
+    }
+
+    try {
+      setLoading(true);
+      updateStatus('Laying out sheets...');
+
+      // Symbols extend half their size around their point
+      const half = AppConfig.canvas.symbolSize / 2;
+      const bounds: Bounds = {
+        minX: Math.min(...points.map(point => point.x)) - half,
+        minY: Math.min(...points.map(point => point.y)) - half,
+        maxX: Math.max(...points.map(point => point.x)) + half,
+        maxY: Math.max(...points.map(point => point.y)) + half
+      };
+
+      const layout = this.computeLayout(bounds, settings);
+      const diagramName = get(diagramList).find(entry => entry.iri === get(selectedDiagram))?.name || 'Diagram';
+      const titleValues: Record<TitleBlockField, string> = {
+        [TitleBlockField.DIAGRAM_NAME]: diagramName,
+        [TitleBlockField.CGMES_VERSION]: get(cgmesVersion),
+        [TitleBlockField.ENDPOINT]: this.repositoryManager.location,
+        [TitleBlockField.DATE]: new Date().toISOString().slice(0, 10),
+        [TitleBlockField.AUTHOR]: settings.author
+      };
+
+      const pdf = new PdfDocument({ title: diagramName, author: settings.author || undefined });
+      const sheetCount = settings.rows * settings.columns;
+
+      for (let row = 0; row < settings.rows; row++) {
+        for (let column = 0; column < settings.columns; column++) {
+          const ctx = pdf.addPage(layout.sheetWidth, layout.sheetHeight);
+
+          this.renderTile(ctx, layout, row, column);
+          this.renderOverlapMarks(ctx, layout, settings, row, column);
+
+          if (settings.titleBlockFields.length > 0) {
+            const sheetNumber = row * settings.columns + column + 1;
+            this.renderTitleBlock(ctx, layout, settings.titleBlockFields.map(field => [titleBlockLabels[field], titleValues[field]]),
+                `${this.getSheetName(row, column)} (${sheetNumber} of ${sheetCount})`);
+          }
+        }
+      }
+
+      downloadFile(pdf.toBlob(), `${diagramName.replace(/[^\w.-]+/g, '_')}.pdf`, 'application/pdf');
+
+      updateStatus(`Print layout with ${sheetCount} sheet(s) exported`);
+      return true;
+    } catch (error) {
+      console.error('Error printing diagram:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Compute the sheet size, the drawing frame and the scale fitting the diagram on all sheets
+   */
+  private computeLayout(bounds: Bounds, settings: PrintSettings): SheetLayout {
+    const [portraitWidth, portraitHeight] = AppConfig.print.paperSizes[settings.paperSize];
+    const landscape = settings.orientation === PaperOrientation.LANDSCAPE;
+    const sheetWidth = (landscape ? portraitHeight : portraitWidth) * POINTS_PER_MM;
+    const sheetHeight = (landscape ? portraitWidth : portraitHeight) * POINTS_PER_MM;
+
+    // The title block takes a strip below the frame, leaving room for the marks of the sheet below
+    const margin = AppConfig.print.margin * POINTS_PER_MM;
+    const titleBlockHeight = settings.titleBlockFields.length > 0
+      ? ((settings.titleBlockFields.length + 1) * AppConfig.print.titleBlock.rowHeight + AppConfig.print.margin / 2) * POINTS_PER_MM
+      : 0;
+    const frame: Bounds = {
+      minX: margin,
+      minY: margin,
+      maxX: sheetWidth - margin,
+      maxY: sheetHeight - margin - titleBlockHeight
+    };
+
+    const frameWidth = frame.maxX - frame.minX;
+    const frameHeight = frame.maxY - frame.minY;
+    const overlap = Math.min(AppConfig.print.overlap * POINTS_PER_MM, frameWidth / 4, frameHeight / 4);
+
+    // Fit the diagram into all sheets put together and centre it there
+    const totalWidth = settings.columns * frameWidth - (settings.columns - 1) * overlap;
+    const totalHeight = settings.rows * frameHeight - (settings.rows - 1) * overlap;
+    const width = Math.max(bounds.maxX - bounds.minX, 1e-6);
+    const height = Math.max(bounds.maxY - bounds.minY, 1e-6);
+    const scale = Math.min(totalWidth / width, totalHeight / height);
+    const paddingX = (totalWidth - width * scale) / 2;
+    const paddingY = (totalHeight - height * scale) / 2;
+
+    const flipY = get(viewTransform).flipY;
+    return {
+      sheetWidth,
+      sheetHeight,
+      frame,
+      overlap,
+      viewTransform: {
+        scale: scale / POINTS_PER_PIXEL,
+        offsetX: (paddingX - bounds.minX * scale) / POINTS_PER_PIXEL,
+        offsetY: (flipY ? paddingY + bounds.maxY * scale : paddingY - bounds.minY * scale) / POINTS_PER_PIXEL,
+        flipY
+      }
+    };
+  }
+
+  /**
+   * Render the part of the diagram shown on one sheet, clipped to the frame
+   */
+  private renderTile(ctx: PdfContext, layout: SheetLayout, row: number, column: number): void {
+    const { frame, overlap, viewTransform: view } = layout;
+    const frameWidth = frame.maxX - frame.minX;
+    const frameHeight = frame.maxY - frame.minY;
+
+    ctx.save();
+    ctx.clipRect(frame.minX, frame.minY, frameWidth, frameHeight);
+    ctx.translate(frame.minX - column * (frameWidth - overlap), frame.minY - row * (frameHeight - overlap));
+    ctx.scale(POINTS_PER_PIXEL, POINTS_PER_PIXEL);
+    ctx.translate(view.offsetX, view.offsetY);
+    ctx.scale(view.scale, view.scale * getYDirection(view));
+
+    const diagram = get(diagramData);
+    if (diagram) {
+      canvasService.renderObjects(ctx, diagram.objects, view, new Set(), false);
+    }
+    ctx.restore();
+
+    ctx.save();
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 0.5;
+    ctx.strokeRect(frame.minX, frame.minY, frameWidth, frameHeight);
+    ctx.restore();
+  }
+
+  /**
+   * Mark the strips shared with neighbouring sheets and name those sheets in the margin
+   */
+  private renderOverlapMarks(ctx: PdfContext, layout: SheetLayout, settings: PrintSettings, row: number, column: number): void {
+    const { frame, overlap } = layout;
+    const labelGap = AppConfig.print.margin / 4 * POINTS_PER_MM;
+    const centerX = (frame.minX + frame.maxX) / 2;
+    const centerY = (frame.minY + frame.maxY) / 2;
+
+    ctx.save();
+    ctx.strokeStyle = 'gray';
+    ctx.fillStyle = 'gray';
+    ctx.lineWidth = 0.5;
+    ctx.setLineDash([4, 3]);
+    ctx.font = `${AppConfig.print.titleBlock.fontSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const neighbours: Array<[boolean, number, number, number, number, number, number, string]> = [
+      // Shown, dashed line from (x1, y1) to (x2, y2), label position, neighbouring sheet
+      [column > 0, frame.minX + overlap, frame.minY, frame.minX + overlap, frame.maxY,
+        frame.minX - labelGap, centerY, this.getSheetName(row, column - 1)],
+      [column < settings.columns - 1, frame.maxX - overlap, frame.minY, frame.maxX - overlap, frame.maxY,
+        frame.maxX + labelGap, centerY, this.getSheetName(row, column + 1)],
+      [row > 0, frame.minX, frame.minY + overlap, frame.maxX, frame.minY + overlap,
+        centerX, frame.minY - labelGap, this.getSheetName(row - 1, column)],
+      [row < settings.rows - 1, frame.minX, frame.maxY - overlap, frame.maxX, frame.maxY - overlap,
+        centerX, frame.maxY + labelGap, this.getSheetName(row + 1, column)]
+    ];
+
+    neighbours.forEach(([shown, x1, y1, x2, y2, labelX, labelY, name]) => {
+      if (!shown) return;
+
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+      ctx.fillText(name, labelX, labelY);
+    });
+
+    ctx.restore();
+  }
+
+  /**
+   * Render the title block in the lower right corner of a sheet
+   *
+   * @param ctx - Context of the sheet
+   * @param layout - Sheet layout
+   * @param entries - Labels and values of the chosen fields
+   * @param sheet - Name and number of the sheet
+   */
+  private renderTitleBlock(ctx: PdfContext, layout: SheetLayout, entries: Array<[string, string]>, sheet: string): void {
+    const { titleBlock } = AppConfig.print;
+    const rows = [...entries, ['Sheet', sheet]];
+    const margin = AppConfig.print.margin * POINTS_PER_MM;
+    const width = titleBlock.width * POINTS_PER_MM;
+    const rowHeight = titleBlock.rowHeight * POINTS_PER_MM;
+    const left = layout.sheetWidth - margin - width;
+    const top = layout.sheetHeight - margin - rows.length * rowHeight;
+    const labelWidth = width * 0.3;
+    const padding = 1.5 * POINTS_PER_MM;
+
+    ctx.save();
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 0.5;
+    ctx.strokeRect(left, top, width, rows.length * rowHeight);
+
+    ctx.beginPath();
+    ctx.moveTo(left + labelWidth, top);
+    ctx.lineTo(left + labelWidth, top + rows.length * rowHeight);
+    rows.slice(1).forEach((_, index) => {
+      ctx.moveTo(left, top + (index + 1) * rowHeight);
+      ctx.lineTo(left + width, top + (index + 1) * rowHeight);
+    });
+    ctx.stroke();
+
+    ctx.font = `${titleBlock.fontSize}px Arial`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    rows.forEach(([label, value], index) => {
+      const y = top + (index + 0.5) * rowHeight;
+      ctx.fillStyle = 'gray';
+      ctx.fillText(label, left + padding, y);
+      ctx.fillStyle = 'black';
+      ctx.fillText(this.fitText(value, width - labelWidth - padding * 2, titleBlock.fontSize), left + labelWidth + padding, y);
+    });
+    ctx.restore();
+  }
+
+  /**
+   * Shorten text with an ellipsis until it fits a width
+   */
+  private fitText(text: string, width: number, fontSize: number): string {
+    if (measurePdfText(text, fontSize) <= width) return text;
+
+    let shortened = text;
+    while (shortened.length > 0 && measurePdfText(`${shortened}...`, fontSize) > width) {
+      shortened = shortened.slice(0, -1);
+    }
+    return `${shortened}...`;
+  }
+
+  /**
+   * Name of a sheet, its row as a letter and its column as a number, e.g. B3
+   */
+  private getSheetName(row: number, column: number): string {
+    return `${String.fromCharCode(65 + row)}${column + 1}`;
+  }
+}
@@ -0,0 +1,32 @@
+import { writable } from 'svelte/store';
+import type { PrintSettings } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+
+// Print state
+export const printSettings = writable<PrintSettings>(loadPrintSettings());
+
+// Keep the last used settings, including the author, across sessions
+printSettings.subscribe(settings => {
+  try {
+    localStorage.setItem(AppConfig.print.storageKey, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not store print settings:', error);
+  }
+});
+
+/**
+ * Read the stored settings, falling back to the configured defaults
+ */
+function loadPrintSettings(): PrintSettings {
+  try {
+    const stored = localStorage.getItem(AppConfig.print.storageKey);
+    if (stored) {
+      return { ...AppConfig.print.defaults, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Could not read stored print settings:', error);
+  }
+
+  return { ...AppConfig.print.defaults };
+}
+
@@ -0,0 +1,266 @@
+import { get } from 'svelte/store';
+import { v4 as uuidv4 } from 'uuid';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type {
+  NewPointData,
+  RepositorySnapshot,
+  SequenceNumberData
+} from '@/services/repositories/DiagramRepository';
+import type { Bounds, Point2D } from '@/core/models/types';
+import type { DiagramModel } from '@/core/models/DiagramModel';
+import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import { AppConfig } from '@/core/config/AppConfig';
+import { routeOrthogonal } from '@/utils/routing';
+import { hasEquipmentSymbol } from '@/utils/canvas';
+
+// Import state from feature modules
+import { diagramData, cimNamespace } from '../diagram/DiagramState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import { selectedObjects } from '../inspector/InspectorState';
+import type { DiagramService } from '../diagram/DiagramService';
+import type { HistoryService } from '../history/HistoryService';
+
+export class RoutingService {
+  constructor(
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService,
+      private historyService: HistoryService
+  ) {}
+
+  /**
+   * Route the selected line objects
+   *
+   * @returns True if at least one line was routed
+   */
+  async routeSelectedLines(): Promise<boolean> {
+    const lines = get(selectedObjects).filter(object => this.isLine(object));
+
+    if (lines.length === 0) {
+      updateStatus('Select points of line objects to route them');
+      return false;
+    }
+
+    return await this.routeLines(lines.map(line => line.iri));
+  }
+
+  /**
+   * Route the lines with an end among moved points or glued to them
+   *
+   * Lines that were moved as a whole keep their shape.
+   *
+   * @param pointIris - Moved points
+   * @returns True if at least one line was routed
+   */
+  async routeLinesAttachedTo(pointIris: string[]): Promise<boolean> {
+    // Route from the stored positions of the moved points
+    const diagram = await this.diagramService.reloadDiagram();
+
+    // Glued points are among the moved points when they were dragged along
+    const movedPoints = new Set<string>(pointIris);
+
+    const lineIris = diagram.objects
+      .filter(object => this.isLine(object))
+      .filter(object => {
+        const ends = [object.points[0], object.points[object.points.length - 1]];
+        return ends.some(point => movedPoints.has(point.iri)) &&
+          !object.points.every(point => movedPoints.has(point.iri));
+      })
+      .map(object => object.iri);
+
+    if (lineIris.length === 0) return false;
+
+    return await this.routeLines(lineIris);
+  }
+
+  /**
+   * Replace the intermediate points of lines with an orthogonal route between their ends
+   *
+   * Existing points are reused for the bends, missing points are inserted
+   * and points no longer needed are deleted.
+   *
+   * @param lineIris - Line objects to route
+   * @returns True if at least one line was routed
+   */
+  private async routeLines(lineIris: string[]): Promise<boolean> {
+    const diagram = get(diagramData);
+    if (!diagram) return false;
+
+    const obstacles = this.collectObstacles(diagram);
+
+    const movedPointIris: string[] = [];
+    const oldPositions: Point2D[] = [];
+    const newPositions: Point2D[] = [];
+    const insertedPoints: NewPointData[] = [];
+    const deletedPointIris: string[] = [];
+    const oldSequence: SequenceNumberData[] = [];
+    const newSequence: SequenceNumberData[] = [];
+    let routedCount = 0;
+    let failedCount = 0;
+
+    lineIris.forEach(lineIri => {
+      const line = diagram.objects.find(object => object.iri === lineIri);
+      if (!line || !this.isLine(line)) return;
+
+      const first = line.points[0];
+      const last = line.points[line.points.length - 1];
+
+      // The line may cross the objects glued to its ends
+      const attachedObjects = new Set<string>([line.iri]);
+      [first, last].forEach(point => {
+        diagram.getGluedPoints(point.iri).forEach(gluedPointIri => {
+          const gluedPoint = diagram.points.find(candidate => candidate.iri === gluedPointIri);
+          if (gluedPoint) {
+            attachedObjects.add(gluedPoint.parentObject.iri);
+          }
+        });
+      });
+
+      const route = routeOrthogonal(
+          first,
+          last,
+          Array.from(obstacles)
+            .filter(([objectIri]) => !attachedObjects.has(objectIri))
+            .map(([, bounds]) => bounds),
+          { margin: AppConfig.routing.margin, bendPenalty: AppConfig.routing.bendPenalty }
+      );
+
+      if (!route || route.length < 2) {
+        failedCount++;
+        return;
+      }
+
+      const bends = route.slice(1, -1);
+      const middle = line.points.slice(1, -1);
+
+      const unchanged = bends.length === middle.length &&
+        bends.every((bend, index) => bend.x === middle[index].x && bend.y === middle[index].y);
+      if (unchanged) return;
+
+      routedCount++;
+      const firstSequenceNumber = first.sequenceNumber;
+      const routeIris = [first.iri];
+
+      bends.forEach((bend, index) => {
+        if (index < middle.length) {
+          movedPointIris.push(middle[index].iri);
+          oldPositions.push({ x: middle[index].x, y: middle[index].y });
+          newPositions.push(bend);
+          routeIris.push(middle[index].iri);
+        } else {
+          const pointIri = `urn:uuid:${uuidv4()}`;
+          insertedPoints.push({
+            iri: pointIri,
+            objectIri: line.iri,
+            x: bend.x,
+            y: bend.y,
+            sequenceNumber: firstSequenceNumber + index + 1
+          });
+          routeIris.push(pointIri);
+        }
+      });
+
+      middle.slice(bends.length).forEach(point => deletedPointIris.push(point.iri));
+      routeIris.push(last.iri);
+
+      line.points.forEach(point => oldSequence.push({ iri: point.iri, sequenceNumber: point.sequenceNumber }));
+      routeIris.forEach((pointIri, index) => newSequence.push({ iri: pointIri, sequenceNumber: firstSequenceNumber + index }));
+    });
+
+    if (routedCount === 0) {
+      updateStatus(failedCount > 0 ? `No route found for ${failedCount} line(s)` : 'Lines are already routed');
+      return false;
+    }
+
+    try {
+      setLoading(true);
+      updateStatus(`Routing ${routedCount} line(s)...`);
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      // Capture the points to be deleted for undo
+      const snapshots: RepositorySnapshot[] = [];
+      for (const pointIri of deletedPointIris) {
+        snapshots.push(await repository.snapshotPoint(pointIri, namespace));
+      }
+
+      const persist = () => repository.transaction(async transaction => {
+        if (movedPointIris.length > 0) {
+          await transaction.updatePointPositions(movedPointIris, newPositions, namespace);
+        }
+        for (const point of insertedPoints) {
+          await transaction.insertPoint(point, namespace);
+        }
+        for (const pointIri of deletedPointIris) {
+          await transaction.deletePoint(pointIri, namespace);
+        }
+        await transaction.updateSequenceNumbers(newSequence, namespace);
+      });
+
+      await persist();
+
+      this.historyService.record(`Route ${routedCount} line(s)`, persist, () => repository.transaction(async transaction => {
+        for (const point of insertedPoints) {
+          await transaction.deletePoint(point.iri, namespace);
+        }
+        for (const snapshot of snapshots) {
+          await transaction.restoreSnapshot(snapshot);
+        }
+        if (movedPointIris.length > 0) {
+          await transaction.updatePointPositions(movedPointIris, oldPositions, namespace);
+        }
+        await transaction.updateSequenceNumbers(oldSequence, namespace);
+      }));
+
+      await this.diagramService.reloadDiagram();
+
+      updateStatus(`Routed ${routedCount} line(s)${failedCount > 0 ? `, no route found for ${failedCount}` : ''}`);
+      return true;
+    } catch (error) {
+      console.error('Error routing lines:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      await this.diagramService.reloadDiagram();
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Whether an object is an open line that can be routed
+   */
+  private isLine(object: DiagramObjectModel): boolean {
+    return !object.isPolygon && !object.isText && object.points.length >= 2;
+  }
+
+  /**
+   * Bounding boxes of equipment symbols and polygons, by object IRI
+   */
+  private collectObstacles(diagram: DiagramModel): Map<string, Bounds> {
+    const obstacles = new Map<string, Bounds>();
+    const half = AppConfig.canvas.symbolSize / 2;
+
+    diagram.objects.forEach(object => {
+      if (object.points.length === 1 && hasEquipmentSymbol(object.getEquipmentClass())) {
+        const point = object.points[0];
+        obstacles.set(object.iri, {
+          minX: point.x - half,
+          minY: point.y - half,
+          maxX: point.x + half,
+          maxY: point.y + half
+        });
+      } else if (object.isPolygon && object.points.length >= 3) {
+        obstacles.set(object.iri, {
+          minX: Math.min(...object.points.map(point => point.x)),
+          minY: Math.min(...object.points.map(point => point.y)),
+          maxX: Math.max(...object.points.map(point => point.x)),
+          maxY: Math.max(...object.points.map(point => point.y))
+        });
+      }
+    });
+
+    return obstacles;
+  }
+}
@@ -0,0 +1,5 @@
+import { writable } from 'svelte/store';
+import { AppConfig } from '@/core/config/AppConfig';
+
+// Whether lines attached to moved points are routed again automatically
+export const autoRouteEnabled = writable<boolean>(AppConfig.routing.autoRoute);
@@ -1,7 +1,7 @@
 import { get } from 'svelte/store';
 import type { PointModel } from '@/core/models/PointModel';
-import { SparqlService } from '@/services/SparqlService';
-import { TooltipQueryBuilder } from '@/queries/TooltipQueryBuilder';
+import type { IdentifiedObjectData } from '@/core/models/types';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
 
 // Import state from feature modules
 import { cimNamespace } from '../diagram/DiagramState';
@@ -16,6 +16,7 @@ export interface DiagramObjectDetails {
     iri: string;
     name: string;
   } | null;
+  equipment: IdentifiedObjectData | null;
 }
 
 export interface PointDetails {
@@ -34,8 +35,7 @@ export interface PointDetailsResponse {
 
 export class TooltipService {
   constructor(
-    private sparqlService: SparqlService,
-    private tooltipQueryBuilder: TooltipQueryBuilder
+    private repositoryManager: RepositoryManager
   ) {}
   
   /**
@@ -48,34 +48,31 @@ export class TooltipService {
       // Get current namespace
       const namespace = get(cimNamespace);
       
-      // Build query to fetch detailed information for this specific point
-      const query = this.tooltipQueryBuilder.buildPointDetailsQuery(point.iri, namespace);
-      
-      // Execute the query
-      const result = await this.sparqlService.executeQuery(query);
+      // Fetch detailed information for this specific point
+      const details = await this.repositoryManager.current.loadPointDetails(point.iri, namespace);
       
       // Process the result
-      if (result.results.bindings.length > 0) {
-        const binding = result.results.bindings[0];
+      if (details) {
         return {
           diagramObject: {
-            iri: binding.diagramObject?.value || '',
-            name: binding.objectName?.value || 'Unknown',
-            rotation: binding.rotation?.value !== undefined ? parseFloat(binding.rotation.value) : null,
-            offsetX: binding.offsetX?.value !== undefined ? parseFloat(binding.offsetX.value) : null,
-            offsetY: binding.offsetY?.value !== undefined ? parseFloat(binding.offsetY.value) : null,
-            style: binding.style ? {
-              iri: binding.style.value || '',
-              name: binding.styleName?.value || 'Unknown'
-            } : null
+            iri: details.diagramObjectIri,
+            name: details.objectName || 'Unknown',
+            rotation: details.rotation ?? null,
+            offsetX: details.offsetX ?? null,
+            offsetY: details.offsetY ?? null,
+            style: details.styleIri ? {
+              iri: details.styleIri,
+              name: details.styleName || 'Unknown'
+            } : null,
+            equipment: point.parentObject?.identifiedObject ?? null
           },
           point: {
             iri: point.iri,
-            name: binding.pointName?.value || 'Unknown',
+            name: details.pointName || 'Unknown',
             sequenceNumber: point.sequenceNumber,
             x: point.x,
             y: point.y,
-            z: binding.zPosition?.value !== undefined ? parseFloat(binding.zPosition.value) : null
+            z: details.zPosition ?? null
           }
         };
       }
@@ -88,7 +85,8 @@ export class TooltipService {
           rotation: null,
           offsetX: null,
           offsetY: null,
-          style: null
+          style: null,
+          equipment: point.parentObject?.identifiedObject ?? null
         },
         point: {
           iri: point.iri,
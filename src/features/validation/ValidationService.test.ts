@@ -0,0 +1,165 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { DiagramModel } from '@/core/models/DiagramModel';
+import { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import { PointModel } from '@/core/models/PointModel';
+import { RepositoryType, ValidationRule } from '@/core/models/types';
+import type { ValidationIssue } from '@/core/models/types';
+import type { DiagramRepository } from '@/services/repositories/DiagramRepository';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type { DiagramService } from '../diagram/DiagramService';
+import type { HistoryService } from '../history/HistoryService';
+import { cimNamespace, diagramData, selectedDiagram } from '../diagram/DiagramState';
+import { statusText } from '../ui/UIState';
+import { validationReport } from './ValidationState';
+import { ValidationService } from './ValidationService';
+
+const namespace = get(cimNamespace);
+
+function createRepository() {
+  return {
+    listObjectsWithoutPoints: vi.fn(async () => []),
+    updateSequenceNumbers: vi.fn(async () => {}),
+    updatePolygonProperty: vi.fn(async () => {}),
+    removeGluePoint: vi.fn(async () => {}),
+    createGluePoint: vi.fn(async () => {}),
+    snapshotObjects: vi.fn(async () => ({ type: RepositoryType.SPARQL, data: 'snapshot' })),
+    deleteObjects: vi.fn(async () => {}),
+    restoreSnapshot: vi.fn(async () => {})
+  };
+}
+
+describe('ValidationService quick fixes', () => {
+  let repository: ReturnType<typeof createRepository>;
+  let record: ReturnType<typeof vi.fn>;
+  let reloadDiagram: ReturnType<typeof vi.fn>;
+  let service: ValidationService;
+  let diagram: DiagramModel;
+
+  /**
+   * Replay the recorded history entry, reverting first
+   */
+  async function undoAndRedo(): Promise<void> {
+    const [, apply, revert] = record.mock.calls[0];
+    await revert();
+    await apply();
+  }
+
+  beforeEach(() => {
+    repository = createRepository();
+    record = vi.fn();
+    reloadDiagram = vi.fn(async () => {});
+    service = new ValidationService(
+        { current: repository as unknown as DiagramRepository } as RepositoryManager,
+        { reloadDiagram } as unknown as DiagramService,
+        { record } as unknown as HistoryService
+    );
+
+    diagram = new DiagramModel();
+    const line = new DiagramObjectModel('urn:line', 0, true, false, '');
+    diagram.addObject(line);
+    [[0, 0, 4], [5, 0, 4], [10, 0, 7]].forEach(([x, y, sequenceNumber], index) => {
+      const point = new PointModel(`urn:line/${index}`, x, y, sequenceNumber, line);
+      line.addPoint(point);
+      diagram.addPoint(point);
+    });
+    diagram.createGluePoint(['urn:line/0', 'urn:line/2'], 'urn:glue');
+
+    diagramData.set(diagram);
+    selectedDiagram.set('urn:diagram');
+  });
+
+  function issue(rule: ValidationRule, quickFix: string, changes: Partial<ValidationIssue> = {}): ValidationIssue {
+    return {
+      id: `${rule}:urn:line`,
+      rule,
+      severity: 'error',
+      message: '',
+      objectIris: ['urn:line'],
+      pointIris: [],
+      bounds: null,
+      quickFix,
+      ...changes
+    };
+  }
+
+  it('renumbers points in their current order from 0', async () => {
+    const applied = await service.applyQuickFix(issue(ValidationRule.SEQUENCE_NUMBERS, 'Renumber points'));
+
+    const renumbered = [
+      { iri: 'urn:line/0', sequenceNumber: 0 },
+      { iri: 'urn:line/1', sequenceNumber: 1 },
+      { iri: 'urn:line/2', sequenceNumber: 2 }
+    ];
+    expect(applied).toBe(true);
+    expect(repository.updateSequenceNumbers).toHaveBeenCalledWith(renumbered, namespace);
+
+    await undoAndRedo();
+    expect(repository.updateSequenceNumbers).toHaveBeenNthCalledWith(2, [
+      { iri: 'urn:line/0', sequenceNumber: 4 },
+      { iri: 'urn:line/1', sequenceNumber: 4 },
+      { iri: 'urn:line/2', sequenceNumber: 7 }
+    ], namespace);
+    expect(repository.updateSequenceNumbers).toHaveBeenNthCalledWith(3, renumbered, namespace);
+  });
+
+  it('turns polygons into open lines', async () => {
+    await service.applyQuickFix(issue(ValidationRule.POLYGON_POINTS, 'Make open line'));
+
+    expect(repository.updatePolygonProperty).toHaveBeenCalledWith('urn:line', false, namespace);
+
+    await undoAndRedo();
+    expect(repository.updatePolygonProperty).toHaveBeenNthCalledWith(2, 'urn:line', true, namespace);
+    expect(record.mock.calls[0][0]).toBe('Remove polygon');
+  });
+
+  it('removes glue points and restores their points on undo', async () => {
+    await service.applyQuickFix(issue(ValidationRule.GLUE_POINT_OBJECTS, 'Remove glue point', { gluePointIri: 'urn:glue' }));
+
+    expect(repository.removeGluePoint).toHaveBeenCalledWith('urn:glue', namespace);
+
+    await undoAndRedo();
+    expect(repository.createGluePoint).toHaveBeenCalledWith('urn:glue', ['urn:line/0', 'urn:line/2'], namespace);
+    expect(repository.removeGluePoint).toHaveBeenCalledTimes(2);
+  });
+
+  it('deletes objects without points from a snapshot that undo restores', async () => {
+    await service.applyQuickFix(issue(ValidationRule.OBJECT_WITHOUT_POINTS, 'Delete object', {
+      objectIris: ['urn:empty']
+    }));
+
+    expect(repository.snapshotObjects).toHaveBeenCalledWith(['urn:empty'], namespace);
+    expect(repository.deleteObjects).toHaveBeenCalledWith(['urn:empty'], namespace);
+
+    await undoAndRedo();
+    expect(repository.restoreSnapshot).toHaveBeenCalledWith({ type: RepositoryType.SPARQL, data: 'snapshot' });
+  });
+
+  it('reloads the diagram and validates it again', async () => {
+    await service.applyQuickFix(issue(ValidationRule.POLYGON_POINTS, 'Make open line'));
+
+    expect(reloadDiagram).toHaveBeenCalledTimes(1);
+    expect(repository.listObjectsWithoutPoints).toHaveBeenCalledWith('urn:diagram', namespace);
+    expect(get(validationReport)?.diagramIri).toBe('urn:diagram');
+  });
+
+  it('leaves issues without a quick fix alone', async () => {
+    const applied = await service.applyQuickFix(issue(ValidationRule.OVERLAPPING_SYMBOLS, ''));
+
+    expect(applied).toBe(false);
+    expect(record).not.toHaveBeenCalled();
+    expect(reloadDiagram).not.toHaveBeenCalled();
+  });
+
+  it('reports failed fixes and reloads the diagram', async () => {
+    repository.updatePolygonProperty.mockRejectedValueOnce(new Error('Endpoint unavailable'));
+
+    const applied = await service.applyQuickFix(issue(ValidationRule.POLYGON_POINTS, 'Make open line'));
+
+    expect(applied).toBe(false);
+    expect(record).not.toHaveBeenCalled();
+    expect(reloadDiagram).toHaveBeenCalledTimes(1);
+    expect(get(statusText)).toBe('Error: Endpoint unavailable');
+  });
+});
@@ -0,0 +1,192 @@
+import { get } from 'svelte/store';
+import type { RepositoryManager } from '@/services/repositories/RepositoryManager';
+import type { SequenceNumberData } from '@/services/repositories/DiagramRepository';
+import type { ValidationIssue } from '@/core/models/types';
+import { ValidationRule } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { validateDiagram } from '@/utils/validation';
+
+// Import state from feature modules
+import { diagramData, diagramList, cimNamespace, selectedDiagram } from '../diagram/DiagramState';
+import { setLoading, updateStatus } from '../ui/UIState';
+import { clearSelection, togglePointSelection } from '../interaction/InteractionState';
+import { zoomToBounds } from '../canvas/CanvasState';
+import { validationReport, clearValidationReport } from './ValidationState';
+import type { DiagramService } from '../diagram/DiagramService';
+import type { HistoryService } from '../history/HistoryService';
+
+export class ValidationService {
+  constructor(
+      private repositoryManager: RepositoryManager,
+      private diagramService: DiagramService,
+      private historyService: HistoryService
+  ) {}
+
+  /**
+   * Check the current diagram for problems
+   *
+   * @returns Number of issues found
+   */
+  async validate(): Promise<number> {
+    const currentDiagram = get(diagramData);
+    const diagramIri = get(selectedDiagram);
+    if (!currentDiagram || !diagramIri) {
+      clearValidationReport();
+      return 0;
+    }
+
+    try {
+      setLoading(true);
+      updateStatus('Validating diagram...');
+
+      // Objects without points are not part of the loaded layout
+      const objectsWithoutPoints = await this.repositoryManager.current.listObjectsWithoutPoints(
+          diagramIri,
+          get(cimNamespace)
+      );
+      const listed = get(diagramList).find(diagram => diagram.iri === diagramIri);
+
+      const issues = validateDiagram(currentDiagram, {
+        objectsWithoutPoints,
+        extent: listed?.initialView ?? null
+      });
+
+      validationReport.set({ diagramIri, issues });
+
+      const errorCount = issues.filter(issue => issue.severity === 'error').length;
+      updateStatus(issues.length === 0
+        ? 'No problems found'
+        : `Found ${errorCount} error(s) and ${issues.length - errorCount} warning(s)`);
+      return issues.length;
+    } catch (error) {
+      console.error('Error validating diagram:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return 0;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Zoom to the objects of an issue and select their points
+   *
+   * @param issue - Issue to show
+   */
+  focusIssue(issue: ValidationIssue): void {
+    if (!issue.bounds) {
+      updateStatus('This issue has no position in the diagram');
+      return;
+    }
+
+    zoomToBounds(issue.bounds, AppConfig.validation.focusScale);
+
+    clearSelection();
+    issue.pointIris.forEach(pointIri => togglePointSelection(pointIri));
+  }
+
+  /**
+   * Apply the automatic fix of an issue and validate again
+   *
+   * @param issue - Issue with a quick fix
+   * @returns True if the fix was applied
+   */
+  async applyQuickFix(issue: ValidationIssue): Promise<boolean> {
+    const currentDiagram = get(diagramData);
+    if (!currentDiagram || !issue.quickFix) return false;
+
+    try {
+      setLoading(true);
+      updateStatus(`${issue.quickFix}...`);
+
+      // Get the current namespace and repository
+      const namespace = get(cimNamespace);
+      const repository = this.repositoryManager.current;
+
+      switch (issue.rule) {
+        case ValidationRule.SEQUENCE_NUMBERS: {
+          const object = currentDiagram.objects.find(candidate => candidate.iri === issue.objectIris[0]);
+          if (!object) return false;
+
+          // Keep the current order of the points, numbered from 0
+          const oldSequence: SequenceNumberData[] = object.points.map(point => ({
+            iri: point.iri,
+            sequenceNumber: point.sequenceNumber
+          }));
+          const newSequence: SequenceNumberData[] = object.points.map((point, index) => ({
+            iri: point.iri,
+            sequenceNumber: index
+          }));
+
+          await repository.updateSequenceNumbers(newSequence, namespace);
+          this.historyService.record(
+              'Renumber points',
+              () => repository.updateSequenceNumbers(newSequence, namespace),
+              () => repository.updateSequenceNumbers(oldSequence, namespace)
+          );
+          break;
+        }
+
+        case ValidationRule.POLYGON_POINTS: {
+          const objectIri = issue.objectIris[0];
+
+          await repository.updatePolygonProperty(objectIri, false, namespace);
+          this.historyService.record(
+              'Remove polygon',
+              () => repository.updatePolygonProperty(objectIri, false, namespace),
+              () => repository.updatePolygonProperty(objectIri, true, namespace)
+          );
+          break;
+        }
+
+        case ValidationRule.GLUE_POINT_OBJECTS: {
+          const gluePoint = currentDiagram.gluePoints.find(candidate => candidate.iri === issue.gluePointIri);
+          if (!gluePoint) return false;
+
+          // Remember the connected points for undo
+          const gluePointIri = gluePoint.iri;
+          const connectedPoints = Array.from(gluePoint.connectedPoints);
+
+          await repository.removeGluePoint(gluePointIri, namespace);
+          this.historyService.record(
+              'Remove glue point',
+              () => repository.removeGluePoint(gluePointIri, namespace),
+              () => repository.createGluePoint(gluePointIri, connectedPoints, namespace)
+          );
+          break;
+        }
+
+        case ValidationRule.OBJECT_WITHOUT_POINTS: {
+          const objectIris = issue.objectIris;
+
+          // Capture everything the deletion removes, so it can be undone
+          const removedSnapshot = await repository.snapshotObjects(objectIris, namespace);
+
+          await repository.deleteObjects(objectIris, namespace);
+          this.historyService.record(
+              'Delete diagram object without points',
+              () => repository.deleteObjects(objectIris, namespace),
+              () => repository.restoreSnapshot(removedSnapshot)
+          );
+          break;
+        }
+
+        default:
+          return false;
+      }
+
+      await this.diagramService.reloadDiagram();
+    } catch (error) {
+      console.error('Error applying quick fix:', error);
+      updateStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+      await this.diagramService.reloadDiagram();
+      return false;
+    } finally {
+      setLoading(false);
+    }
+
+    // Show what is left after the fix
+    await this.validate();
+    return true;
+  }
+}
@@ -0,0 +1,10 @@
+import { writable } from 'svelte/store';
+import type { ValidationReport } from '@/core/models/types';
+
+// Issues found by the last validation of the current diagram
+export const validationReport = writable<ValidationReport | null>(null);
+export const validationPanelOpen = writable<boolean>(false);
+
+export function clearValidationReport(): void {
+  validationReport.set(null);
+}
@@ -0,0 +1,62 @@
+import { writable } from 'svelte/store';
+import type { VoltageColor } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+
+// Voltage colouring state
+export const voltageColoringEnabled = writable<boolean>(AppConfig.voltageColors.enabled);
+export const voltagePalette = writable<VoltageColor[]>(loadVoltagePalette());
+
+// Keep the edited palette across sessions
+voltagePalette.subscribe(palette => {
+  try {
+    localStorage.setItem(AppConfig.voltageColors.storageKey, JSON.stringify(palette));
+  } catch (error) {
+    console.warn('Could not store voltage palette:', error);
+  }
+});
+
+/**
+ * Read the stored palette, falling back to the configured default
+ */
+function loadVoltagePalette(): VoltageColor[] {
+  try {
+    const stored = localStorage.getItem(AppConfig.voltageColors.storageKey);
+    if (stored) {
+      const palette = JSON.parse(stored);
+      if (Array.isArray(palette)) {
+        return sortVoltagePalette(palette);
+      }
+    }
+  } catch (error) {
+    console.warn('Could not read stored voltage palette:', error);
+  }
+
+  return sortVoltagePalette(AppConfig.voltageColors.palette);
+}
+
+/**
+ * Sort palette entries from the highest to the lowest voltage band
+ */
+function sortVoltagePalette(palette: VoltageColor[]): VoltageColor[] {
+  return [...palette].sort((a, b) => b.minVoltage - a.minVoltage);
+}
+
+// Voltage palette functions
+export function setVoltagePalette(palette: VoltageColor[]): void {
+  voltagePalette.set(sortVoltagePalette(palette));
+}
+
+export function resetVoltagePalette(): void {
+  voltagePalette.set(sortVoltagePalette(AppConfig.voltageColors.palette));
+}
+
+/**
+ * Find the palette entry for a nominal voltage
+ *
+ * @param palette - Palette sorted from the highest to the lowest band
+ * @param nominalVoltage - Voltage in kV
+ * @returns Matching entry or null if the voltage is below all bands
+ */
+export function findVoltageColor(palette: VoltageColor[], nominalVoltage: number): VoltageColor | null {
+  return palette.find(entry => nominalVoltage >= entry.minVoltage) || null;
+}
@@ -1,37 +1,103 @@
+import type { GraphScope, NewDiagramData } from '@/core/models/types';
+import { iri, literal, sparql } from '@/services/utils/sparql-terms';
+import { fromGraphs, fromTargetGraph, inTargetGraph } from '@/services/utils/sparql-graphs';
+
+// Abstract CIM classes equipment may be typed with besides its own class
+const GENERAL_CLASSES = [
+  'IdentifiedObject', 'PowerSystemResource', 'Equipment', 'ConductingEquipment', 'EnergyConnection',
+  'RegulatingCondEq', 'RotatingMachine', 'ShuntCompensator', 'Conductor', 'Switch', 'ProtectedSwitch'
+];
+
 export class DiagramQueryBuilder {
     /**
      * Build a query to get all diagrams
      */
-    buildDiagramsQuery(cimNamespace: string): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+    buildDiagramsQuery(cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
         
-        SELECT ?diagram ?name
+        SELECT ?diagram ?name ?orientation ?x1 ?y1 ?x2 ?y2
+        ${fromGraphs(graphs)}
         WHERE {
            ?diagram rdf:type cim:Diagram .
             OPTIONAL {
                 ?diagram cim:IdentifiedObject.name ?name .
             }
+            OPTIONAL {
+                ?diagram cim:Diagram.orientation ?orientationKind .
+            }
+            OPTIONAL {
+                ?diagram cim:Diagram.x1InitialView ?x1 ;
+                         cim:Diagram.y1InitialView ?y1 ;
+                         cim:Diagram.x2InitialView ?x2 ;
+                         cim:Diagram.y2InitialView ?y2 .
+            }
+            BIND(IF(bound(?orientationKind) && STRENDS(STR(?orientationKind), "positive"), "positive", "negative") AS ?orientation) .
         }
         ORDER BY ?name
-      `;
+      `.toString();
+    }
+    
+    /**
+     * Build a query to create an empty diagram
+     */
+    buildCreateDiagramQuery(diagram: NewDiagramData, cimNamespace: string, graphs: GraphScope): string {
+      const subject = iri(diagram.iri);
+      const triples = [
+        sparql`${subject} rdf:type cim:Diagram .`,
+        sparql`${subject} cim:IdentifiedObject.name ${literal(diagram.name)} .`,
+        sparql`${subject} cim:Diagram.orientation ${iri(`${cimNamespace}OrientationKind.${diagram.orientation}`)} .`
+      ];
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        INSERT DATA {
+          ${inTargetGraph(graphs, triples)}
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query finding a diagram in the target graph, where updates are matched
+     */
+    buildDiagramInTargetGraphQuery(diagramIri: string, cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        SELECT ?diagram
+        ${fromTargetGraph(graphs)}
+        WHERE {
+          BIND(${iri(diagramIri)} AS ?diagram)
+          ?diagram rdf:type cim:Diagram .
+        }
+        LIMIT 1
+      `.toString();
     }
     
     /**
      * Build a query to get diagram layout data
      */
-    buildDiagramLayoutQuery(diagramIri: string, cimNamespace: string): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+    buildDiagramLayoutQuery(diagramIri: string, cimNamespace: string, graphs: GraphScope): string {
+      const generalClasses = GENERAL_CLASSES.map((name, index) =>
+          index > 0 ? sparql`, ${iri(cimNamespace + name)}` : iri(cimNamespace + name));
+
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
         SELECT ?diagramObject ?point ?xPosition ?yPosition ?sequenceNumber ?drawingOrder 
                ?isPolygon ?isTextDiagramObject ?textContent ?gluePoint
+               ?identifiedObject ?identifiedObjectClass ?identifiedObjectName ?nominalVoltage
+               ?rotation ?offsetX ?offsetY ?style ?styleName ?objectName ?zPosition
+        ${fromGraphs(graphs)}
         WHERE { 
         
-        ?diagramObject cim:DiagramObject.Diagram <${diagramIri}> . 
+        ?diagramObject cim:DiagramObject.Diagram ${iri(diagramIri)} . 
         
         ?diagramObject rdf:type ?type. 
         BIND(?type = cim:TextDiagramObject AS ?isTextDiagramObject) .
@@ -58,17 +124,94 @@ export class DiagramQueryBuilder {
         }
         BIND(IF(bound(?isPoly), xsd:boolean(?isPoly), false) AS ?isPolygon) .   
         
+        OPTIONAL {
+            ?diagramObject cim:IdentifiedObject.name ?objectName .
+        }
+        
+        OPTIONAL {
+            ?point cim:DiagramObjectPoint.zPosition ?z .
+        }
+        BIND(xsd:float(?z) AS ?zPosition) .
+        
+        # Get the placement of symbols and texts
+        OPTIONAL {
+            ?diagramObject cim:DiagramObject.rotation ?rot .
+        }
+        BIND(IF(bound(?rot), xsd:float(?rot), 0) AS ?rotation) .
+        
+        OPTIONAL {
+            ?diagramObject cim:DiagramObject.offsetX ?offX .
+        }
+        BIND(IF(bound(?offX), xsd:float(?offX), 0) AS ?offsetX) .
+        
+        OPTIONAL {
+            ?diagramObject cim:DiagramObject.offsetY ?offY .
+        }
+        BIND(IF(bound(?offY), xsd:float(?offY), 0) AS ?offsetY) .
+        
+        OPTIONAL {
+            ?diagramObject cim:DiagramObject.DiagramObjectStyle ?style .
+            OPTIONAL {
+                ?style cim:IdentifiedObject.name ?styleName .
+            }
+        }
+        
         OPTIONAL {
             ?diagramObject cim:TextDiagramObject.text ?text .
         }
         BIND(IF(bound(?text), ?text, "") AS ?textContent) .
         
+        # Get the depicted equipment with its CIM class and name
+        OPTIONAL {
+            ?diagramObject cim:DiagramObject.IdentifiedObject ?identifiedObject .
+            OPTIONAL {
+                ?identifiedObject rdf:type ?identifiedObjectType .
+                FILTER(STRSTARTS(STR(?identifiedObjectType), STR(cim:)))
+
+                # One class per object: specific classes before general ones, then by name
+                FILTER NOT EXISTS {
+                    ?identifiedObject rdf:type ?otherType .
+                    FILTER(STRSTARTS(STR(?otherType), STR(cim:)))
+                    BIND(?identifiedObjectType IN (${generalClasses}) AS ?typeIsGeneral)
+                    BIND(?otherType IN (${generalClasses}) AS ?otherIsGeneral)
+                    FILTER((?typeIsGeneral && !?otherIsGeneral) ||
+                           (?typeIsGeneral = ?otherIsGeneral && STR(?otherType) < STR(?identifiedObjectType)))
+                }
+            }
+            OPTIONAL {
+                ?identifiedObject cim:IdentifiedObject.name ?identifiedObjectName .
+            }
+            
+            # Base voltage of the equipment, or of the voltage level containing it directly or via a bay
+            OPTIONAL {
+                ?identifiedObject cim:ConductingEquipment.BaseVoltage/cim:BaseVoltage.nominalVoltage ?equipmentVoltage .
+            }
+            OPTIONAL {
+                ?identifiedObject cim:Equipment.EquipmentContainer/cim:Bay.VoltageLevel?/cim:VoltageLevel.BaseVoltage/cim:BaseVoltage.nominalVoltage ?containerVoltage .
+            }
+            BIND(COALESCE(?equipmentVoltage, ?containerVoltage) AS ?nominalVoltage) .
+        }
+        BIND(STRAFTER(STR(?identifiedObjectType), STR(cim:)) AS ?identifiedObjectClass) .
+        
         # Get glue point references
         OPTIONAL {
             ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ?gluePoint .
         }
         }
         ORDER BY ?drawingOrder ?sequenceNumber
-      `;
+      `.toString();
+    }
+    
+    /**
+     * Build a query to get the named graphs of the store
+     */
+    buildNamedGraphsQuery(): string {
+      return sparql`
+        SELECT DISTINCT ?graph
+        WHERE {
+          GRAPH ?graph { }
+        }
+        ORDER BY ?graph
+      `.toString();
     }
   }
\ No newline at end of file
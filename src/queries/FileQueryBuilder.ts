@@ -0,0 +1,44 @@
+import type { GraphScope } from '@/core/models/types';
+import { iri, sparql } from '@/services/utils/sparql-terms';
+import { fromGraphs } from '@/services/utils/sparql-graphs';
+
+export class FileQueryBuilder {
+    /**
+     * Build a query to fetch all triples belonging to the DiagramLayout profile
+     */
+    buildDiagramLayoutProfileQuery(cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        PREFIX md: <http://iec.ch/TC57/61970-552/ModelDescription/1#>
+        
+        SELECT DISTINCT ?s ?p ?o
+        ${fromGraphs(graphs)}
+        WHERE {
+          {
+            # Instances of DiagramLayout classes
+            VALUES ?type {
+              cim:Diagram
+              cim:DiagramStyle
+              cim:DiagramObject
+              cim:TextDiagramObject
+              cim:DiagramObjectStyle
+              cim:DiagramObjectPoint
+              cim:DiagramObjectGluePoint
+              cim:VisibilityLayer
+            }
+            ?s rdf:type ?type .
+          }
+          UNION
+          {
+            # Model header of the DiagramLayout profile
+            ?s rdf:type md:FullModel ;
+               md:Model.profile ?profile .
+            FILTER(CONTAINS(STR(?profile), "DiagramLayout"))
+          }
+          
+          ?s ?p ?o .
+        }
+      `.toString();
+    }
+}
@@ -1,27 +1,32 @@
+import type { GraphScope } from '@/core/models/types';
+import { iri, sparql } from '@/services/utils/sparql-terms';
+import { inTargetGraph, withGraph } from '@/services/utils/sparql-graphs';
 
 export class GluePointQueryBuilder {
   /**
    * Build a query to create a glue point between points
    */
   buildCreateGluePointQuery(
-    gluePointIri: string, 
+    gluePointIri: string,
     pointIris: string[],
-    cimNamespace: string
+    cimNamespace: string,
+    graphs: GraphScope
   ): string {
+    const gluePoint = iri(gluePointIri);
+
     // Create triples for each point-gluePoint relationship
-    const pointTriples = pointIris.map(pointIri => 
-      `<${pointIri}> cim:DiagramObjectPoint.DiagramObjectGluePoint <${gluePointIri}> .`
-    ).join('\n    ');
-    
-    return `
-      PREFIX cim: <${cimNamespace}>
+    const pointTriples = pointIris.map(pointIri =>
+      sparql`${iri(pointIri)} cim:DiagramObjectPoint.DiagramObjectGluePoint ${gluePoint} .`
+    );
+
+    return sparql`
+      PREFIX cim: ${iri(cimNamespace)}
       PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
-      
+
       INSERT DATA {
-        <${gluePointIri}> rdf:type cim:DiagramObjectGluePoint .
-        ${pointTriples}
+        ${inTargetGraph(graphs, [sparql`${gluePoint} rdf:type cim:DiagramObjectGluePoint .`, pointTriples])}
       }
-    `;
+    `.toString();
   }
 
   /**
@@ -29,22 +34,26 @@ export class GluePointQueryBuilder {
    */
   buildRemoveGluePointQuery(
     gluePointIri: string,
-    cimNamespace: string
+    cimNamespace: string,
+    graphs: GraphScope
   ): string {
-    return `
-      PREFIX cim: <${cimNamespace}>
-      
+    const gluePoint = iri(gluePointIri);
+
+    return sparql`
+      PREFIX cim: ${iri(cimNamespace)}
+
+      ${withGraph(graphs)}
       DELETE {
-        <${gluePointIri}> ?p ?o .
-        ?point cim:DiagramObjectPoint.DiagramObjectGluePoint <${gluePointIri}> .
+        ${gluePoint} ?p ?o .
+        ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ${gluePoint} .
       }
       WHERE {
-        <${gluePointIri}> ?p ?o .
+        ${gluePoint} ?p ?o .
         OPTIONAL {
-          ?point cim:DiagramObjectPoint.DiagramObjectGluePoint <${gluePointIri}> .
+          ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ${gluePoint} .
         }
       }
-    `;
+    `.toString();
   }
 
   /**
@@ -53,15 +62,16 @@ export class GluePointQueryBuilder {
   buildAddPointToGluePointQuery(
     pointIri: string,
     gluePointIri: string,
-    cimNamespace: string
+    cimNamespace: string,
+    graphs: GraphScope
   ): string {
-    return `
-      PREFIX cim: <${cimNamespace}>
-      
+    return sparql`
+      PREFIX cim: ${iri(cimNamespace)}
+
       INSERT DATA {
-        <${pointIri}> cim:DiagramObjectPoint.DiagramObjectGluePoint <${gluePointIri}> .
+        ${inTargetGraph(graphs, sparql`${iri(pointIri)} cim:DiagramObjectPoint.DiagramObjectGluePoint ${iri(gluePointIri)} .`)}
       }
-    `;
+    `.toString();
   }
 
   /**
@@ -70,17 +80,21 @@ export class GluePointQueryBuilder {
   buildRemovePointFromGluePointQuery(
     pointIri: string,
     gluePointIri: string,
-    cimNamespace: string
+    cimNamespace: string,
+    graphs: GraphScope
   ): string {
-    return `
-      PREFIX cim: <${cimNamespace}>
-      
+    const triple = sparql`${iri(pointIri)} cim:DiagramObjectPoint.DiagramObjectGluePoint ${iri(gluePointIri)} .`;
+
+    return sparql`
+      PREFIX cim: ${iri(cimNamespace)}
+
+      ${withGraph(graphs)}
       DELETE {
-        <${pointIri}> cim:DiagramObjectPoint.DiagramObjectGluePoint <${gluePointIri}> .
+        ${triple}
       }
       WHERE {
-        <${pointIri}> cim:DiagramObjectPoint.DiagramObjectGluePoint <${gluePointIri}> .
+        ${triple}
       }
-    `;
+    `.toString();
   }
 }
\ No newline at end of file
@@ -1,3 +1,8 @@
+import type { DiagramObjectAttributes, GraphScope, NewDiagramObjectData } from '@/core/models/types';
+import type { Iri, SparqlFragment, Term } from '@/services/utils/sparql-terms';
+import { boolean, float, integer, iri, literal, sparql } from '@/services/utils/sparql-terms';
+import { fromGraphs, fromTargetGraph, inTargetGraph, withGraph } from '@/services/utils/sparql-graphs';
+
 export class ObjectQueryBuilder {
     /**
      * Build a query to update the isPolygon property of a diagram object
@@ -5,23 +10,208 @@ export class ObjectQueryBuilder {
     buildUpdatePolygonPropertyQuery(
       objectIri: string,
       isPolygon: boolean,
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope
     ): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+      const object = iri(objectIri);
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
+        ${withGraph(graphs)}
         DELETE {
-          <${objectIri}> cim:DiagramObject.isPolygon ?oldValue .
+          ${object} cim:DiagramObject.isPolygon ?oldValue .
         }
         INSERT {
-          <${objectIri}> cim:DiagramObject.isPolygon "${isPolygon}"^^xsd:boolean .
+          ${object} cim:DiagramObject.isPolygon ${boolean(isPolygon)} .
         }
         WHERE {
-          OPTIONAL { <${objectIri}> cim:DiagramObject.isPolygon ?oldValue . }
+          OPTIONAL { ${object} cim:DiagramObject.isPolygon ?oldValue . }
         }
-      `;
+      `.toString();
+    }
+    
+    /**
+     * Build a query to update attributes of diagram objects
+     */
+    buildUpdateObjectAttributesQuery(
+      objectIris: string[],
+      attributes: DiagramObjectAttributes,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      const objects = objectIris.map(iri);
+      const operations: SparqlFragment[] = [];
+      
+      if (attributes.drawingOrder !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:DiagramObject.drawingOrder`,
+            integer(Math.round(attributes.drawingOrder))));
+      }
+      if (attributes.rotation !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:DiagramObject.rotation`,
+            float(attributes.rotation)));
+      }
+      if (attributes.offsetX !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:DiagramObject.offsetX`,
+            float(attributes.offsetX)));
+      }
+      if (attributes.offsetY !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:DiagramObject.offsetY`,
+            float(attributes.offsetY)));
+      }
+      if (attributes.name !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:IdentifiedObject.name`,
+            attributes.name ? literal(attributes.name) : null));
+      }
+      if (attributes.styleIri !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:DiagramObject.DiagramObjectStyle`,
+            attributes.styleIri ? iri(attributes.styleIri) : null));
+      }
+      if (attributes.text !== undefined) {
+        operations.push(this.buildAttributeUpdate(objects, graphs, sparql`cim:TextDiagramObject.text`,
+            attributes.text ? literal(attributes.text) : null,
+            sparql`?object rdf:type cim:TextDiagramObject .`));
+      }
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+        
+        ${operations.map((operation, index) => index > 0 ? sparql`; ${operation}` : operation)}
+      `.toString();
+    }
+    
+    /**
+     * Build a query to get all diagram object styles, declared or referenced
+     */
+    buildObjectStylesQuery(cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        SELECT DISTINCT ?style ?name
+        ${fromGraphs(graphs)}
+        WHERE {
+          {
+            ?style rdf:type cim:DiagramObjectStyle .
+          } UNION {
+            ?diagramObject cim:DiagramObject.DiagramObjectStyle ?style .
+          }
+          OPTIONAL {
+            ?style cim:IdentifiedObject.name ?name .
+          }
+        }
+        ORDER BY ?name
+      `.toString();
+    }
+    
+    /**
+     * Build a query to create a diagram object with its points
+     */
+    buildCreateDiagramObjectQuery(
+      object: NewDiagramObjectData,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      const subject = iri(object.iri);
+      const triples = [
+        object.isText
+          ? sparql`${subject} rdf:type cim:TextDiagramObject .`
+          : sparql`${subject} rdf:type cim:DiagramObject .`,
+        sparql`${subject} cim:DiagramObject.Diagram ${iri(object.diagramIri)} .`,
+        sparql`${subject} cim:DiagramObject.drawingOrder ${integer(object.drawingOrder)} .`,
+        sparql`${subject} cim:DiagramObject.isPolygon ${boolean(object.isPolygon)} .`
+      ];
+      
+      if (object.name) {
+        triples.push(sparql`${subject} cim:IdentifiedObject.name ${literal(object.name)} .`);
+      }
+      if (object.isText && object.text !== undefined) {
+        triples.push(sparql`${subject} cim:TextDiagramObject.text ${literal(object.text)} .`);
+      }
+      if (object.identifiedObjectIri) {
+        triples.push(sparql`${subject} cim:DiagramObject.IdentifiedObject ${iri(object.identifiedObjectIri)} .`);
+      }
+      
+      object.points.forEach(point => {
+        const pointSubject = iri(point.iri);
+        triples.push(
+          sparql`${pointSubject} rdf:type cim:DiagramObjectPoint .`,
+          sparql`${pointSubject} cim:DiagramObjectPoint.DiagramObject ${subject} .`,
+          sparql`${pointSubject} cim:DiagramObjectPoint.xPosition ${float(point.x)} .`,
+          sparql`${pointSubject} cim:DiagramObjectPoint.yPosition ${float(point.y)} .`,
+          sparql`${pointSubject} cim:DiagramObjectPoint.sequenceNumber ${integer(point.sequenceNumber)} .`
+        );
+      });
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+        
+        INSERT DATA {
+          ${inTargetGraph(graphs, triples)}
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to find equipment whose name or IRI contains a search term
+     */
+    buildEquipmentSearchQuery(
+      searchTerm: string,
+      limit: number,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      const term = literal(searchTerm.toLowerCase());
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        SELECT DISTINCT ?equipment ?type ?name
+        ${fromGraphs(graphs)}
+        WHERE {
+          ?equipment cim:Equipment.EquipmentContainer ?container ;
+                     rdf:type ?type .
+          FILTER(STRSTARTS(STR(?type), STR(cim:)))
+          OPTIONAL {
+            ?equipment cim:IdentifiedObject.name ?name .
+          }
+          FILTER(CONTAINS(LCASE(COALESCE(?name, STR(?equipment))), ${term}))
+        }
+        ORDER BY ?name ?equipment
+        LIMIT ${integer(limit)}
+      `.toString();
+    }
+    
+    /**
+     * Build a query to find the diagram objects of a diagram that have no points
+     */
+    buildObjectsWithoutPointsQuery(diagramIri: string, cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        SELECT ?diagramObject ?type ?name
+        ${fromGraphs(graphs)}
+        WHERE {
+          ?diagramObject cim:DiagramObject.Diagram ${iri(diagramIri)} ;
+                         rdf:type ?type .
+          FILTER(?type IN (cim:DiagramObject, cim:TextDiagramObject))
+          FILTER NOT EXISTS {
+            ?point cim:DiagramObjectPoint.DiagramObject ?diagramObject .
+          }
+          OPTIONAL {
+            ?diagramObject cim:IdentifiedObject.name ?name .
+          }
+        }
+        ORDER BY ?name ?diagramObject
+      `.toString();
     }
     
     /**
@@ -29,11 +219,13 @@ export class ObjectQueryBuilder {
      */
     buildDeleteDiagramObjectsQuery(
       objectIris: string[],
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope
     ): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         
+        ${withGraph(graphs)}
         DELETE {
           ?obj ?p ?o .
           ?point ?pp ?po .
@@ -41,7 +233,7 @@ export class ObjectQueryBuilder {
         }
         WHERE {
           VALUES ?obj {
-            ${objectIris.map(iri => `<${iri}>`).join('\n          ')}
+            ${objectIris.map(iri)}
           }
           ?obj ?p ?o .
           
@@ -55,6 +247,308 @@ export class ObjectQueryBuilder {
             }
           }
         }
-      `;
+      `.toString();
+    }
+    
+    /**
+     * Build a query to fetch all triples removed by buildDeleteDiagramObjectsQuery
+     */
+    buildDiagramObjectTriplesQuery(
+      objectIris: string[],
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        
+        SELECT DISTINCT ?s ?p ?o
+        ${fromTargetGraph(graphs)}
+        WHERE {
+          VALUES ?obj {
+            ${objectIris.map(iri)}
+          }
+          {
+            ?obj ?p ?o .
+            BIND(?obj AS ?s)
+          }
+          UNION
+          {
+            ?point cim:DiagramObjectPoint.DiagramObject ?obj .
+            ?point ?p ?o .
+            BIND(?point AS ?s)
+          }
+          UNION
+          {
+            ?point cim:DiagramObjectPoint.DiagramObject ?obj .
+            ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ?gluePoint .
+            ?gluePoint ?p ?o .
+            BIND(?gluePoint AS ?s)
+          }
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to insert previously captured triples
+     */
+    buildInsertTriplesQuery(triples: SparqlFragment[], graphs: GraphScope): string {
+      return sparql`
+        INSERT DATA {
+          ${inTargetGraph(graphs, triples)}
+        }
+      `.toString();
+    }
+
+    /**
+     * Build a query to clone diagram objects into a diagram
+     */
+    buildCloneObjectsQuery(
+      diagramIri: string,
+      objectMapping: Map<string, string>,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        ${withGraph(graphs)}
+        INSERT {
+          ?newObj ?p ?o .
+          ?newObj cim:DiagramObject.Diagram ${iri(diagramIri)} .
+        }
+        WHERE {
+          VALUES (?obj ?newObj) {
+            ${this.buildMappingValues(objectMapping)}
+          }
+          ?obj ?p ?o .
+          FILTER(?p != cim:DiagramObject.Diagram)
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to get all points of diagram objects
+     */
+    buildObjectPointsQuery(
+      objectIris: string[],
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        
+        SELECT ?point ?obj
+        ${fromGraphs(graphs)}
+        WHERE {
+          VALUES ?obj {
+            ${objectIris.map(iri)}
+          }
+          ?point cim:DiagramObjectPoint.DiagramObject ?obj .
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to get all glue points linked to diagram objects via their points
+     */
+    buildObjectGluePointsQuery(
+      objectIris: string[],
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        
+        SELECT DISTINCT ?point ?gluePoint
+        ${fromGraphs(graphs)}
+        WHERE {
+          VALUES ?obj {
+            ${objectIris.map(iri)}
+          }
+          ?point cim:DiagramObjectPoint.DiagramObject ?obj .
+          ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ?gluePoint .
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to clone glue points
+     */
+    buildCloneGluePointsQuery(
+      gluePointMapping: Map<string, string>,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        ${withGraph(graphs)}
+        INSERT {
+          ?newGlue ?p ?o .
+        }
+        WHERE {
+          VALUES (?glue ?newGlue) {
+            ${this.buildMappingValues(gluePointMapping)}
+          }
+          ?glue ?p ?o .
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to clone points (basic properties only, no references)
+     */
+    buildClonePointsQuery(
+      pointMapping: Map<string, string>,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        
+        ${withGraph(graphs)}
+        INSERT {
+          ?newPoint ?p ?o .
+        }
+        WHERE {
+          VALUES (?point ?newPoint) {
+            ${this.buildMappingValues(pointMapping)}
+          }
+          ?point ?p ?o .
+          FILTER(?p != cim:DiagramObjectPoint.DiagramObject)
+          FILTER(?p != cim:DiagramObjectPoint.DiagramObjectGluePoint)
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to link cloned points to the cloned objects
+     */
+    buildLinkClonedPointsToObjectsQuery(
+      pointMapping: Map<string, string>,
+      objectMapping: Map<string, string>,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        
+        ${withGraph(graphs)}
+        INSERT {
+          ?newPoint cim:DiagramObjectPoint.DiagramObject ?newObj .
+        }
+        WHERE {
+          VALUES (?point ?newPoint) {
+            ${this.buildMappingValues(pointMapping)}
+          }
+          ?point cim:DiagramObjectPoint.DiagramObject ?obj .
+          VALUES (?obj ?newObj) {
+            ${this.buildMappingValues(objectMapping)}
+          }
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to link cloned points to the cloned glue points
+     */
+    buildLinkClonedPointsToGluePointsQuery(
+      pointMapping: Map<string, string>,
+      gluePointMapping: Map<string, string>,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        
+        ${withGraph(graphs)}
+        INSERT {
+          ?newPoint cim:DiagramObjectPoint.DiagramObjectGluePoint ?newGlue .
+        }
+        WHERE {
+          VALUES (?point ?newPoint) {
+            ${this.buildMappingValues(pointMapping)}
+          }
+          ?point cim:DiagramObjectPoint.DiagramObjectGluePoint ?glue .
+          VALUES (?glue ?newGlue) {
+            ${this.buildMappingValues(gluePointMapping)}
+          }
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to place cloned points at the original positions plus an offset
+     */
+    buildOffsetClonedPointsQuery(
+      pointMapping: Map<string, string>,
+      offsetX: number,
+      offsetY: number,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+        
+        ${withGraph(graphs)}
+        DELETE {
+          ?newPoint cim:DiagramObjectPoint.xPosition ?oldX .
+          ?newPoint cim:DiagramObjectPoint.yPosition ?oldY .
+        }
+        INSERT {
+          ?newPoint cim:DiagramObjectPoint.xPosition ?newX .
+          ?newPoint cim:DiagramObjectPoint.yPosition ?newY .
+        }
+        WHERE {
+          VALUES (?point ?newPoint) {
+            ${this.buildMappingValues(pointMapping)}
+          }
+          ?point cim:DiagramObjectPoint.xPosition ?x .
+          ?point cim:DiagramObjectPoint.yPosition ?y .
+          
+          ?newPoint cim:DiagramObjectPoint.xPosition ?oldX .
+          ?newPoint cim:DiagramObjectPoint.yPosition ?oldY .
+          
+          BIND(xsd:float(?x) + ${float(offsetX)} AS ?newX)
+          BIND(xsd:float(?y) + ${float(offsetY)} AS ?newY)
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build an operation replacing a property of the objects bound by VALUES, null only removes it
+     */
+    private buildAttributeUpdate(
+      objects: Iri[],
+      graphs: GraphScope,
+      property: SparqlFragment,
+      value: Term | null,
+      condition: SparqlFragment | null = null
+    ): SparqlFragment {
+      return sparql`
+        ${withGraph(graphs)}
+        DELETE {
+          ?object ${property} ?oldValue .
+        }
+        ${value !== null ? sparql`INSERT {
+          ?object ${property} ${value} .
+        }` : null}
+        WHERE {
+          VALUES ?object { ${objects} }
+          ${condition}
+          OPTIONAL { ?object ${property} ?oldValue . }
+        }`;
+    }
+    
+    /**
+     * Build VALUES rows mapping original IRIs to the IRIs of their clones
+     */
+    private buildMappingValues(mapping: Map<string, string>): SparqlFragment[] {
+      return Array.from(mapping.entries())
+        .map(([oldIri, newIri]) => sparql`(${iri(oldIri)} ${iri(newIri)})`);
     }
-  }
\ No newline at end of file
+  }
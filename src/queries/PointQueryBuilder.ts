@@ -1,4 +1,6 @@
-import type { MovePointsByDeltaData } from "@/core/models/types";
+import type { GraphScope, MovePointsByDeltaData, PointAttributes } from "@/core/models/types";
+import { float, integer, iri, sparql, variable } from "@/services/utils/sparql-terms";
+import { fromGraphs, fromTargetGraph, inTargetGraph, withGraph } from "@/services/utils/sparql-graphs";
 
 export class PointQueryBuilder {
     /**
@@ -10,21 +12,27 @@ export class PointQueryBuilder {
       x: number,
       y: number,
       sequenceNumber: number,
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope
     ): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+      const point = iri(pointIri);
+      const triples = [
+        sparql`${point} rdf:type cim:DiagramObjectPoint .`,
+        sparql`${point} cim:DiagramObjectPoint.DiagramObject ${iri(objectIri)} .`,
+        sparql`${point} cim:DiagramObjectPoint.xPosition ${float(x)} .`,
+        sparql`${point} cim:DiagramObjectPoint.yPosition ${float(y)} .`,
+        sparql`${point} cim:DiagramObjectPoint.sequenceNumber ${integer(sequenceNumber)} .`
+      ];
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
         INSERT DATA {
-          <${pointIri}> rdf:type cim:DiagramObjectPoint .
-          <${pointIri}> cim:DiagramObjectPoint.DiagramObject <${objectIri}> .
-          <${pointIri}> cim:DiagramObjectPoint.xPosition "${x}"^^xsd:float .
-          <${pointIri}> cim:DiagramObjectPoint.yPosition "${y}"^^xsd:float .
-          <${pointIri}> cim:DiagramObjectPoint.sequenceNumber "${sequenceNumber}"^^xsd:integer .
+          ${inTargetGraph(graphs, triples)}
         }
-      `;
+      `.toString();
     }
   
     /**
@@ -32,19 +40,19 @@ export class PointQueryBuilder {
      */
     buildUpdateDiagramPointPositionsByVectorQuery(
       pointsAndVector: MovePointsByDeltaData,
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope
     ): string {
       // Create VALUES clause
-      let valuesClause = 'VALUES ?point {\n';
-      pointsAndVector.pointIris.forEach(iri => {
-        valuesClause += `  <${iri}>\n`;
-      });
-      valuesClause += '}\n';
+      const valuesClause = sparql`VALUES ?point {
+        ${pointsAndVector.pointIris.map(iri)}
+      }`;
       
-      return `
-        PREFIX cim: <${cimNamespace}>                    
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
+        ${withGraph(graphs)}
         DELETE {
             ?point cim:DiagramObjectPoint.xPosition ?oldX .
             ?point cim:DiagramObjectPoint.yPosition ?oldY .
@@ -58,31 +66,47 @@ export class PointQueryBuilder {
             ?point cim:DiagramObjectPoint.xPosition ?oldX .
             ?point cim:DiagramObjectPoint.yPosition ?oldY .
             
-            BIND(xsd:float(?oldX) + ${pointsAndVector.deltaVector.dx} AS ?newX)
-            BIND(xsd:float(?oldY) + ${pointsAndVector.deltaVector.dy} AS ?newY)
-        }                     
-      `;
+            BIND(xsd:float(?oldX) + ${float(pointsAndVector.deltaVector.dx)} AS ?newX)
+            BIND(xsd:float(?oldY) + ${float(pointsAndVector.deltaVector.dy)} AS ?newY)
+        }
+      `.toString();
     }
 
     /**
      * Build a query to update point positions to absolute values
+     * 
+     * With expected positions, points whose stored position differs from the
+     * expected one by more than the tolerance are left unchanged.
      */    
     buildUpdateDiagramPointPositionsQuery(
       pointIris: string[],
       positions: Array<{x: number, y: number}>,
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope,
+      expectedPositions?: Array<{x: number, y: number}>,
+      tolerance: number = 0
     ): string {
       // Create VALUES clause
-      let valuesClause = 'VALUES (?point ?x ?y) {\n';
-      pointIris.forEach((iri, index) => {
-        valuesClause += `  (<${iri}> "${positions[index].x}"^^xsd:float  "${positions[index].y}"^^xsd:float )\n`;
+      const rows = pointIris.map((pointIri, index) => {
+        const expected = expectedPositions
+          ? sparql` ${float(expectedPositions[index].x)} ${float(expectedPositions[index].y)}`
+          : null;
+        return sparql`(${iri(pointIri)} ${float(positions[index].x)} ${float(positions[index].y)}${expected})`;
       });
-      valuesClause += '}\n';
+      const variables = expectedPositions ? sparql`?point ?x ?y ?expectedX ?expectedY` : sparql`?point ?x ?y`;
+      const valuesClause = sparql`VALUES (${variables}) {
+        ${rows}
+      }`;
       
-      return `
-        PREFIX cim: <${cimNamespace}>
+      const condition = expectedPositions
+        ? sparql`FILTER(abs(xsd:float(?oldX) - ?expectedX) <= ${float(tolerance)} && abs(xsd:float(?oldY) - ?expectedY) <= ${float(tolerance)})`
+        : null;
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
+        ${withGraph(graphs)}
         DELETE {
           ?point cim:DiagramObjectPoint.xPosition ?oldX .
           ?point cim:DiagramObjectPoint.yPosition ?oldY .
@@ -95,8 +119,28 @@ export class PointQueryBuilder {
           ${valuesClause}
           ?point cim:DiagramObjectPoint.xPosition ?oldX .
           ?point cim:DiagramObjectPoint.yPosition ?oldY .
+          ${condition}
         }
-      `;
+      `.toString();
+    }
+
+    /**
+     * Build a query for the stored positions of points
+     */
+    buildPointPositionsQuery(pointIris: string[], cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        
+        SELECT ?point ?x ?y
+        ${fromGraphs(graphs)}
+        WHERE {
+          VALUES ?point {
+            ${pointIris.map(iri)}
+          }
+          ?point cim:DiagramObjectPoint.xPosition ?x .
+          ?point cim:DiagramObjectPoint.yPosition ?y .
+        }
+      `.toString();
     }
 
       
@@ -106,35 +150,56 @@ export class PointQueryBuilder {
      */
     buildUpdateSequenceNumbersQuery(
       points: Array<{iri: string, sequenceNumber: number}>,
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope
     ): string {
-      let deleteClause = 'DELETE {';
-      let insertClause = 'INSERT {';
-      let whereClause = 'WHERE {';
+      const subjects = points.map(point => iri(point.iri));
+      const oldValues = points.map((_, index) => variable(`oldSeq${index}`));
       
-      points.forEach((point, index) => {
-        deleteClause += `
-          <${point.iri}> cim:DiagramObjectPoint.sequenceNumber ?oldSeq${index} .`;
-        
-        insertClause += `
-          <${point.iri}> cim:DiagramObjectPoint.sequenceNumber "${point.sequenceNumber}"^^xsd:integer .`;
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
-        whereClause += `
-          OPTIONAL { <${point.iri}> cim:DiagramObjectPoint.sequenceNumber ?oldSeq${index} . }`;
-      });
-      
-      deleteClause += '\n}';
-      insertClause += '\n}';
-      whereClause += '\n}';
+        ${withGraph(graphs)}
+        DELETE {
+          ${subjects.map((subject, index) => sparql`${subject} cim:DiagramObjectPoint.sequenceNumber ${oldValues[index]} .`)}
+        }
+        INSERT {
+          ${subjects.map((subject, index) => sparql`${subject} cim:DiagramObjectPoint.sequenceNumber ${integer(points[index].sequenceNumber)} .`)}
+        }
+        WHERE {
+          ${subjects.map((subject, index) => sparql`OPTIONAL { ${subject} cim:DiagramObjectPoint.sequenceNumber ${oldValues[index]} . }`)}
+        }
+      `.toString();
+    }
+    
+    /**
+     * Build a query to update attributes of points
+     */
+    buildUpdatePointAttributesQuery(
+      pointIris: string[],
+      attributes: PointAttributes,
+      cimNamespace: string,
+      graphs: GraphScope
+    ): string {
+      const insertClause = attributes.zPosition !== undefined && attributes.zPosition !== null ? sparql`
+        INSERT {
+          ?point cim:DiagramObjectPoint.zPosition ${float(attributes.zPosition)} .
+        }` : null;
       
-      return `
-        PREFIX cim: <${cimNamespace}>
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
-        ${deleteClause}
-        ${insertClause}
-        ${whereClause}
-      `;
+        ${withGraph(graphs)}
+        DELETE {
+          ?point cim:DiagramObjectPoint.zPosition ?oldZ .
+        }${insertClause}
+        WHERE {
+          VALUES ?point { ${pointIris.map(iri)} }
+          OPTIONAL { ?point cim:DiagramObjectPoint.zPosition ?oldZ . }
+        }
+      `.toString();
     }
     
     /**
@@ -142,19 +207,39 @@ export class PointQueryBuilder {
      */
     buildDeletePointQuery(
       pointIri: string,
-      cimNamespace: string
+      cimNamespace: string,
+      graphs: GraphScope
     ): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+      const point = iri(pointIri);
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
         
+        ${withGraph(graphs)}
         DELETE {
-          <${pointIri}> ?p ?o .
+          ${point} ?p ?o .
+        }
+        WHERE {
+          ${point} ?p ?o .
         }
+      `.toString();
+    }
+
+    /**
+     * Build a query to fetch all triples of a point
+     */
+    buildPointTriplesQuery(pointIri: string, graphs: GraphScope): string {
+      const point = iri(pointIri);
+      
+      return sparql`
+        SELECT ?s ?p ?o
+        ${fromTargetGraph(graphs)}
         WHERE {
-          <${pointIri}> ?p ?o .
+          ${point} ?p ?o .
+          BIND(${point} AS ?s)
         }
-      `;
+      `.toString();
     }
 
-  }
\ No newline at end of file
+  }
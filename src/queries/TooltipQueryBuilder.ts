@@ -1,16 +1,23 @@
+import type { GraphScope } from '@/core/models/types';
+import { iri, sparql } from '@/services/utils/sparql-terms';
+import { fromGraphs } from '@/services/utils/sparql-graphs';
+
 export class TooltipQueryBuilder {
     /**
      * Build a query to fetch detailed point information for tooltips
      */
-    buildPointDetailsQuery(pointIri: string, cimNamespace: string): string {
-      return `
-        PREFIX cim: <${cimNamespace}>
+    buildPointDetailsQuery(pointIri: string, cimNamespace: string, graphs: GraphScope): string {
+      const point = iri(pointIri);
+      
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
         PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
         PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
         
         SELECT ?diagramObject ?objectName ?pointName ?zPosition ?offsetX ?offsetY ?rotation ?style ?styleName
+        ${fromGraphs(graphs)}
         WHERE {
-          <${pointIri}> cim:DiagramObjectPoint.DiagramObject ?diagramObject .
+          ${point} cim:DiagramObjectPoint.DiagramObject ?diagramObject .
           
           # Optional DiagramObject name
           OPTIONAL {
@@ -19,12 +26,12 @@ export class TooltipQueryBuilder {
           
           # Optional DiagramObjectPoint name
           OPTIONAL {
-            <${pointIri}> cim:IdentifiedObject.name ?pointName .
+            ${point} cim:IdentifiedObject.name ?pointName .
           }
           
           # Optional z position
           OPTIONAL {
-            <${pointIri}> cim:DiagramObjectPoint.zPosition ?zPosition .
+            ${point} cim:DiagramObjectPoint.zPosition ?zPosition .
           }
           
           # Optional offset properties
@@ -50,6 +57,6 @@ export class TooltipQueryBuilder {
           }
         }
         LIMIT 1
-      `;
+      `.toString();
     }
   }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import type { GraphScope } from '@/core/models/types';
+import { iri, sparql } from '@/services/utils/sparql-terms';
+import { fromGraphs } from '@/services/utils/sparql-graphs';
+
+export class TopologyQueryBuilder {
+    /**
+     * Build a query to get the terminals of all equipment with their ConnectivityNodes,
+     * substations and the objects depicting the equipment in a diagram
+     */
+    buildTopologyQuery(diagramIri: string, cimNamespace: string, graphs: GraphScope): string {
+      return sparql`
+        PREFIX cim: ${iri(cimNamespace)}
+        PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+        PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+
+        SELECT ?equipment ?type ?name ?node ?sequenceNumber ?substation ?diagramObject
+        ${fromGraphs(graphs)}
+        WHERE {
+          ?terminal cim:Terminal.ConductingEquipment ?equipment ;
+                    cim:Terminal.ConnectivityNode ?node .
+          ?equipment rdf:type ?type .
+          FILTER(STRSTARTS(STR(?type), STR(cim:)))
+
+          OPTIONAL {
+            ?terminal cim:ACDCTerminal.sequenceNumber ?seqNum .
+          }
+          BIND(IF(bound(?seqNum), xsd:integer(?seqNum), 0) AS ?sequenceNumber) .
+
+          OPTIONAL {
+            ?equipment cim:IdentifiedObject.name ?name .
+          }
+
+          # Group by substation, equipment may be in a voltage level or a bay of it
+          OPTIONAL {
+            ?equipment cim:Equipment.EquipmentContainer ?container .
+            OPTIONAL {
+              ?container cim:VoltageLevel.Substation ?voltageLevelSubstation .
+            }
+            OPTIONAL {
+              ?container cim:Bay.VoltageLevel/cim:VoltageLevel.Substation ?baySubstation .
+            }
+          }
+          BIND(COALESCE(?voltageLevelSubstation, ?baySubstation, ?container) AS ?substation) .
+
+          OPTIONAL {
+            ?diagramObject cim:DiagramObject.IdentifiedObject ?equipment ;
+                           cim:DiagramObject.Diagram ${iri(diagramIri)} .
+          }
+        }
+        ORDER BY ?equipment ?sequenceNumber
+      `.toString();
+    }
+  }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import initOxigraph, { Store } from 'oxigraph/web.js';
+import type { SparqlResults } from '@/core/models/types';
+import type { SparqlExecutor } from './repositories/SparqlDiagramRepository';
+
+// The WebAssembly module only needs to be initialized once per page
+let oxigraphReady: Promise<unknown> | null = null;
+
+/**
+ * In-memory RDF store answering SPARQL queries and updates in the browser
+ */
+export class LocalRdfStore implements SparqlExecutor {
+  private store: Store | null = null;
+
+  /**
+   * Create the underlying store, replacing any previously loaded data
+   */
+  async open(): Promise<void> {
+    if (!oxigraphReady) {
+      oxigraphReady = initOxigraph();
+    }
+    await oxigraphReady;
+
+    this.store = new Store();
+  }
+
+  /**
+   * Load an RDF/XML document into the store
+   *
+   * @param content - RDF/XML text
+   * @param baseIri - Base IRI used to resolve rdf:ID and relative references
+   */
+  loadRdfXml(content: string, baseIri: string): void {
+    this.getStore().load(content, {
+      format: 'application/rdf+xml',
+      base_iri: baseIri,
+      lenient: true
+    });
+  }
+
+  /**
+   * Number of triples in the store
+   */
+  get size(): number {
+    return this.store ? this.store.size : 0;
+  }
+
+  /**
+   * Execute a SPARQL SELECT or ASK query
+   *
+   * @param query - SPARQL query
+   * @returns Results in the SPARQL 1.1 JSON results format
+   */
+  async executeQuery(query: string): Promise<SparqlResults> {
+    const json = this.getStore().query(query, { results_format: 'json' });
+    return JSON.parse(json as string);
+  }
+
+  /**
+   * Execute a SPARQL update
+   *
+   * @param update - SPARQL update
+   */
+  async executeUpdate(update: string): Promise<void> {
+    this.getStore().update(update);
+  }
+
+  private getStore(): Store {
+    if (!this.store) {
+      throw new Error('Local RDF store not opened');
+    }
+    return this.store;
+  }
+}
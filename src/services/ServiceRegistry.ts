@@ -11,6 +11,18 @@ import { TooltipService } from '@/features/tooltips/TooltipService';
 import { AppConfig } from '@/core/config/AppConfig';
 import { GluePointQueryBuilder } from '@/queries/GluePointQueryBuilder';
 import { GluePointService } from '@/features/gluepoints/GluePointService';
+import { HistoryService } from '@/features/history/HistoryService';
+import { FileQueryBuilder } from '@/queries/FileQueryBuilder';
+import { TopologyQueryBuilder } from '@/queries/TopologyQueryBuilder';
+import { FileService } from '@/features/files/FileService';
+import { LayoutService } from '@/features/layout/LayoutService';
+import { RoutingService } from '@/features/routing/RoutingService';
+import { ValidationService } from '@/features/validation/ValidationService';
+import { PrintService } from '@/features/print/PrintService';
+import { ConflictService } from '@/features/conflicts/ConflictService';
+import { ConnectionService } from '@/features/connection/ConnectionService';
+import { GraphService } from '@/features/graphs/GraphService';
+import { RepositoryManager } from './repositories/RepositoryManager';
 
 /**
  * Registry for application services
@@ -25,6 +37,19 @@ class ServiceRegistry {
   private readonly objectQueryBuilder = new ObjectQueryBuilder();
   private readonly tooltipQueryBuilder = new TooltipQueryBuilder();
   private readonly gluePointQueryBuilder = new GluePointQueryBuilder();
+  private readonly fileQueryBuilder = new FileQueryBuilder();
+  private readonly topologyQueryBuilder = new TopologyQueryBuilder();
+  
+  // Storage backend
+  private readonly _repositoryManager = new RepositoryManager(this.sparqlService, {
+    diagram: this.diagramQueryBuilder,
+    point: this.pointQueryBuilder,
+    object: this.objectQueryBuilder,
+    gluePoint: this.gluePointQueryBuilder,
+    tooltip: this.tooltipQueryBuilder,
+    file: this.fileQueryBuilder,
+    topology: this.topologyQueryBuilder
+  });
   
   // Feature Services
   private readonly _diagramService: DiagramService;
@@ -32,41 +57,94 @@ class ServiceRegistry {
   private readonly _objectService: ObjectService;
   private readonly _tooltipService: TooltipService;
   private readonly _gluePointService: GluePointService;
+  private readonly _historyService: HistoryService;
+  private readonly _conflictService: ConflictService;
+  private readonly _fileService: FileService;
+  private readonly _layoutService: LayoutService;
+  private readonly _routingService: RoutingService;
+  private readonly _validationService: ValidationService;
+  private readonly _printService: PrintService;
+  private readonly _connectionService: ConnectionService;
+  private readonly _graphService: GraphService;
   
   constructor() {
     // Initialize services with dependencies
     this._diagramService = new DiagramService(
-      this.sparqlService,
-      this.diagramQueryBuilder
+      this.repositoryManager
     );
     
-    this._pointService = new PointService(
-      this.sparqlService,
-      this.pointQueryBuilder,
-      this.objectQueryBuilder,
+    this._historyService = new HistoryService(
+      this.diagramService
+    );
+    
+    this._conflictService = new ConflictService(
+      this.repositoryManager,
       this.diagramService
     );
     
+    this._pointService = new PointService(
+      this.repositoryManager,
+      this.diagramService,
+      this.historyService,
+      this.conflictService
+    );
+    
     this._objectService = new ObjectService(
-      this.sparqlService,
+      this.repositoryManager,
       this.diagramService,
-      this.objectQueryBuilder,
-      this.pointQueryBuilder
+      this.historyService
     );
     
     this._tooltipService = new TooltipService(
-      this.sparqlService,
-      this.tooltipQueryBuilder
+      this.repositoryManager
     );
 
     this._gluePointService = new GluePointService(
-      this.sparqlService,
-      this.gluePointQueryBuilder,
+      this.repositoryManager,
+      this.diagramService,
+      this.historyService
+    );
+
+    this._fileService = new FileService(
+      this.repositoryManager,
+      this.diagramService
+    );
+
+    this._layoutService = new LayoutService(
+      this.repositoryManager,
+      this.diagramService,
+      this.historyService
+    );
+
+    this._routingService = new RoutingService(
+      this.repositoryManager,
+      this.diagramService,
+      this.historyService
+    );
+
+    this._validationService = new ValidationService(
+      this.repositoryManager,
+      this.diagramService,
+      this.historyService
+    );
+
+    this._printService = new PrintService(
+      this.repositoryManager
+    );
+
+    this._connectionService = new ConnectionService();
+
+    this._graphService = new GraphService(
+      this.repositoryManager,
       this.diagramService
     );
   }
   
   // Expose services as getters
+  get repositoryManager(): RepositoryManager {
+    return this._repositoryManager;
+  }
+  
   get diagramService(): DiagramService {
     return this._diagramService;
   }
@@ -86,6 +164,42 @@ class ServiceRegistry {
   get gluePointService(): GluePointService {
     return this._gluePointService;
   }
+
+  get historyService(): HistoryService {
+    return this._historyService;
+  }
+
+  get conflictService(): ConflictService {
+    return this._conflictService;
+  }
+
+  get fileService(): FileService {
+    return this._fileService;
+  }
+
+  get layoutService(): LayoutService {
+    return this._layoutService;
+  }
+
+  get routingService(): RoutingService {
+    return this._routingService;
+  }
+
+  get validationService(): ValidationService {
+    return this._validationService;
+  }
+
+  get printService(): PrintService {
+    return this._printService;
+  }
+
+  get connectionService(): ConnectionService {
+    return this._connectionService;
+  }
+
+  get graphService(): GraphService {
+    return this._graphService;
+  }
 }
 
 // Create and export a singleton instance
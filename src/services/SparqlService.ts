@@ -1,18 +1,23 @@
 import type { 
+  ConnectionProfile,
   SparqlResults 
 } from '@/core/models/types';
-import { SparqlOperationType } from '@/core/models/types';
+import { SparqlOperationType, SparqlQueryMethod } from '@/core/models/types';
 import { 
   getSparqlUpdateEndpoint, 
   isValidEndpoint 
 } from './utils/sparql-utils';
+import { buildRequestHeaders } from './utils/http-utils';
+import type { SparqlExecutor } from './repositories/SparqlDiagramRepository';
 
 /**
  * Service for handling SPARQL requests
  */
-export class SparqlService {
+export class SparqlService implements SparqlExecutor {
   private endpoint: string;
   private updateEndpoint: string;
+  private queryMethod: SparqlQueryMethod = SparqlQueryMethod.POST;
+  private requestHeaders: Record<string, string> = {};
 
   /**
    * Create a new SPARQL service
@@ -31,14 +36,33 @@ export class SparqlService {
    * Set the SPARQL endpoint URL
    * 
    * @param endpoint - Endpoint URL
+   * @param updateEndpoint - Update endpoint URL, the endpoint followed by /update if omitted
    */
-  setEndpoint(endpoint: string): void {
+  setEndpoint(endpoint: string, updateEndpoint: string = getSparqlUpdateEndpoint(endpoint)): void {
     if (!isValidEndpoint(endpoint)) {
       throw new Error('Invalid SPARQL endpoint URL');
     }
+    if (!isValidEndpoint(updateEndpoint)) {
+      throw new Error('Invalid SPARQL update endpoint URL');
+    }
     
     this.endpoint = endpoint;
-    this.updateEndpoint = getSparqlUpdateEndpoint(endpoint);
+    this.updateEndpoint = updateEndpoint;
+  }
+  
+  /**
+   * Set the endpoint with the update URL, query method and headers of its connection profile
+   * 
+   * @param endpoint - Endpoint URL
+   * @param profile - Connection profile of the endpoint, null for the defaults
+   */
+  useConnectionProfile(endpoint: string, profile: ConnectionProfile | null): void {
+    const updateEndpoint = profile?.updateEndpoint.trim() ||
+      getSparqlUpdateEndpoint(endpoint, profile?.serverType);
+    
+    this.setEndpoint(endpoint, updateEndpoint);
+    this.queryMethod = profile?.queryMethod ?? SparqlQueryMethod.POST;
+    this.requestHeaders = buildRequestHeaders(profile);
   }
   
   /**
@@ -124,11 +148,21 @@ export class SparqlService {
     type: SparqlOperationType
   ): Promise<Response> {
     const headers: Record<string, string> = {
+      ...this.requestHeaders,
       'Content-Type': 'application/x-www-form-urlencoded'
     };
     
     if (type === SparqlOperationType.QUERY) {
       headers['Accept'] = 'application/sparql-results+json';
+      
+      // Query via GET has no body, so it needs no Content-Type
+      if (this.queryMethod === SparqlQueryMethod.GET) {
+        delete headers['Content-Type'];
+        return fetch(`${endpoint}${endpoint.includes('?') ? '&' : '?'}${paramName}=${encodeURIComponent(query)}`, {
+          method: 'GET',
+          headers
+        });
+      }
     }
     
     return fetch(endpoint, {
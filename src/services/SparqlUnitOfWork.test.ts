@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { SparqlUnitOfWork } from './SparqlUnitOfWork';
+import type { SparqlExecutor } from './repositories/SparqlDiagramRepository';
+
+function recordingExecutor(): SparqlExecutor & { updates: string[] } {
+  const updates: string[] = [];
+  return {
+    updates,
+    executeQuery: async () => ({ head: { vars: [] }, results: { bindings: [] } }),
+    executeUpdate: async update => {
+      updates.push(update);
+    }
+  };
+}
+
+describe('SparqlUnitOfWork', () => {
+  it('holds updates back until commit', async () => {
+    const executor = recordingExecutor();
+    const unitOfWork = new SparqlUnitOfWork(executor);
+
+    await unitOfWork.executeUpdate('INSERT DATA { <urn:a> <urn:p> 1 }');
+
+    expect(executor.updates).toEqual([]);
+  });
+
+  it('joins the updates with " ;" into one request', async () => {
+    const executor = recordingExecutor();
+    const unitOfWork = new SparqlUnitOfWork(executor);
+
+    await unitOfWork.executeUpdate('INSERT DATA { <urn:a> <urn:p> 1 }');
+    await unitOfWork.executeUpdate('DELETE DATA { <urn:b> <urn:p> 2 }');
+    await unitOfWork.commit();
+
+    expect(executor.updates).toEqual([
+      'INSERT DATA { <urn:a> <urn:p> 1 } ;\nDELETE DATA { <urn:b> <urn:p> 2 }'
+    ]);
+  });
+
+  it('declares each prefix once at the start of the request', async () => {
+    const executor = recordingExecutor();
+    const unitOfWork = new SparqlUnitOfWork(executor);
+
+    await unitOfWork.executeUpdate(`
+      PREFIX cim: <http://iec.ch/TC57/CIM100#>
+      PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+      INSERT DATA { <urn:a> rdf:type cim:DiagramObject }`);
+    await unitOfWork.executeUpdate(`
+      prefix cim: <http://iec.ch/TC57/CIM100#>
+      DELETE DATA { <urn:b> cim:DiagramObject.name "b" }`);
+    await unitOfWork.commit();
+
+    expect(executor.updates).toEqual([
+      'PREFIX cim: <http://iec.ch/TC57/CIM100#>\n' +
+      'PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>\n' +
+      'INSERT DATA { <urn:a> rdf:type cim:DiagramObject } ;\n' +
+      'DELETE DATA { <urn:b> cim:DiagramObject.name "b" }'
+    ]);
+  });
+
+  it('rejects a prefix declared for two IRIs', async () => {
+    const unitOfWork = new SparqlUnitOfWork(recordingExecutor());
+
+    await unitOfWork.executeUpdate('PREFIX cim: <http://iec.ch/TC57/CIM100#> INSERT DATA { <urn:a> <urn:p> 1 }');
+
+    await expect(unitOfWork.executeUpdate('PREFIX cim: <http://iec.ch/TC57/2013/CIM-schema-cim16#> INSERT DATA { <urn:b> <urn:p> 2 }'))
+      .rejects.toThrow('Prefix "cim:" is declared for both <http://iec.ch/TC57/CIM100#> and <http://iec.ch/TC57/2013/CIM-schema-cim16#>');
+  });
+
+  it('sends nothing after a rollback', async () => {
+    const executor = recordingExecutor();
+    const unitOfWork = new SparqlUnitOfWork(executor);
+
+    await unitOfWork.executeUpdate('PREFIX cim: <http://iec.ch/TC57/CIM100#> INSERT DATA { <urn:a> <urn:p> 1 }');
+    unitOfWork.rollback();
+    await unitOfWork.commit();
+
+    expect(executor.updates).toEqual([]);
+  });
+
+  it('starts empty again after a commit', async () => {
+    const executor = recordingExecutor();
+    const unitOfWork = new SparqlUnitOfWork(executor);
+
+    await unitOfWork.executeUpdate('PREFIX cim: <http://iec.ch/TC57/CIM100#> INSERT DATA { <urn:a> <urn:p> 1 }');
+    await unitOfWork.commit();
+    unitOfWork.rollback();
+    await unitOfWork.commit();
+
+    // A prefix of the committed request may be bound again
+    await unitOfWork.executeUpdate('PREFIX cim: <http://iec.ch/TC57/2013/CIM-schema-cim16#> INSERT DATA { <urn:b> <urn:p> 2 }');
+    await unitOfWork.commit();
+
+    expect(executor.updates).toEqual([
+      'PREFIX cim: <http://iec.ch/TC57/CIM100#>\nINSERT DATA { <urn:a> <urn:p> 1 }',
+      'PREFIX cim: <http://iec.ch/TC57/2013/CIM-schema-cim16#>\nINSERT DATA { <urn:b> <urn:p> 2 }'
+    ]);
+  });
+
+  it('answers queries right away', async () => {
+    const executor = recordingExecutor();
+    const unitOfWork = new SparqlUnitOfWork(executor);
+
+    await expect(unitOfWork.executeQuery('SELECT * WHERE { ?s ?p ?o }'))
+      .resolves.toEqual({ head: { vars: [] }, results: { bindings: [] } });
+  });
+});
@@ -0,0 +1,68 @@
+import type { SparqlResults } from '@/core/models/types';
+import type { SparqlExecutor } from './repositories/SparqlDiagramRepository';
+
+// Prefix declaration at the start of an update
+const PREFIX_PATTERN = /^\s*PREFIX\s+([\w.-]*):\s*<([^>]*)>/i;
+
+/**
+ * Executor collecting the SPARQL updates of one user action
+ *
+ * Updates are held back until commit, which sends them as a single update
+ * request with the operations separated by ";". SPARQL 1.1 Update asks
+ * endpoints to apply a request atomically, so either all operations are stored
+ * or none. Queries are answered right away and do not see the collected updates.
+ *
+ * The prefixes of all updates are declared once at the start of the request,
+ * as not every store accepts declarations between operations.
+ */
+export class SparqlUnitOfWork implements SparqlExecutor {
+  private prefixes = new Map<string, string>();
+  private updates: string[] = [];
+
+  /**
+   * @param executor - Executor the collected updates are sent to
+   */
+  constructor(private executor: SparqlExecutor) {}
+
+  async executeQuery(query: string): Promise<SparqlResults> {
+    return await this.executor.executeQuery(query);
+  }
+
+  async executeUpdate(update: string): Promise<void> {
+    let operation = update;
+    let match: RegExpMatchArray | null;
+
+    while ((match = operation.match(PREFIX_PATTERN))) {
+      const [declaration, name, iri] = match;
+      const declared = this.prefixes.get(name);
+      if (declared !== undefined && declared !== iri) {
+        throw new Error(`Prefix "${name}:" is declared for both <${declared}> and <${iri}>`);
+      }
+
+      this.prefixes.set(name, iri);
+      operation = operation.slice(declaration.length);
+    }
+
+    this.updates.push(operation.trim());
+  }
+
+  /**
+   * Send the collected updates as one request
+   */
+  async commit(): Promise<void> {
+    if (this.updates.length === 0) return;
+
+    const prologue = Array.from(this.prefixes, ([name, iri]) => `PREFIX ${name}: <${iri}>\n`).join('');
+    const request = prologue + this.updates.join(' ;\n');
+    this.rollback();
+    await this.executor.executeUpdate(request);
+  }
+
+  /**
+   * Discard the collected updates without sending them
+   */
+  rollback(): void {
+    this.prefixes.clear();
+    this.updates = [];
+  }
+}
@@ -0,0 +1,148 @@
+import type {
+  CGMESVersion,
+  DeltaVector,
+  DiagramObjectAttributes,
+  DiagramObjectStyleData,
+  IdentifiedObjectData,
+  MovePointsByDeltaData,
+  NewDiagramData,
+  NewDiagramObjectData,
+  Point2D,
+  PointAttributes,
+  RepositoryType,
+  SparqlDiagramData,
+  TopologyEquipmentData
+} from '@/core/models/types';
+import type { DiagramModel } from '@/core/models/DiagramModel';
+
+/**
+ * Data for a point to be inserted into a diagram object
+ */
+export interface NewPointData {
+  iri: string;
+  objectIri: string;
+  x: number;
+  y: number;
+  sequenceNumber: number;
+}
+
+/**
+ * New sequence number of a point
+ */
+export interface SequenceNumberData {
+  iri: string;
+  sequenceNumber: number;
+}
+
+/**
+ * IRIs created when cloning diagram objects
+ */
+export interface ClonedObjectsData {
+  objectIris: string[];
+  pointIris: string[];
+  // Original IRIs mapped to the IRIs of their clones, the diagram is reloaded without them
+  objectMapping?: Record<string, string>;
+  pointMapping?: Record<string, string>;
+  gluePointMapping?: Record<string, string>;
+}
+
+/**
+ * Additional properties of a point and its diagram object shown in tooltips
+ */
+export interface PointDetailsData {
+  diagramObjectIri: string;
+  objectName?: string;
+  pointName?: string;
+  zPosition?: number;
+  offsetX?: number;
+  offsetY?: number;
+  rotation?: number;
+  styleIri?: string;
+  styleName?: string;
+}
+
+/**
+ * Captured state of diagram elements, only meaningful to the repository that created it
+ */
+export interface RepositorySnapshot {
+  readonly type: RepositoryType;
+  readonly data: unknown;
+}
+
+/**
+ * Storage backend for diagram layouts
+ *
+ * Domain services only talk to the repository, so they do not depend
+ * on how diagrams are stored or which query language a backend speaks.
+ * The CIM namespace is passed along for backends that store CIM data as RDF.
+ */
+export interface DiagramRepository {
+  readonly type: RepositoryType;
+
+  // Reading
+  listDiagrams(cimNamespace: string): Promise<SparqlDiagramData[]>;
+  loadDiagramLayout(diagramIri: string, cimNamespace: string): Promise<DiagramModel>;
+  loadPointDetails(pointIri: string, cimNamespace: string): Promise<PointDetailsData | null>;
+  loadPointPositions(pointIris: string[], cimNamespace: string): Promise<Map<string, Point2D>>;
+  listObjectStyles(cimNamespace: string): Promise<DiagramObjectStyleData[]>;
+  searchEquipment(searchTerm: string, cimNamespace: string): Promise<IdentifiedObjectData[]>;
+  loadTopology(diagramIri: string, cimNamespace: string): Promise<TopologyEquipmentData[]>;
+  listObjectsWithoutPoints(diagramIri: string, cimNamespace: string): Promise<IdentifiedObjectData[]>;
+  // Named graphs of the store, empty for backends without them
+  listNamedGraphs(): Promise<string[]>;
+
+  // Why edits of a diagram cannot be stored, null if they can. Until the next
+  // check, updates are refused if they cannot.
+  checkDiagramWritable(diagramIri: string, cimNamespace: string): Promise<string | null>;
+
+  // Diagrams
+  createDiagram(diagram: NewDiagramData, cimNamespace: string): Promise<void>;
+
+  // Points
+  insertPoint(point: NewPointData, cimNamespace: string): Promise<void>;
+  deletePoint(pointIri: string, cimNamespace: string): Promise<void>;
+  updateSequenceNumbers(points: SequenceNumberData[], cimNamespace: string): Promise<void>;
+  movePointsByVector(pointsAndVector: MovePointsByDeltaData, cimNamespace: string): Promise<void>;
+  // Points not at their expected positions, if given, are left unchanged
+  updatePointPositions(
+    pointIris: string[],
+    positions: Point2D[],
+    cimNamespace: string,
+    expectedPositions?: Point2D[]
+  ): Promise<void>;
+  updatePointAttributes(pointIris: string[], attributes: PointAttributes, cimNamespace: string): Promise<void>;
+
+  // Diagram objects
+  createDiagramObject(object: NewDiagramObjectData, cimNamespace: string): Promise<void>;
+  updatePolygonProperty(objectIri: string, isPolygon: boolean, cimNamespace: string): Promise<void>;
+  updateObjectAttributes(
+    objectIris: string[],
+    attributes: DiagramObjectAttributes,
+    cimNamespace: string
+  ): Promise<void>;
+  cloneObjects(
+    diagramIri: string,
+    objectIris: string[],
+    offset: DeltaVector,
+    cimNamespace: string
+  ): Promise<ClonedObjectsData>;
+  deleteObjects(objectIris: string[], cimNamespace: string): Promise<void>;
+
+  // Glue points
+  createGluePoint(gluePointIri: string, pointIris: string[], cimNamespace: string): Promise<void>;
+  removeGluePoint(gluePointIri: string, cimNamespace: string): Promise<void>;
+  addPointToGluePoint(pointIri: string, gluePointIri: string, cimNamespace: string): Promise<void>;
+  removePointFromGluePoint(pointIri: string, gluePointIri: string, cimNamespace: string): Promise<void>;
+
+  // Snapshots for undoing deletions
+  snapshotPoint(pointIri: string, cimNamespace: string): Promise<RepositorySnapshot>;
+  snapshotObjects(objectIris: string[], cimNamespace: string): Promise<RepositorySnapshot>;
+  restoreSnapshot(snapshot: RepositorySnapshot): Promise<void>;
+
+  // Export
+  exportDiagramLayout(version: CGMESVersion): Promise<string>;
+
+  // Runs the writes of one user action against the given repository, storing all or none of them
+  // where the store supports it. Reads inside the work may not see its writes yet.
+  transaction<T>(work: (repository: DiagramRepository) => Promise<T>): Promise<T>;
+}
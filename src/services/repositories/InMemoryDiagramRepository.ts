@@ -0,0 +1,26 @@
+import { RepositoryType } from '@/core/models/types';
+import type { LocalRdfStore } from '../LocalRdfStore';
+import { SparqlDiagramRepository, type SparqlQueryBuilders } from './SparqlDiagramRepository';
+
+/**
+ * Repository keeping diagram layouts in an in-browser RDF store
+ *
+ * Uses the same SPARQL queries as an endpoint, answered by the local store.
+ */
+export class InMemoryDiagramRepository extends SparqlDiagramRepository {
+  readonly type: RepositoryType = RepositoryType.IN_MEMORY;
+
+  constructor(
+      private store: LocalRdfStore,
+      queryBuilders: SparqlQueryBuilders
+  ) {
+    super(store, queryBuilders);
+  }
+
+  /**
+   * Number of triples held in memory
+   */
+  get size(): number {
+    return this.store.size;
+  }
+}
@@ -0,0 +1,94 @@
+import type { ConnectionProfile, GraphScope } from '@/core/models/types';
+import { SparqlService } from '../SparqlService';
+import type { LocalRdfStore } from '../LocalRdfStore';
+import type { DiagramRepository } from './DiagramRepository';
+import { SparqlDiagramRepository, type SparqlQueryBuilders } from './SparqlDiagramRepository';
+import { InMemoryDiagramRepository } from './InMemoryDiagramRepository';
+import { RestDiagramRepository } from './RestDiagramRepository';
+import { buildRequestHeaders } from '../utils/http-utils';
+import { DEFAULT_GRAPH_SCOPE } from '../utils/sparql-graphs';
+
+/**
+ * Holds the repository the editor currently works on
+ *
+ * Services resolve the repository on every operation, so switching
+ * the backend takes effect without recreating them.
+ */
+export class RepositoryManager {
+  private active: DiagramRepository;
+  private activeLocation: string;
+
+  constructor(
+      private sparqlService: SparqlService,
+      private queryBuilders: SparqlQueryBuilders
+  ) {
+    this.active = new SparqlDiagramRepository(sparqlService, queryBuilders);
+    this.activeLocation = sparqlService.getEndpoint();
+  }
+
+  /**
+   * Repository currently in use
+   */
+  get current(): DiagramRepository {
+    return this.active;
+  }
+
+  /**
+   * Where the current repository stores its data, e.g. the endpoint URL
+   */
+  get location(): string {
+    return `${this.active.type}:${this.activeLocation}`;
+  }
+
+  /**
+   * Work on a SPARQL 1.1 endpoint
+   *
+   * @param endpoint - SPARQL endpoint URL
+   * @param profile - Update URL, query method and authentication of the endpoint, if saved
+   * @param graphs - Named graphs to read from and write to, the default graph if none are chosen
+   */
+  connectSparqlEndpoint(
+    endpoint: string,
+    profile: ConnectionProfile | null = null,
+    graphs: GraphScope = DEFAULT_GRAPH_SCOPE
+  ): void {
+    this.sparqlService.useConnectionProfile(endpoint, profile);
+    this.active = new SparqlDiagramRepository(this.sparqlService, this.queryBuilders, graphs);
+    // Edits recorded in one graph cannot be undone in another
+    this.activeLocation = graphs.targetGraph ? `${endpoint} <${graphs.targetGraph}>` : endpoint;
+  }
+
+  /**
+   * Repository on a SPARQL 1.1 endpoint that is not worked on, e.g. to list its named graphs
+   *
+   * @param endpoint - SPARQL endpoint URL
+   * @param profile - Update URL, query method and authentication of the endpoint, if saved
+   */
+  inspectSparqlEndpoint(endpoint: string, profile: ConnectionProfile | null = null): DiagramRepository {
+    const sparqlService = new SparqlService('');
+    sparqlService.useConnectionProfile(endpoint, profile);
+    return new SparqlDiagramRepository(sparqlService, this.queryBuilders);
+  }
+
+  /**
+   * Work on a REST/JSON backend
+   *
+   * @param baseUrl - Base URL of the API
+   * @param profile - Authentication of the API, if saved
+   */
+  connectRestApi(baseUrl: string, profile: ConnectionProfile | null = null): void {
+    this.active = new RestDiagramRepository(baseUrl, buildRequestHeaders(profile));
+    this.activeLocation = baseUrl;
+  }
+
+  /**
+   * Work on an in-browser RDF store
+   *
+   * @param store - Opened store with loaded data
+   * @param description - Description of the loaded data, e.g. file names
+   */
+  useInMemoryStore(store: LocalRdfStore, description: string): void {
+    this.active = new InMemoryDiagramRepository(store, this.queryBuilders);
+    this.activeLocation = description;
+  }
+}
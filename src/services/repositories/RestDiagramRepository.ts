@@ -0,0 +1,261 @@
+import type {
+  CGMESVersion,
+  DeltaVector,
+  DiagramLayoutData,
+  DiagramObjectAttributes,
+  DiagramObjectStyleData,
+  IdentifiedObjectData,
+  MovePointsByDeltaData,
+  NewDiagramData,
+  NewDiagramObjectData,
+  Point2D,
+  PointAttributes,
+  SparqlDiagramData,
+  TopologyEquipmentData
+} from '@/core/models/types';
+import { RepositoryType } from '@/core/models/types';
+import { DiagramModel } from '@/core/models/DiagramModel';
+import { isValidEndpoint } from '../utils/sparql-utils';
+import type {
+  ClonedObjectsData,
+  DiagramRepository,
+  NewPointData,
+  PointDetailsData,
+  RepositorySnapshot,
+  SequenceNumberData
+} from './DiagramRepository';
+
+/**
+ * Repository backed by a REST/JSON API
+ *
+ * Every repository operation maps to one HTTP request relative to the base URL,
+ * see the REST backend section of the README for the expected routes.
+ * The server is responsible for its data model, so CIM namespaces are not sent.
+ */
+export class RestDiagramRepository implements DiagramRepository {
+  readonly type: RepositoryType = RepositoryType.REST;
+  private baseUrl: string;
+
+  /**
+   * Create a new REST repository
+   *
+   * @param baseUrl - Base URL of the API
+   * @param requestHeaders - Headers sent with every request, e.g. for authentication
+   */
+  constructor(baseUrl: string, private requestHeaders: Record<string, string> = {}) {
+    if (!isValidEndpoint(baseUrl)) {
+      throw new Error('Invalid REST API base URL');
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async listDiagrams(): Promise<SparqlDiagramData[]> {
+    return await this.request<SparqlDiagramData[]>('GET', '/diagrams');
+  }
+
+  async loadDiagramLayout(diagramIri: string): Promise<DiagramModel> {
+    const layout = await this.request<DiagramLayoutData>('GET', `/diagrams/layout?diagram=${encodeURIComponent(diagramIri)}`);
+    return DiagramModel.fromLayoutData(layout);
+  }
+
+  async loadPointDetails(pointIri: string): Promise<PointDetailsData | null> {
+    return await this.request<PointDetailsData | null>('GET', `/points/details?point=${encodeURIComponent(pointIri)}`);
+  }
+
+  async loadPointPositions(pointIris: string[]): Promise<Map<string, Point2D>> {
+    const points = await this.request<Array<{ iri: string } & Point2D>>('POST', '/points/positions/query', { pointIris });
+    return new Map(points.map(point => [point.iri, { x: point.x, y: point.y }]));
+  }
+
+  async listObjectStyles(): Promise<DiagramObjectStyleData[]> {
+    return await this.request<DiagramObjectStyleData[]>('GET', '/styles');
+  }
+
+  async searchEquipment(searchTerm: string): Promise<IdentifiedObjectData[]> {
+    return await this.request<IdentifiedObjectData[]>('GET', `/equipment?search=${encodeURIComponent(searchTerm)}`);
+  }
+
+  async loadTopology(diagramIri: string): Promise<TopologyEquipmentData[]> {
+    return await this.request<TopologyEquipmentData[]>('GET', `/topology?diagram=${encodeURIComponent(diagramIri)}`);
+  }
+
+  async listObjectsWithoutPoints(diagramIri: string): Promise<IdentifiedObjectData[]> {
+    return await this.request<IdentifiedObjectData[]>('GET', `/diagrams/empty-objects?diagram=${encodeURIComponent(diagramIri)}`);
+  }
+
+  /**
+   * The API stores diagrams without named graphs
+   */
+  async listNamedGraphs(): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * The API stores every diagram it lists
+   */
+  async checkDiagramWritable(): Promise<string | null> {
+    return null;
+  }
+
+  async createDiagram(diagram: NewDiagramData): Promise<void> {
+    await this.request('POST', '/diagrams', diagram);
+  }
+
+  async insertPoint(point: NewPointData): Promise<void> {
+    await this.request('POST', '/points', point);
+  }
+
+  async deletePoint(pointIri: string): Promise<void> {
+    await this.request('POST', '/points/delete', { pointIri });
+  }
+
+  async updateSequenceNumbers(points: SequenceNumberData[]): Promise<void> {
+    await this.request('POST', '/points/sequence', { points });
+  }
+
+  async movePointsByVector(pointsAndVector: MovePointsByDeltaData): Promise<void> {
+    await this.request('POST', '/points/move', pointsAndVector);
+  }
+
+  async updatePointPositions(
+      pointIris: string[],
+      positions: Point2D[],
+      _cimNamespace?: string,
+      expectedPositions?: Point2D[]
+  ): Promise<void> {
+    await this.request('POST', '/points/positions', { pointIris, positions, expectedPositions });
+  }
+
+  async updatePointAttributes(pointIris: string[], attributes: PointAttributes): Promise<void> {
+    await this.request('POST', '/points/attributes', { pointIris, attributes });
+  }
+
+  async createDiagramObject(object: NewDiagramObjectData): Promise<void> {
+    await this.request('POST', '/objects', object);
+  }
+
+  async updatePolygonProperty(objectIri: string, isPolygon: boolean): Promise<void> {
+    await this.request('POST', '/objects/polygon', { objectIri, isPolygon });
+  }
+
+  async updateObjectAttributes(objectIris: string[], attributes: DiagramObjectAttributes): Promise<void> {
+    await this.request('POST', '/objects/attributes', { objectIris, attributes });
+  }
+
+  async cloneObjects(diagramIri: string, objectIris: string[], offset: DeltaVector): Promise<ClonedObjectsData> {
+    return await this.request<ClonedObjectsData>('POST', '/objects/clone', { diagramIri, objectIris, offset });
+  }
+
+  async deleteObjects(objectIris: string[]): Promise<void> {
+    await this.request('POST', '/objects/delete', { objectIris });
+  }
+
+  async createGluePoint(gluePointIri: string, pointIris: string[]): Promise<void> {
+    await this.request('POST', '/glue-points', { gluePointIri, pointIris });
+  }
+
+  async removeGluePoint(gluePointIri: string): Promise<void> {
+    await this.request('POST', '/glue-points/delete', { gluePointIri });
+  }
+
+  async addPointToGluePoint(pointIri: string, gluePointIri: string): Promise<void> {
+    await this.request('POST', '/glue-points/add-point', { pointIri, gluePointIri });
+  }
+
+  async removePointFromGluePoint(pointIri: string, gluePointIri: string): Promise<void> {
+    await this.request('POST', '/glue-points/remove-point', { pointIri, gluePointIri });
+  }
+
+  async snapshotPoint(pointIri: string): Promise<RepositorySnapshot> {
+    const data = await this.request<unknown>('POST', '/snapshots', { pointIris: [pointIri] });
+    return { type: this.type, data };
+  }
+
+  async snapshotObjects(objectIris: string[]): Promise<RepositorySnapshot> {
+    const data = await this.request<unknown>('POST', '/snapshots', { objectIris });
+    return { type: this.type, data };
+  }
+
+  async restoreSnapshot(snapshot: RepositorySnapshot): Promise<void> {
+    if (snapshot.type !== this.type) {
+      throw new Error('Snapshot was taken from a different repository');
+    }
+
+    await this.request('POST', '/snapshots/restore', snapshot.data);
+  }
+
+  async exportDiagramLayout(version: CGMESVersion): Promise<string> {
+    const response = await this.send(
+        'GET',
+        `/export/diagram-layout?version=${encodeURIComponent(version)}`,
+        undefined,
+        'application/rdf+xml'
+    );
+    return await response.text();
+  }
+
+  /**
+   * Run the work with one request per operation
+   *
+   * The API has no transactions, operations completed before a failure stay
+   * stored. The error says so, as the edit may be stored in part.
+   */
+  async transaction<T>(work: (repository: DiagramRepository) => Promise<T>): Promise<T> {
+    try {
+      return await work(this);
+    } catch (error) {
+      throw new Error(`Changes made before the failure may be saved: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON response
+   */
+  private async request<T = void>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body);
+
+    // Operations without a result may answer with an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+
+  private async send(
+      method: 'GET' | 'POST',
+      path: string,
+      body?: unknown,
+      accept: string = 'application/json'
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      ...this.requestHeaders,
+      'Accept': accept
+    };
+
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`REST request failed: ${response.status} ${response.statusText}\n${errorText}`);
+      }
+
+      return response;
+    } catch (error) {
+      console.error('REST request error:', {
+        message: error instanceof Error ? error.message : String(error),
+        method,
+        path,
+        timestamp: new Date().toISOString()
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,529 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DeltaVector,
+  DiagramObjectAttributes,
+  DiagramObjectStyleData,
+  IdentifiedObjectData,
+  MovePointsByDeltaData,
+  NewDiagramData,
+  NewDiagramObjectData,
+  Point2D,
+  PointAttributes,
+  SparqlDiagramData,
+  GraphScope,
+  SparqlResults,
+  TopologyEquipmentData
+} from '@/core/models/types';
+import { CGMESVersion, DiagramOrientation, RepositoryType } from '@/core/models/types';
+import { DiagramModel } from '@/core/models/DiagramModel';
+import { AppConfig } from '@/core/config/AppConfig';
+import type { DiagramQueryBuilder } from '@/queries/DiagramQueryBuilder';
+import type { PointQueryBuilder } from '@/queries/PointQueryBuilder';
+import type { ObjectQueryBuilder } from '@/queries/ObjectQueryBuilder';
+import type { GluePointQueryBuilder } from '@/queries/GluePointQueryBuilder';
+import type { TooltipQueryBuilder } from '@/queries/TooltipQueryBuilder';
+import type { FileQueryBuilder } from '@/queries/FileQueryBuilder';
+import type { TopologyQueryBuilder } from '@/queries/TopologyQueryBuilder';
+import { bindingToTriple } from '../utils/sparql-utils';
+import type { SparqlFragment } from '../utils/sparql-terms';
+import { DEFAULT_GRAPH_SCOPE } from '../utils/sparql-graphs';
+import { SparqlUnitOfWork } from '../SparqlUnitOfWork';
+import { serializeCimXml, withCurrentModelHeader } from '../utils/cimxml-utils';
+import type {
+  ClonedObjectsData,
+  DiagramRepository,
+  NewPointData,
+  PointDetailsData,
+  RepositorySnapshot,
+  SequenceNumberData
+} from './DiagramRepository';
+
+/**
+ * Anything that can answer SPARQL queries and updates
+ */
+export interface SparqlExecutor {
+  executeQuery(query: string): Promise<SparqlResults>;
+  executeUpdate(update: string): Promise<unknown>;
+}
+
+/**
+ * Query builders used by the SPARQL repository
+ */
+export interface SparqlQueryBuilders {
+  diagram: DiagramQueryBuilder;
+  point: PointQueryBuilder;
+  object: ObjectQueryBuilder;
+  gluePoint: GluePointQueryBuilder;
+  tooltip: TooltipQueryBuilder;
+  file: FileQueryBuilder;
+  topology: TopologyQueryBuilder;
+}
+
+/**
+ * Repository storing diagram layouts as CIM RDF, accessed via SPARQL 1.1
+ */
+export class SparqlDiagramRepository implements DiagramRepository {
+  readonly type: RepositoryType = RepositoryType.SPARQL;
+
+  constructor(
+      protected executor: SparqlExecutor,
+      protected queryBuilders: SparqlQueryBuilders,
+      protected graphs: GraphScope = DEFAULT_GRAPH_SCOPE
+  ) {}
+
+  // Why updates of the checked diagram are refused, null if they are stored
+  private readOnlyReason: string | null = null;
+
+  async listDiagrams(cimNamespace: string): Promise<SparqlDiagramData[]> {
+    const query = this.queryBuilders.diagram.buildDiagramsQuery(cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    return response.results.bindings.map(binding => ({
+      iri: binding.diagram.value,
+      name: binding.name ? binding.name.value : binding.diagram.value,
+      orientation: binding.orientation.value as DiagramOrientation,
+      initialView: binding.x1 ? {
+        minX: Math.min(parseFloat(binding.x1.value), parseFloat(binding.x2.value)),
+        minY: Math.min(parseFloat(binding.y1.value), parseFloat(binding.y2.value)),
+        maxX: Math.max(parseFloat(binding.x1.value), parseFloat(binding.x2.value)),
+        maxY: Math.max(parseFloat(binding.y1.value), parseFloat(binding.y2.value))
+      } : undefined
+    }));
+  }
+
+  async loadDiagramLayout(diagramIri: string, cimNamespace: string): Promise<DiagramModel> {
+    const query = this.queryBuilders.diagram.buildDiagramLayoutQuery(diagramIri, cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    return DiagramModel.fromSparqlResults(response);
+  }
+
+  async loadPointDetails(pointIri: string, cimNamespace: string): Promise<PointDetailsData | null> {
+    const query = this.queryBuilders.tooltip.buildPointDetailsQuery(pointIri, cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    const binding = response.results.bindings[0];
+    if (!binding) return null;
+
+    const toNumber = (name: string) => binding[name]?.value !== undefined ? parseFloat(binding[name].value) : undefined;
+
+    return {
+      diagramObjectIri: binding.diagramObject?.value || '',
+      objectName: binding.objectName?.value,
+      pointName: binding.pointName?.value,
+      zPosition: toNumber('zPosition'),
+      offsetX: toNumber('offsetX'),
+      offsetY: toNumber('offsetY'),
+      rotation: toNumber('rotation'),
+      styleIri: binding.style?.value,
+      styleName: binding.styleName?.value
+    };
+  }
+
+  async loadPointPositions(pointIris: string[], cimNamespace: string): Promise<Map<string, Point2D>> {
+    const positions = new Map<string, Point2D>();
+    if (pointIris.length === 0) return positions;
+
+    const response = await this.executor.executeQuery(
+        this.queryBuilders.point.buildPointPositionsQuery(pointIris, cimNamespace, this.graphs)
+    );
+    response.results.bindings.forEach(binding => {
+      positions.set(binding.point.value, { x: parseFloat(binding.x.value), y: parseFloat(binding.y.value) });
+    });
+
+    return positions;
+  }
+
+  async listObjectStyles(cimNamespace: string): Promise<DiagramObjectStyleData[]> {
+    const query = this.queryBuilders.object.buildObjectStylesQuery(cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    return response.results.bindings.map(binding => ({
+      iri: binding.style.value,
+      name: binding.name?.value
+    }));
+  }
+
+  async searchEquipment(searchTerm: string, cimNamespace: string): Promise<IdentifiedObjectData[]> {
+    const query = this.queryBuilders.object.buildEquipmentSearchQuery(
+        searchTerm,
+        AppConfig.drawing.equipmentSearchLimit,
+        cimNamespace,
+        this.graphs
+    );
+    const response = await this.executor.executeQuery(query);
+
+    return response.results.bindings.map(binding => ({
+      iri: binding.equipment.value,
+      className: binding.type.value.substring(cimNamespace.length),
+      name: binding.name?.value
+    }));
+  }
+
+  /**
+   * Collect the terminals of each equipment, one row per terminal and depicting object
+   */
+  async loadTopology(diagramIri: string, cimNamespace: string): Promise<TopologyEquipmentData[]> {
+    const query = this.queryBuilders.topology.buildTopologyQuery(diagramIri, cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    const equipment = new Map<string, TopologyEquipmentData>();
+    response.results.bindings.forEach(binding => {
+      const iri = binding.equipment.value;
+      let entry = equipment.get(iri);
+      if (!entry) {
+        entry = {
+          iri,
+          className: binding.type.value.substring(cimNamespace.length),
+          name: binding.name?.value,
+          nodeIris: [],
+          substationIri: binding.substation?.value,
+          diagramObjectIris: []
+        };
+        equipment.set(iri, entry);
+      }
+
+      if (!entry.nodeIris.includes(binding.node.value)) {
+        entry.nodeIris.push(binding.node.value);
+      }
+      if (binding.diagramObject && !entry.diagramObjectIris.includes(binding.diagramObject.value)) {
+        entry.diagramObjectIris.push(binding.diagramObject.value);
+      }
+    });
+
+    return Array.from(equipment.values());
+  }
+
+  async listObjectsWithoutPoints(diagramIri: string, cimNamespace: string): Promise<IdentifiedObjectData[]> {
+    const query = this.queryBuilders.object.buildObjectsWithoutPointsQuery(diagramIri, cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    return response.results.bindings.map(binding => ({
+      iri: binding.diagramObject.value,
+      className: binding.type.value.substring(cimNamespace.length),
+      name: binding.name?.value
+    }));
+  }
+
+  async listNamedGraphs(): Promise<string[]> {
+    const response = await this.executor.executeQuery(this.queryBuilders.diagram.buildNamedGraphsQuery());
+
+    return response.results.bindings.map(binding => binding.graph.value);
+  }
+
+  /**
+   * Updates only match triples in the target graph, so a diagram read from
+   * another graph could not be changed. Its updates are refused instead of
+   * silently changing nothing.
+   */
+  async checkDiagramWritable(diagramIri: string, cimNamespace: string): Promise<string | null> {
+    this.readOnlyReason = null;
+    if (!this.graphs.targetGraph) return null;
+
+    const query = this.queryBuilders.diagram.buildDiagramInTargetGraphQuery(diagramIri, cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    if (response.results.bindings.length === 0) {
+      this.readOnlyReason = `The diagram is not stored in the graph written to (${this.graphs.targetGraph}). ` +
+        'Choose its graph for writing with "Graphs" to edit it.';
+    }
+    return this.readOnlyReason;
+  }
+
+  async createDiagram(diagram: NewDiagramData, cimNamespace: string): Promise<void> {
+    await this.executor.executeUpdate(this.queryBuilders.diagram.buildCreateDiagramQuery(diagram, cimNamespace, this.graphs));
+  }
+
+  async insertPoint(point: NewPointData, cimNamespace: string): Promise<void> {
+    await this.update(this.queryBuilders.point.buildInsertPointQuery(
+        point.iri,
+        point.objectIri,
+        point.x,
+        point.y,
+        point.sequenceNumber,
+        cimNamespace,
+        this.graphs
+    ));
+  }
+
+  async deletePoint(pointIri: string, cimNamespace: string): Promise<void> {
+    await this.update(this.queryBuilders.point.buildDeletePointQuery(pointIri, cimNamespace, this.graphs));
+  }
+
+  async updateSequenceNumbers(points: SequenceNumberData[], cimNamespace: string): Promise<void> {
+    await this.update(this.queryBuilders.point.buildUpdateSequenceNumbersQuery(points, cimNamespace, this.graphs));
+  }
+
+  async movePointsByVector(pointsAndVector: MovePointsByDeltaData, cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.point.buildUpdateDiagramPointPositionsByVectorQuery(pointsAndVector, cimNamespace, this.graphs)
+    );
+  }
+
+  async updatePointPositions(
+      pointIris: string[],
+      positions: Point2D[],
+      cimNamespace: string,
+      expectedPositions?: Point2D[]
+  ): Promise<void> {
+    await this.update(
+        this.queryBuilders.point.buildUpdateDiagramPointPositionsQuery(
+            pointIris,
+            positions,
+            cimNamespace,
+            this.graphs,
+            expectedPositions,
+            AppConfig.concurrency.positionTolerance
+        )
+    );
+  }
+
+  async updatePointAttributes(pointIris: string[], attributes: PointAttributes, cimNamespace: string): Promise<void> {
+    if (pointIris.length === 0 || attributes.zPosition === undefined) return;
+
+    await this.update(
+        this.queryBuilders.point.buildUpdatePointAttributesQuery(pointIris, attributes, cimNamespace, this.graphs)
+    );
+  }
+
+  async createDiagramObject(object: NewDiagramObjectData, cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.object.buildCreateDiagramObjectQuery(object, cimNamespace, this.graphs)
+    );
+  }
+
+  async updatePolygonProperty(objectIri: string, isPolygon: boolean, cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.object.buildUpdatePolygonPropertyQuery(objectIri, isPolygon, cimNamespace, this.graphs)
+    );
+  }
+
+  async updateObjectAttributes(
+      objectIris: string[],
+      attributes: DiagramObjectAttributes,
+      cimNamespace: string
+  ): Promise<void> {
+    if (objectIris.length === 0 || Object.keys(attributes).length === 0) return;
+
+    await this.update(
+        this.queryBuilders.object.buildUpdateObjectAttributesQuery(objectIris, attributes, cimNamespace, this.graphs)
+    );
+  }
+
+  /**
+   * Clone objects with their points and glue points and apply an offset to the point positions
+   */
+  async cloneObjects(
+      diagramIri: string,
+      objectIris: string[],
+      offset: DeltaVector,
+      cimNamespace: string
+  ): Promise<ClonedObjectsData> {
+    // All steps are sent as one update request
+    if (!(this.executor instanceof SparqlUnitOfWork)) {
+      return await this.transaction(repository => repository.cloneObjects(diagramIri, objectIris, offset, cimNamespace));
+    }
+
+    const builder = this.queryBuilders.object;
+
+    // Step 1: Create mappings for new IRIs
+    const objectMapping = new Map<string, string>();
+    const gluePointMapping = new Map<string, string>();
+    const pointMapping = new Map<string, string>();
+
+    objectIris.forEach(iri => {
+      objectMapping.set(iri, `urn:uuid:${uuidv4()}`);
+    });
+
+    // Step 2: Clone all DiagramObjects (including TextDiagramObjects)
+    await this.update(builder.buildCloneObjectsQuery(diagramIri, objectMapping, cimNamespace, this.graphs));
+
+    // Step 3: Get all points and create new point IRIs
+    const allPointsResult = await this.executor.executeQuery(builder.buildObjectPointsQuery(objectIris, cimNamespace, this.graphs));
+
+    allPointsResult.results.bindings.forEach(binding => {
+      if (binding.point) {
+        pointMapping.set(binding.point.value, `urn:uuid:${uuidv4()}`);
+      }
+    });
+
+    if (pointMapping.size === 0) {
+      // No points to clone
+      return {
+        objectIris: Array.from(objectMapping.values()),
+        pointIris: [],
+        objectMapping: Object.fromEntries(objectMapping),
+        pointMapping: {},
+        gluePointMapping: {}
+      };
+    }
+
+    // Step 4: Find all DiagramGluePoints linked to the DiagramObjects via DiagramObjectPoints
+    const gluePointsResult = await this.executor.executeQuery(
+        builder.buildObjectGluePointsQuery(objectIris, cimNamespace, this.graphs)
+    );
+
+    gluePointsResult.results.bindings.forEach(binding => {
+      if (binding.gluePoint && !gluePointMapping.has(binding.gluePoint.value)) {
+        gluePointMapping.set(binding.gluePoint.value, `urn:uuid:${uuidv4()}`);
+      }
+    });
+
+    // Step 5: Clone the DiagramGluePoints if any were found
+    if (gluePointMapping.size > 0) {
+      await this.update(builder.buildCloneGluePointsQuery(gluePointMapping, cimNamespace, this.graphs));
+    }
+
+    // Step 6: Clone all points (basic properties only, no references)
+    await this.update(builder.buildClonePointsQuery(pointMapping, cimNamespace, this.graphs));
+
+    // Step 7: Update DiagramObject references for points
+    await this.update(
+        builder.buildLinkClonedPointsToObjectsQuery(pointMapping, objectMapping, cimNamespace, this.graphs)
+    );
+
+    // Step 8: Update GluePoint references if needed
+    if (gluePointMapping.size > 0) {
+      await this.update(
+          builder.buildLinkClonedPointsToGluePointsQuery(pointMapping, gluePointMapping, cimNamespace, this.graphs)
+      );
+    }
+
+    // Step 9: Update point coordinates with offset
+    await this.update(
+        builder.buildOffsetClonedPointsQuery(pointMapping, offset.dx, offset.dy, cimNamespace, this.graphs)
+    );
+
+    return {
+      objectIris: Array.from(objectMapping.values()),
+      pointIris: Array.from(pointMapping.values()),
+      objectMapping: Object.fromEntries(objectMapping),
+      pointMapping: Object.fromEntries(pointMapping),
+      gluePointMapping: Object.fromEntries(gluePointMapping)
+    };
+  }
+
+  async deleteObjects(objectIris: string[], cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.object.buildDeleteDiagramObjectsQuery(objectIris, cimNamespace, this.graphs)
+    );
+  }
+
+  async createGluePoint(gluePointIri: string, pointIris: string[], cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.gluePoint.buildCreateGluePointQuery(gluePointIri, pointIris, cimNamespace, this.graphs)
+    );
+  }
+
+  async removeGluePoint(gluePointIri: string, cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.gluePoint.buildRemoveGluePointQuery(gluePointIri, cimNamespace, this.graphs)
+    );
+  }
+
+  async addPointToGluePoint(pointIri: string, gluePointIri: string, cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.gluePoint.buildAddPointToGluePointQuery(pointIri, gluePointIri, cimNamespace, this.graphs)
+    );
+  }
+
+  async removePointFromGluePoint(pointIri: string, gluePointIri: string, cimNamespace: string): Promise<void> {
+    await this.update(
+        this.queryBuilders.gluePoint.buildRemovePointFromGluePointQuery(pointIri, gluePointIri, cimNamespace, this.graphs)
+    );
+  }
+
+  async snapshotPoint(pointIri: string): Promise<RepositorySnapshot> {
+    return await this.captureTriples(this.queryBuilders.point.buildPointTriplesQuery(pointIri, this.graphs));
+  }
+
+  /**
+   * Capture every triple that deleteObjects removes
+   */
+  async snapshotObjects(objectIris: string[], cimNamespace: string): Promise<RepositorySnapshot> {
+    return await this.captureTriples(
+        this.queryBuilders.object.buildDiagramObjectTriplesQuery(objectIris, cimNamespace, this.graphs)
+    );
+  }
+
+  async restoreSnapshot(snapshot: RepositorySnapshot): Promise<void> {
+    if (snapshot.type !== this.type) {
+      throw new Error('Snapshot was taken from a different repository');
+    }
+
+    const triples = snapshot.data as SparqlFragment[];
+    if (triples.length === 0) return;
+
+    await this.update(this.queryBuilders.object.buildInsertTriplesQuery(triples, this.graphs));
+  }
+
+  /**
+   * Send an update changing the checked diagram, unless its triples are out of reach
+   */
+  private async update(update: string): Promise<void> {
+    if (this.readOnlyReason) {
+      throw new Error(this.readOnlyReason);
+    }
+    await this.executor.executeUpdate(update);
+  }
+
+  /**
+   * Collect the updates of the work and send them as one request once it has finished
+   *
+   * Nothing is sent if the work fails. A transaction inside a running one joins it.
+   */
+  async transaction<T>(work: (repository: DiagramRepository) => Promise<T>): Promise<T> {
+    if (this.executor instanceof SparqlUnitOfWork) {
+      return await work(this);
+    }
+
+    const unitOfWork = new SparqlUnitOfWork(this.executor);
+    try {
+      const result = await work(this.withExecutor(unitOfWork));
+      await unitOfWork.commit();
+      return result;
+    } catch (error) {
+      unitOfWork.rollback();
+      throw new Error(`No changes were saved: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Repository reading and writing the same graphs through another executor
+   */
+  protected withExecutor(executor: SparqlExecutor): SparqlDiagramRepository {
+    const repository = new SparqlDiagramRepository(executor, this.queryBuilders, this.graphs);
+    repository.readOnlyReason = this.readOnlyReason;
+    return repository;
+  }
+
+  async exportDiagramLayout(version: CGMESVersion): Promise<string> {
+    const cimNamespace = AppConfig.namespaces[version];
+
+    const query = this.queryBuilders.file.buildDiagramLayoutProfileQuery(cimNamespace, this.graphs);
+    const response = await this.executor.executeQuery(query);
+
+    if (response.results.bindings.length === 0) {
+      throw new Error('No diagram layout data to export');
+    }
+
+    const bindings = withCurrentModelHeader(
+        response.results.bindings,
+        AppConfig.files.diagramLayoutProfiles[version]
+    );
+
+    return serializeCimXml(bindings, {
+      cimNamespace,
+      baseIri: AppConfig.files.baseIri,
+      useRdfId: version === CGMESVersion.V2_4_15
+    });
+  }
+
+  private async captureTriples(query: string): Promise<RepositorySnapshot> {
+    const response = await this.executor.executeQuery(query);
+    return {
+      type: this.type,
+      data: response.results.bindings.map(bindingToTriple)
+    };
+  }
+}
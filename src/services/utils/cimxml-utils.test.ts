@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { Store } from 'oxigraph/node.js';
+import type { SparqlBinding, SparqlTerm } from '@/core/models/types';
+import { CGMESVersion } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { detectCGMESVersion, MD_NAMESPACE, RDF_NAMESPACE, serializeCimXml, withCurrentModelHeader } from './cimxml-utils';
+import type { CimXmlOptions } from './cimxml-utils';
+
+const CIM = AppConfig.namespaces[CGMESVersion.V3_0];
+const BASE = 'http://example.org/model';
+
+const uri = (value: string): SparqlTerm => ({ type: 'uri', value });
+const text = (value: string): SparqlTerm => ({ type: 'literal', value });
+const triple = (s: SparqlTerm, p: string, o: SparqlTerm): SparqlBinding => ({ s, p: uri(p), o });
+
+/**
+ * Parse a document the way files are opened and read back all triples
+ */
+function parse(content: string): SparqlBinding[] {
+  const store = new Store();
+  store.load(content, { format: 'application/rdf+xml', base_iri: BASE, lenient: true });
+
+  const results = JSON.parse(store.query('SELECT ?s ?p ?o WHERE { ?s ?p ?o }', { results_format: 'json' }) as string);
+  return results.results.bindings;
+}
+
+/**
+ * Triples as sortable strings, ignoring the datatype of literals and blank node labels
+ */
+function normalize(bindings: SparqlBinding[]): string[] {
+  const write = (term: SparqlTerm) =>
+    term.type === 'uri' ? `<${term.value}>` : term.type === 'bnode' ? '_:b' : JSON.stringify(term.value);
+  return bindings.map(binding => `${write(binding.s)} ${write(binding.p)} ${write(binding.o)}`).sort();
+}
+
+function roundTrip(bindings: SparqlBinding[], options: Partial<CimXmlOptions> = {}): SparqlBinding[] {
+  return parse(serializeCimXml(bindings, { cimNamespace: CIM, baseIri: BASE, useRdfId: false, ...options }));
+}
+
+describe('serializeCimXml', () => {
+  const object = uri(`${BASE}#_object`);
+  const point = uri(`${BASE}#_point`);
+  const bindings = [
+    triple(point, `${RDF_NAMESPACE}type`, uri(`${CIM}DiagramObjectPoint`)),
+    triple(point, `${CIM}DiagramObjectPoint.DiagramObject`, object),
+    triple(point, `${CIM}DiagramObjectPoint.xPosition`, text('12.5')),
+    triple(object, `${RDF_NAMESPACE}type`, uri(`${CIM}DiagramObject`)),
+    triple(object, `${CIM}IdentifiedObject.name`, text('Line <1> & "2"')),
+    triple(object, `${CIM}DiagramObject.IdentifiedObject`, uri('urn:uuid:8a1c7f0e-1234-4abc-9def-000000000001'))
+  ];
+
+  it('reads back the triples it writes with rdf:about', () => {
+    expect(normalize(roundTrip(bindings))).toEqual(normalize(bindings));
+  });
+
+  it('reads back the triples it writes with rdf:ID', () => {
+    expect(normalize(roundTrip(bindings, { useRdfId: true }))).toEqual(normalize(bindings));
+  });
+
+  it('writes local subjects as rdf:about or rdf:ID references', () => {
+    const about = serializeCimXml(bindings, { cimNamespace: CIM, baseIri: BASE, useRdfId: false });
+    const id = serializeCimXml(bindings, { cimNamespace: CIM, baseIri: BASE, useRdfId: true });
+
+    expect(about).toContain('<cim:DiagramObject rdf:about="#_object">');
+    expect(id).toContain('<cim:DiagramObject rdf:ID="_object">');
+    // References are the same in both forms
+    expect(about).toContain('<cim:DiagramObjectPoint.DiagramObject rdf:resource="#_object"/>');
+    expect(id).toContain('<cim:DiagramObjectPoint.DiagramObject rdf:resource="#_object"/>');
+    // Other IRIs stay absolute
+    expect(id).toContain('rdf:resource="urn:uuid:8a1c7f0e-1234-4abc-9def-000000000001"');
+  });
+
+  it('escapes markup in literals and IRIs', () => {
+    const subject = uri('http://example.org/other?a=1&b="2"');
+    const escaped = [
+      triple(subject, `${RDF_NAMESPACE}type`, uri(`${CIM}DiagramObject`)),
+      triple(subject, `${CIM}IdentifiedObject.description`, text('a < b && c > "d" \'e\'')),
+      triple(subject, `${CIM}IdentifiedObject.name`, text('line\nbreak'))
+    ];
+
+    const written = serializeCimXml(escaped, { cimNamespace: CIM, baseIri: BASE, useRdfId: false });
+
+    expect(written).toContain('rdf:about="http://example.org/other?a=1&amp;b=&quot;2&quot;"');
+    expect(written).toContain('a &lt; b &amp;&amp; c &gt; &quot;d&quot; \'e\'');
+    expect(normalize(parse(written))).toEqual(normalize(escaped));
+  });
+
+  it('declares the namespaces it uses and prefixes for unknown ones', () => {
+    const subject = uri(`${BASE}#_header`);
+    const header = [
+      triple(subject, `${RDF_NAMESPACE}type`, uri(`${MD_NAMESPACE}FullModel`)),
+      triple(subject, `${MD_NAMESPACE}Model.profile`, text('http://iec.ch/TC57/ns/CIM/DiagramLayout-EU/3.0')),
+      triple(subject, 'http://example.org/extension#Model.note', text('custom')),
+      triple(subject, 'http://example.org/path/Model.other', text('other'))
+    ];
+
+    const written = serializeCimXml(header, { cimNamespace: CIM, baseIri: BASE, useRdfId: false });
+
+    expect(written).toContain(`xmlns:rdf="${RDF_NAMESPACE}"`);
+    expect(written).toContain(`xmlns:md="${MD_NAMESPACE}"`);
+    expect(written).toMatch(/xmlns:ns\d+="http:\/\/example\.org\/extension#"/);
+    expect(written).toMatch(/xmlns:ns\d+="http:\/\/example\.org\/path\/"/);
+    expect(written).not.toContain('xmlns:cim=');
+    expect(normalize(parse(written))).toEqual(normalize(header));
+  });
+
+  it('writes additional types as rdf:type statements', () => {
+    const subject = uri(`${BASE}#_text`);
+    const typed = [
+      triple(subject, `${RDF_NAMESPACE}type`, uri(`${CIM}TextDiagramObject`)),
+      triple(subject, `${RDF_NAMESPACE}type`, uri(`${CIM}DiagramObject`))
+    ];
+
+    const written = serializeCimXml(typed, { cimNamespace: CIM, baseIri: BASE, useRdfId: false });
+
+    expect(written).toContain('<cim:TextDiagramObject rdf:about="#_text">');
+    expect(written).toContain(`<rdf:type rdf:resource="${CIM}DiagramObject"/>`);
+    expect(normalize(parse(written))).toEqual(normalize(typed));
+  });
+
+  it('writes the header and diagrams before the objects and points', () => {
+    const written = serializeCimXml([...bindings].reverse(), { cimNamespace: CIM, baseIri: BASE, useRdfId: false });
+
+    expect(written.indexOf('<cim:DiagramObject ')).toBeLessThan(written.indexOf('<cim:DiagramObjectPoint '));
+  });
+});
+
+describe('withCurrentModelHeader', () => {
+  it('creates a header with the profile if there is none', () => {
+    const withHeader = withCurrentModelHeader([], 'http://example.org/profile');
+
+    expect(withHeader.map(binding => binding.p.value)).toEqual([
+      `${RDF_NAMESPACE}type`,
+      `${MD_NAMESPACE}Model.created`,
+      `${MD_NAMESPACE}Model.profile`
+    ]);
+    expect(withHeader[2].o.value).toBe('http://example.org/profile');
+  });
+
+  it('replaces the creation time of an existing header', () => {
+    const header = uri(`${BASE}#_header`);
+    const withHeader = withCurrentModelHeader([
+      triple(header, `${RDF_NAMESPACE}type`, uri(`${MD_NAMESPACE}FullModel`)),
+      triple(header, `${MD_NAMESPACE}Model.created`, text('2020-01-01T00:00:00Z'))
+    ], 'http://example.org/profile');
+
+    const created = withHeader.filter(binding => binding.p.value === `${MD_NAMESPACE}Model.created`);
+    expect(withHeader).toHaveLength(2);
+    expect(created).toHaveLength(1);
+    expect(created[0].s).toEqual(header);
+    expect(created[0].o.value).not.toBe('2020-01-01T00:00:00Z');
+  });
+});
+
+describe('detectCGMESVersion', () => {
+  it('detects the version from the CIM namespace', () => {
+    Object.values(CGMESVersion).forEach(version => {
+      expect(detectCGMESVersion(`<rdf:RDF xmlns:cim="${AppConfig.namespaces[version]}">`)).toBe(version);
+    });
+    expect(detectCGMESVersion('<rdf:RDF xmlns:cim="http://example.org/cim#">')).toBeNull();
+  });
+});
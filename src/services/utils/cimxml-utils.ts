@@ -0,0 +1,217 @@
+import type { SparqlBinding, SparqlTerm } from '@/core/models/types';
+import { CGMESVersion } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Utility functions for reading and writing CIM/XML (IEC 61970-552) documents
+ */
+
+export const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+export const MD_NAMESPACE = 'http://iec.ch/TC57/61970-552/ModelDescription/1#';
+
+const RDF_TYPE = `${RDF_NAMESPACE}type`;
+
+// Well-known prefixes used when writing CIM/XML
+const KNOWN_PREFIXES: Record<string, string> = {
+  [RDF_NAMESPACE]: 'rdf',
+  [MD_NAMESPACE]: 'md',
+  'http://entsoe.eu/CIM/SchemaExtension/3/1#': 'entsoe',
+  'http://iec.ch/TC57/CIM100-European#': 'eu',
+  'http://www.w3.org/ns/dcat#': 'dcat',
+  'http://purl.org/dc/terms/': 'dcterms'
+};
+
+// Order in which DiagramLayout classes are written
+const CLASS_ORDER = [
+  'FullModel',
+  'Diagram',
+  'DiagramStyle',
+  'DiagramObjectStyle',
+  'VisibilityLayer',
+  'DiagramObject',
+  'TextDiagramObject',
+  'DiagramObjectPoint',
+  'DiagramObjectGluePoint'
+];
+
+/**
+ * Options for writing CIM/XML
+ */
+export interface CimXmlOptions {
+  cimNamespace: string;
+  baseIri: string;   // IRIs below this base are written as document-local references
+  useRdfId: boolean; // Write rdf:ID (CGMES 2.4.15) instead of rdf:about (CGMES 3.0)
+}
+
+/**
+ * Detect the CGMES version of a CIM/XML document from its CIM namespace
+ *
+ * @param content - Document text
+ * @returns Detected version or null if no known namespace is declared
+ */
+export function detectCGMESVersion(content: string): CGMESVersion | null {
+  for (const version of Object.values(CGMESVersion)) {
+    if (content.includes(AppConfig.namespaces[version])) {
+      return version;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Serialize triples given as ?s ?p ?o bindings to a CIM/XML document
+ *
+ * @param bindings - Result bindings with s, p and o variables
+ * @param options - Serialization options
+ * @returns CIM/XML document text
+ */
+export function serializeCimXml(bindings: SparqlBinding[], options: CimXmlOptions): string {
+  const prefixes = new Map<string, string>(Object.entries(KNOWN_PREFIXES));
+  prefixes.set(options.cimNamespace, 'cim');
+  const usedNamespaces = new Set<string>([RDF_NAMESPACE]);
+
+  // Turn an IRI into a qualified XML name, declaring new prefixes on demand
+  const qname = (iri: string): string => {
+    const splitAt = Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/')) + 1;
+    const namespace = iri.substring(0, splitAt);
+
+    if (!prefixes.has(namespace)) {
+      prefixes.set(namespace, `ns${prefixes.size}`);
+    }
+    usedNamespaces.add(namespace);
+
+    return `${prefixes.get(namespace)}:${iri.substring(splitAt)}`;
+  };
+
+  // Group triples by subject
+  const subjects = new Map<string, { term: SparqlTerm; types: string[]; properties: SparqlBinding[] }>();
+  for (const binding of bindings) {
+    let subject = subjects.get(binding.s.value);
+    if (!subject) {
+      subject = { term: binding.s, types: [], properties: [] };
+      subjects.set(binding.s.value, subject);
+    }
+
+    if (binding.p.value === RDF_TYPE && binding.o.type === 'uri') {
+      subject.types.push(binding.o.value);
+    } else {
+      subject.properties.push(binding);
+    }
+  }
+
+  const sortedSubjects = Array.from(subjects.values()).sort((a, b) =>
+    classRank(a.types) - classRank(b.types) || a.term.value.localeCompare(b.term.value)
+  );
+
+  const body: string[] = [];
+  for (const subject of sortedSubjects) {
+    const element = subject.types.length > 0 ? qname(subject.types[0]) : 'rdf:Description';
+    body.push(`  <${element} ${subjectAttribute(subject.term, options)}>`);
+
+    // Additional types are written as explicit rdf:type statements
+    for (const type of subject.types.slice(1)) {
+      body.push(`    <rdf:type rdf:resource="${escapeXml(resourceReference(type, options))}"/>`);
+    }
+
+    for (const property of subject.properties) {
+      body.push(`    ${propertyElement(qname(property.p.value), property.o, options)}`);
+    }
+
+    body.push(`  </${element}>`);
+  }
+
+  const declarations = Array.from(usedNamespaces)
+    .map(namespace => `xmlns:${prefixes.get(namespace)}="${escapeXml(namespace)}"`)
+    .join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rdf:RDF ${declarations}>`,
+    ...body,
+    '</rdf:RDF>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Set the creation time of the model header to now, creating a header if there is none
+ *
+ * @param bindings - Result bindings with s, p and o variables
+ * @param profile - Profile URI written into a newly created header
+ * @returns Bindings with an up-to-date header
+ */
+export function withCurrentModelHeader(bindings: SparqlBinding[], profile: string): SparqlBinding[] {
+  const fullModelType = `${MD_NAMESPACE}FullModel`;
+  const createdProperty = `${MD_NAMESPACE}Model.created`;
+  const created = { type: 'literal', value: new Date().toISOString() };
+
+  const header = bindings.find(binding =>
+    binding.p.value === RDF_TYPE && binding.o.value === fullModelType
+  );
+
+  if (header) {
+    return [
+      ...bindings.filter(binding =>
+        binding.s.value !== header.s.value || binding.p.value !== createdProperty
+      ),
+      { s: header.s, p: { type: 'uri', value: createdProperty }, o: created }
+    ];
+  }
+
+  const subject = { type: 'uri', value: `urn:uuid:${uuidv4()}` };
+  return [
+    { s: subject, p: { type: 'uri', value: RDF_TYPE }, o: { type: 'uri', value: fullModelType } },
+    { s: subject, p: { type: 'uri', value: createdProperty }, o: created },
+    { s: subject, p: { type: 'uri', value: `${MD_NAMESPACE}Model.profile` }, o: { type: 'literal', value: profile } },
+    ...bindings
+  ];
+}
+
+function classRank(types: string[]): number {
+  const ranks = types
+    .map(type => CLASS_ORDER.indexOf(type.substring(Math.max(type.lastIndexOf('#'), type.lastIndexOf('/')) + 1)))
+    .filter(rank => rank >= 0);
+
+  return ranks.length > 0 ? Math.min(...ranks) : CLASS_ORDER.length;
+}
+
+function subjectAttribute(term: SparqlTerm, options: CimXmlOptions): string {
+  if (term.type === 'bnode') {
+    return `rdf:nodeID="${escapeXml(term.value)}"`;
+  }
+
+  const localPrefix = `${options.baseIri}#`;
+  if (term.value.startsWith(localPrefix)) {
+    const id = term.value.substring(localPrefix.length);
+    return options.useRdfId ? `rdf:ID="${escapeXml(id)}"` : `rdf:about="#${escapeXml(id)}"`;
+  }
+
+  return `rdf:about="${escapeXml(term.value)}"`;
+}
+
+function resourceReference(iri: string, options: CimXmlOptions): string {
+  const localPrefix = `${options.baseIri}#`;
+  return iri.startsWith(localPrefix) ? iri.substring(options.baseIri.length) : iri;
+}
+
+function propertyElement(name: string, object: SparqlTerm, options: CimXmlOptions): string {
+  if (object.type === 'uri') {
+    return `<${name} rdf:resource="${escapeXml(resourceReference(object.value, options))}"/>`;
+  }
+
+  if (object.type === 'bnode') {
+    return `<${name} rdf:nodeID="${escapeXml(object.value)}"/>`;
+  }
+
+  return `<${name}>${escapeXml(object.value)}</${name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,56 @@
+import { AuthenticationType } from '@/core/models/types';
+import type { ConnectionProfile } from '@/core/models/types';
+
+/**
+ * Utility functions for HTTP requests to protected endpoints
+ */
+
+// Header names as allowed by RFC 9110
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Build the headers a connection profile adds to every request
+ *
+ * @param profile - Connection profile of the endpoint, null if it has none
+ * @returns Authorization and custom headers by name
+ */
+export function buildRequestHeaders(profile: ConnectionProfile | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!profile) return headers;
+
+  profile.headers
+    .filter(header => header.name.trim() !== '')
+    .forEach(header => {
+      const name = header.name.trim();
+      if (!HEADER_NAME_PATTERN.test(name)) {
+        throw new Error(`Invalid header name: ${name}`);
+      }
+      headers[name] = header.value;
+    });
+
+  // Authentication takes precedence over a custom Authorization header
+  if (profile.authentication !== AuthenticationType.NONE) {
+    Object.keys(headers)
+      .filter(name => name.toLowerCase() === 'authorization')
+      .forEach(name => delete headers[name]);
+  }
+
+  switch (profile.authentication) {
+    case AuthenticationType.BASIC:
+      headers['Authorization'] = `Basic ${encodeBase64(`${profile.username}:${profile.password}`)}`;
+      break;
+    case AuthenticationType.BEARER:
+      headers['Authorization'] = `Bearer ${profile.token.trim()}`;
+      break;
+  }
+
+  return headers;
+}
+
+/**
+ * Base64 of the UTF-8 bytes of a text, as btoa only accepts Latin-1
+ */
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+}
@@ -0,0 +1,59 @@
+import type { GraphScope } from '@/core/models/types';
+import { iri, sparql } from './sparql-terms';
+import type { SparqlFragment, SparqlValue } from './sparql-terms';
+
+/**
+ * Dataset clauses restricting queries and updates to chosen named graphs
+ *
+ * Queries read the merge of the source graphs and the target graph as their
+ * default graph. Updates write to the target graph and match their WHERE
+ * patterns against it, so edits never land in another graph. Without chosen
+ * graphs all clauses are left out and the store's default graph is used.
+ */
+
+export const DEFAULT_GRAPH_SCOPE: GraphScope = Object.freeze({
+  sourceGraphs: [],
+  targetGraph: null
+});
+
+/**
+ * FROM clauses of a query, placed between the result clause and WHERE
+ */
+export function fromGraphs(graphs: GraphScope): SparqlFragment | null {
+  // Edits have to be visible when the diagram is loaded again
+  const readGraphs = new Set(graphs.sourceGraphs);
+  if (graphs.targetGraph) {
+    readGraphs.add(graphs.targetGraph);
+  }
+  if (readGraphs.size === 0) return null;
+
+  return sparql`${Array.from(readGraphs, graph => sparql`FROM ${iri(graph)}`)}`;
+}
+
+/**
+ * FROM clause of a query reading only what updates would change
+ *
+ * Used to capture triples before they are deleted, so that they are
+ * restored to the graph they were deleted from.
+ */
+export function fromTargetGraph(graphs: GraphScope): SparqlFragment | null {
+  return graphs.targetGraph ? sparql`FROM ${iri(graphs.targetGraph)}` : null;
+}
+
+/**
+ * WITH clause of a DELETE/INSERT ... WHERE update, placed before DELETE or INSERT
+ */
+export function withGraph(graphs: GraphScope): SparqlFragment | null {
+  return graphs.targetGraph ? sparql`WITH ${iri(graphs.targetGraph)}` : null;
+}
+
+/**
+ * Triples of an INSERT DATA or DELETE DATA update, in the target graph
+ */
+export function inTargetGraph(graphs: GraphScope, triples: SparqlValue): SparqlFragment {
+  return graphs.targetGraph
+    ? sparql`GRAPH ${iri(graphs.targetGraph)} {
+          ${triples}
+        }`
+    : sparql`${triples}`;
+}
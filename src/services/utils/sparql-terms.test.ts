@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { fromResultTerm, float, integer, iri, literal, sparql, variable } from './sparql-terms';
+import type { SparqlValue } from './sparql-terms';
+
+describe('iri', () => {
+  it('writes valid IRIs in angle brackets', () => {
+    expect(String(iri('http://example.org/point#1'))).toBe('<http://example.org/point#1>');
+    expect(String(iri('urn:uuid:8a1c7f0e-1234-4abc-9def-000000000001'))).toBe('<urn:uuid:8a1c7f0e-1234-4abc-9def-000000000001>');
+  });
+
+  it.each([
+    'http://example.org/a> . <http://evil.org/b',
+    'http://example.org/a b',
+    'http://example.org/a{b}',
+    'http://example.org/"a"',
+    'http://example.org/a\nb',
+    'http://example.org/a\\u003E',
+    'relative/path',
+    ''
+  ])('rejects %j', value => {
+    expect(() => iri(value)).toThrow('Invalid IRI');
+  });
+});
+
+describe('literal', () => {
+  it('escapes quotes and backslashes', () => {
+    expect(String(literal('say "hi" \\ bye'))).toBe('"say \\"hi\\" \\\\ bye"');
+  });
+
+  it('escapes line breaks and tabs', () => {
+    expect(String(literal('a\nb\rc\td'))).toBe('"a\\nb\\rc\\td"');
+  });
+
+  it('cannot be ended early by a long quote', () => {
+    const written = String(literal('x""" } ; DROP ALL ; INSERT DATA { """'));
+
+    expect(written).toBe('"x\\"\\"\\" } ; DROP ALL ; INSERT DATA { \\"\\"\\""');
+    // Only the enclosing quotes are unescaped
+    expect(written.replace(/\\./g, '').match(/"/g)).toHaveLength(2);
+  });
+
+  it('rejects invalid language tags', () => {
+    expect(String(literal('Leitung', 'de-CH'))).toBe('"Leitung"@de-CH');
+    expect(() => literal('a', 'en" . <x:y> <x:z> "')).toThrow('Invalid language tag');
+  });
+});
+
+describe('integer and float', () => {
+  it('write finite numbers', () => {
+    expect(String(integer(42))).toBe('42');
+    expect(String(integer(-3))).toBe('-3');
+    expect(String(float(1.5))).toBe('"1.5"^^<http://www.w3.org/2001/XMLSchema#float>');
+  });
+
+  it.each([NaN, Infinity, -Infinity])('reject %s', value => {
+    expect(() => integer(value)).toThrow('Invalid integer');
+    expect(() => float(value)).toThrow('Invalid number');
+  });
+
+  it('rejects fractions and unsafe integers', () => {
+    expect(() => integer(1.5)).toThrow('Invalid integer');
+    expect(() => integer(Number.MAX_SAFE_INTEGER + 1)).toThrow('Invalid integer');
+  });
+});
+
+describe('variable', () => {
+  it('rejects names that are not variables', () => {
+    expect(String(variable('point'))).toBe('?point');
+    expect(() => variable('x } DROP ALL')).toThrow('Invalid variable name');
+  });
+});
+
+describe('sparql', () => {
+  it('combines text, terms, lists and null', () => {
+    const triples = [sparql`${iri('urn:a')} ${iri('urn:p')} ${integer(1)} .`, null];
+
+    expect(String(sparql`INSERT DATA { ${triples} }`)).toBe('INSERT DATA { <urn:a> <urn:p> 1 .\n }');
+  });
+
+  it('keeps injected syntax inside the literal', () => {
+    const name = '" } ; DELETE WHERE { ?s ?p ?o } ; INSERT DATA { <urn:x> <urn:y> "';
+    const update = String(sparql`INSERT DATA { ${iri('urn:a')} ${iri('urn:name')} ${literal(name)} . }`);
+
+    expect(update).toBe(
+      'INSERT DATA { <urn:a> <urn:name> "\\" } ; DELETE WHERE { ?s ?p ?o } ; INSERT DATA { <urn:x> <urn:y> \\"" . }'
+    );
+  });
+
+  it('rejects plain values that get past the type check', () => {
+    const hostile = '<urn:a> <urn:b> <urn:c> } ; DROP ALL ; INSERT DATA {' as unknown as SparqlValue;
+
+    expect(() => sparql`INSERT DATA { ${hostile} }`).toThrow('Value is not a SPARQL term');
+    expect(() => sparql`LIMIT ${Infinity as unknown as SparqlValue}`).toThrow('Value is not a SPARQL term');
+    expect(() => sparql`${[iri('urn:a'), 'urn:b' as unknown as SparqlValue]}`).toThrow('Value is not a SPARQL term');
+  });
+});
+
+describe('fromResultTerm', () => {
+  it('writes result terms back with escaping', () => {
+    expect(String(fromResultTerm({ type: 'uri', value: 'urn:a' }))).toBe('<urn:a>');
+    expect(String(fromResultTerm({ type: 'literal', value: 'a"b\nc' }))).toBe('"a\\"b\\nc"');
+    expect(String(fromResultTerm({ type: 'literal', value: 'x', 'xml:lang': 'en' }))).toBe('"x"@en');
+    expect(String(fromResultTerm({
+      type: 'literal',
+      value: '1.5',
+      datatype: 'http://www.w3.org/2001/XMLSchema#float'
+    }))).toBe('"1.5"^^<http://www.w3.org/2001/XMLSchema#float>');
+  });
+
+  it('rejects hostile IRIs and blank node labels from results', () => {
+    expect(() => fromResultTerm({ type: 'uri', value: 'urn:a> <urn:b' })).toThrow('Invalid IRI');
+    expect(() => fromResultTerm({ type: 'bnode', value: 'b0 } DROP ALL' })).toThrow('Invalid blank node label');
+    expect(() => fromResultTerm({
+      type: 'literal',
+      value: '1',
+      datatype: 'http://www.w3.org/2001/XMLSchema#integer> . <urn:x'
+    })).toThrow('Invalid IRI');
+  });
+});
@@ -0,0 +1,205 @@
+import type { SparqlTerm } from '@/core/models/types';
+
+/**
+ * Typed construction of SPARQL queries and updates
+ *
+ * Values from outside a query builder, such as IRIs, names and coordinates,
+ * only enter a query as terms. Each term checks its value when it is created
+ * and writes it in SPARQL syntax, so that no value can end a term early and
+ * add syntax of its own. The sparql template tag only accepts terms and other
+ * fragments, plain strings have to be wrapped in a term first.
+ */
+
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+export const XSD_STRING = `${XSD}string`;
+export const XSD_INTEGER = `${XSD}integer`;
+export const XSD_FLOAT = `${XSD}float`;
+export const XSD_BOOLEAN = `${XSD}boolean`;
+
+// Absolute IRI without the characters IRIREF excludes. Escapes are not used,
+// as SPARQL resolves \u escapes before parsing the query.
+const IRI_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*:[^\u0000- <>"{}|^`\\]*$/;
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const BLANK_NODE_PATTERN = /^[A-Za-z0-9_]([A-Za-z0-9_.-]*[A-Za-z0-9_-])?$/;
+const LANGUAGE_PATTERN = /^[A-Za-z]+(-[A-Za-z0-9]+)*$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+
+const LITERAL_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '"': '\\"',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\b': '\\b',
+  '\f': '\\f'
+};
+
+/**
+ * IRI written in angle brackets
+ */
+export class Iri {
+  constructor(readonly value: string) {
+    if (!IRI_PATTERN.test(value)) {
+      throw new Error(`Invalid IRI: ${JSON.stringify(value)}`);
+    }
+  }
+
+  toString(): string {
+    return `<${this.value}>`;
+  }
+}
+
+/**
+ * Literal with an optional datatype or language
+ *
+ * Valid integers are written as plain numbers, so they can also be used where
+ * the grammar only allows a number, as in LIMIT.
+ */
+export class Literal {
+  constructor(
+      readonly value: string,
+      readonly datatype: Iri | null = null,
+      readonly language: string | null = null
+  ) {
+    if (language !== null && !LANGUAGE_PATTERN.test(language)) {
+      throw new Error(`Invalid language tag: ${JSON.stringify(language)}`);
+    }
+  }
+
+  toString(): string {
+    if (this.datatype?.value === XSD_INTEGER && INTEGER_PATTERN.test(this.value)) {
+      return this.value;
+    }
+
+    const quoted = `"${this.value.replace(/[\\"\n\r\t\b\f]/g, character => LITERAL_ESCAPES[character])}"`;
+    if (this.language !== null) {
+      return `${quoted}@${this.language}`;
+    }
+    return this.datatype && this.datatype.value !== XSD_STRING ? `${quoted}^^${this.datatype}` : quoted;
+  }
+}
+
+/**
+ * Query variable
+ */
+export class Variable {
+  constructor(readonly name: string) {
+    if (!VARIABLE_PATTERN.test(name)) {
+      throw new Error(`Invalid variable name: ${JSON.stringify(name)}`);
+    }
+  }
+
+  toString(): string {
+    return `?${this.name}`;
+  }
+}
+
+/**
+ * Blank node, only used to write back triples read from a store
+ */
+export class BlankNode {
+  constructor(readonly label: string) {
+    if (!BLANK_NODE_PATTERN.test(label)) {
+      throw new Error(`Invalid blank node label: ${JSON.stringify(label)}`);
+    }
+  }
+
+  toString(): string {
+    return `_:${this.label}`;
+  }
+}
+
+export type Term = Iri | Literal | Variable | BlankNode;
+
+/**
+ * Piece of SPARQL built from a template and terms
+ */
+export class SparqlFragment {
+  constructor(private readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/**
+ * Values the sparql tag accepts, lists are written one item per line and null is left out
+ */
+export type SparqlValue = Term | SparqlFragment | null | readonly SparqlValue[];
+
+function formatValue(value: SparqlValue): string {
+  if (value === null) return '';
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join('\n');
+  }
+  // Also checked at runtime, as casts and untyped callers get past the compiler
+  if (value instanceof Iri || value instanceof Literal || value instanceof Variable ||
+      value instanceof BlankNode || value instanceof SparqlFragment) {
+    return String(value);
+  }
+  throw new Error(`Value is not a SPARQL term: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Template tag building a fragment from SPARQL text and terms
+ *
+ * @example sparql`${iri(pointIri)} cim:DiagramObjectPoint.xPosition ${float(x)} .`
+ */
+export function sparql(strings: TemplateStringsArray, ...values: SparqlValue[]): SparqlFragment {
+  return new SparqlFragment(strings.reduce((text, part, index) =>
+      text + formatValue(values[index - 1]) + part));
+}
+
+export function iri(value: string): Iri {
+  return new Iri(value);
+}
+
+export function variable(name: string): Variable {
+  return new Variable(name);
+}
+
+/**
+ * Plain string literal
+ */
+export function literal(value: string, language: string | null = null): Literal {
+  return new Literal(value, null, language);
+}
+
+export function integer(value: number): Literal {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`Invalid integer: ${value}`);
+  }
+  return new Literal(String(value), iri(XSD_INTEGER));
+}
+
+export function float(value: number): Literal {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+  return new Literal(String(value), iri(XSD_FLOAT));
+}
+
+export function boolean(value: boolean): Literal {
+  return new Literal(String(value === true), iri(XSD_BOOLEAN));
+}
+
+/**
+ * Convert a term from a SPARQL JSON result
+ *
+ * @param term - Term as returned in a result binding
+ * @returns Term that writes the same value back in SPARQL syntax
+ */
+export function fromResultTerm(term: SparqlTerm): Term {
+  switch (term.type) {
+    case 'uri':
+      return iri(term.value);
+    case 'bnode':
+      return new BlankNode(term.value);
+    case 'literal':
+    case 'typed-literal':
+      return new Literal(term.value, term.datatype ? iri(term.datatype) : null, term['xml:lang'] ?? null);
+    default:
+      throw new Error(`Unknown SPARQL term type: ${term.type}`);
+  }
+}
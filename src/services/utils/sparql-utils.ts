@@ -1,3 +1,7 @@
+import type { SparqlBinding } from '@/core/models/types';
+import { SparqlServerType } from '@/core/models/types';
+import { fromResultTerm, sparql, type SparqlFragment } from './sparql-terms';
+
 /**
  * Utility functions for SPARQL operations
  */
@@ -6,11 +10,33 @@
  * Get update endpoint URL from query endpoint
  * 
  * @param endpoint - SPARQL query endpoint
+ * @param serverType - Triple store behind the endpoint, which decides where updates are sent
  * @returns SPARQL update endpoint
  */
-export function getSparqlUpdateEndpoint(endpoint: string): string {
+export function getSparqlUpdateEndpoint(
+    endpoint: string,
+    serverType: SparqlServerType = SparqlServerType.GENERIC
+): string {
     if (!endpoint) throw new Error('Invalid endpoint');
     
+    const base = endpoint.replace(/\/+$/, '');
+    
+    switch (serverType) {
+      // Queries and updates share one URL
+      case SparqlServerType.VIRTUOSO:
+      case SparqlServerType.BLAZEGRAPH:
+        return endpoint;
+      
+      // Repository URL followed by /statements
+      case SparqlServerType.GRAPHDB:
+        return base.endsWith('/statements') ? base : `${base}/statements`;
+      
+      // Dataset or database URL followed by /update, also when given the query service
+      case SparqlServerType.FUSEKI:
+      case SparqlServerType.STARDOG:
+        return `${base.replace(/\/(query|sparql|update)$/, '')}/update`;
+    }
+    
     // If URL already ends with /update, use it as is
     if (endpoint.endsWith('/update')) {
       return endpoint;
@@ -35,4 +61,14 @@ export function getSparqlUpdateEndpoint(endpoint: string): string {
     } catch (e) {
       return false;
     }
-  }
\ No newline at end of file
+  }
+
+  /**
+   * Convert a binding of ?s ?p ?o into a triple pattern
+   * 
+   * @param binding - Result binding with s, p and o variables
+   * @returns Triple terminated with a dot
+   */
+  export function bindingToTriple(binding: SparqlBinding): SparqlFragment {
+    return sparql`${fromResultTerm(binding.s)} ${fromResultTerm(binding.p)} ${fromResultTerm(binding.o)} .`;
+  }
@@ -1,8 +1,20 @@
 import type { PointModel } from '@/core/models/PointModel';
 import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
-import type { ViewTransform, Point2D } from '@/core/models/types';
+import type { ViewTransform, Point2D, ObjectStyleConfig, DrawingState, LayoutPreview } from '@/core/models/types';
+import { DrawingTool } from '@/core/models/types';
 import { AppConfig } from '@/core/config/AppConfig';
-import { getDynamicSize } from './geometry';
+import { getDynamicSize, getYDirection, screenToWorld } from './geometry';
+
+/**
+ * Drawing operations the diagram objects are rendered with
+ * 
+ * A canvas context provides them, so does the SVG context of image exports.
+ */
+export type DrawingContext = Pick<CanvasRenderingContext2D,
+  'save' | 'restore' | 'translate' | 'scale' | 'rotate' |
+  'beginPath' | 'moveTo' | 'lineTo' | 'bezierCurveTo' | 'arc' | 'closePath' |
+  'fill' | 'stroke' | 'fillRect' | 'strokeRect' | 'fillText' | 'setLineDash' |
+  'fillStyle' | 'strokeStyle' | 'lineWidth' | 'font' | 'textAlign' | 'textBaseline'>;
 
 /**
  * Resize canvas to fit its container
@@ -32,7 +44,7 @@ export function resizeCanvas(canvas: HTMLCanvasElement, container: HTMLElement):
  * @param isSinglePoint - Whether this is a standalone point
  */
 export function renderPoint(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   point: PointModel,
   radius: number,
   isSelected: boolean,
@@ -59,14 +71,20 @@ export function renderPoint(
  * @param object - Diagram object to render
  * @param selectedPoints - Set of selected point IRIs
  * @param viewTransform - Current view transformation
+ * @param color - Line color, defaults to the configured line color
+ * @param showPoints - Whether to mark the points of the line, off in image exports
+ * @param path - Points the line is drawn through, the object's points unless simplified
  */
 export function renderLineOrPolygon(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   object: DiagramObjectModel,
   selectedPoints: Set<string>,
-  viewTransform: ViewTransform
+  viewTransform: ViewTransform,
+  color: string = AppConfig.canvas.colors.line,
+  showPoints: boolean = true,
+  path: Point2D[] = object.points
 ): void {
-  if (object.points.length < 2) return;
+  if (path.length < 2) return;
 
   // Calculate point radius based on zoom level
   const pointRadius = getDynamicSize(
@@ -76,10 +94,10 @@ export function renderLineOrPolygon(
   
   // Draw the line/polygon
   ctx.beginPath();
-  ctx.moveTo(object.points[0].x, object.points[0].y);
+  ctx.moveTo(path[0].x, path[0].y);
   
-  for (let i = 1; i < object.points.length; i++) {
-    ctx.lineTo(object.points[i].x, object.points[i].y);
+  for (let i = 1; i < path.length; i++) {
+    ctx.lineTo(path[i].x, path[i].y);
   }
   
   // Close the path if it's a polygon
@@ -87,9 +105,16 @@ export function renderLineOrPolygon(
     ctx.closePath();
   }
   
-  ctx.strokeStyle = AppConfig.canvas.colors.line;
-  ctx.lineWidth = 1 / viewTransform.scale;
+  const style = getObjectStyle(object);
+  
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = (style?.lineWidth ?? getEquipmentLineWidth(object.getEquipmentClass())) / viewTransform.scale;
+  ctx.setLineDash((style?.lineDash ?? []).map(length => length / viewTransform.scale));
   ctx.stroke();
+  ctx.restore();
+  
+  if (!showPoints) return;
   
   // Draw points
   for (const point of object.points) {
@@ -109,11 +134,13 @@ export function renderLineOrPolygon(
  * @param ctx - Canvas context
  * @param object - Text object to render
  * @param viewTransform - Current view transformation
+ * @param color - Text color
  */
 export function renderTextObject(
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   object: DiagramObjectModel,
-  viewTransform: ViewTransform
+  viewTransform: ViewTransform,
+  color: string = 'black'
 ): void {
   if (!object.isText || !object.textContent || object.points.length === 0) {
     return;
@@ -127,11 +154,273 @@ export function renderTextObject(
     viewTransform.scale
   );
   
+  ctx.save();
+  applyObjectPlacement(ctx, object, textPoint, viewTransform);
+  
   ctx.font = `${fontSize}px Arial`;
-  ctx.fillStyle = 'black';
+  ctx.fillStyle = color;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
-  ctx.fillText(object.textContent, textPoint.x, textPoint.y);
+  ctx.fillText(object.textContent, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Move the origin to the centre of an object's symbol or text
+ * 
+ * The point of the object is offset from the centre by offsetX/offsetY,
+ * and the symbol or text is rotated clockwise around that point. In a
+ * flipped view the Y axis is turned back so symbols and text stay upright.
+ * 
+ * @param ctx - Canvas context
+ * @param object - Diagram object
+ * @param point - Point the object is placed at
+ * @param viewTransform - Current view transformation
+ */
+function applyObjectPlacement(
+  ctx: DrawingContext,
+  object: DiagramObjectModel,
+  point: PointModel,
+  viewTransform: ViewTransform
+): void {
+  const yDirection = getYDirection(viewTransform);
+  ctx.translate(point.x, point.y);
+  ctx.scale(1, yDirection);
+  ctx.rotate(object.rotation * Math.PI / 180);
+  ctx.translate(-object.offsetX, -object.offsetY * yDirection);
+}
+
+/**
+ * Get the drawing attributes configured for the style of an object
+ * 
+ * @param object - Diagram object
+ * @returns Style configuration or null if the object has no configured style
+ */
+export function getObjectStyle(object: DiagramObjectModel): ObjectStyleConfig | null {
+  const styleName = object.style?.name?.trim().toLowerCase();
+  if (!styleName) return null;
+  
+  const entry = Object.entries(AppConfig.canvas.objectStyles)
+    .find(([name]) => name.toLowerCase() === styleName);
+  return entry ? entry[1] : null;
+}
+
+/**
+ * Draws a single-line symbol centered at the origin, sized to fit a square of the given size
+ */
+type SymbolRenderer = (ctx: DrawingContext, size: number) => void;
+
+function drawBreaker(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.fillRect(-half, -half, size, size);
+  ctx.strokeRect(-half, -half, size, size);
+}
+
+function drawDisconnector(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.beginPath();
+  ctx.moveTo(0, half);
+  ctx.lineTo(0, half / 2);
+  ctx.lineTo(-half * 0.8, -half * 0.6);
+  ctx.moveTo(-half / 2, -half / 2);
+  ctx.lineTo(half / 2, -half / 2);
+  ctx.moveTo(0, -half / 2);
+  ctx.lineTo(0, -half);
+  ctx.stroke();
+}
+
+function drawLoadBreakSwitch(ctx: DrawingContext, size: number): void {
+  drawDisconnector(ctx, size);
+  ctx.beginPath();
+  ctx.arc(0, -size / 4, size / 10, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+}
+
+function drawFuse(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.fillRect(-half / 2, -half, half, size);
+  ctx.strokeRect(-half / 2, -half, half, size);
+  ctx.beginPath();
+  ctx.moveTo(0, -half);
+  ctx.lineTo(0, half);
+  ctx.stroke();
+}
+
+function drawLoad(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.beginPath();
+  ctx.moveTo(0, -half);
+  ctx.lineTo(0, 0);
+  ctx.stroke();
+  
+  // Arrow pointing away from the connection
+  ctx.beginPath();
+  ctx.moveTo(-half / 2, 0);
+  ctx.lineTo(half / 2, 0);
+  ctx.lineTo(0, half);
+  ctx.closePath();
+  ctx.save();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawMachine(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.beginPath();
+  ctx.arc(0, 0, half, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  
+  // Sine wave inside the circle
+  ctx.beginPath();
+  ctx.moveTo(-half * 0.6, 0);
+  ctx.bezierCurveTo(-half * 0.3, -half * 0.6, 0, -half * 0.6, 0, 0);
+  ctx.bezierCurveTo(0, half * 0.6, half * 0.3, half * 0.6, half * 0.6, 0);
+  ctx.stroke();
+}
+
+function drawTransformer(ctx: DrawingContext, size: number): void {
+  const radius = size / 3;
+  ctx.beginPath();
+  ctx.arc(0, -radius / 2, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(0, radius / 2, radius, 0, Math.PI * 2);
+  ctx.stroke();
+}
+
+function drawCapacitor(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.beginPath();
+  ctx.moveTo(0, -half);
+  ctx.lineTo(0, -half / 4);
+  ctx.moveTo(-half, -half / 4);
+  ctx.lineTo(half, -half / 4);
+  ctx.moveTo(-half, half / 4);
+  ctx.lineTo(half, half / 4);
+  ctx.moveTo(0, half / 4);
+  ctx.lineTo(0, half);
+  ctx.stroke();
+}
+
+function drawExternalNetwork(ctx: DrawingContext, size: number): void {
+  const half = size / 2;
+  ctx.fillRect(-half, -half, size, size);
+  ctx.strokeRect(-half, -half, size, size);
+  ctx.beginPath();
+  ctx.moveTo(-half, -half);
+  ctx.lineTo(half, half);
+  ctx.moveTo(half, -half);
+  ctx.lineTo(-half, half);
+  ctx.stroke();
+}
+
+function drawBusbar(ctx: DrawingContext, size: number): void {
+  ctx.fillRect(-size, -size / 10, size * 2, size / 5);
+}
+
+function drawJunction(ctx: DrawingContext, size: number): void {
+  ctx.beginPath();
+  ctx.arc(0, 0, size / 6, 0, Math.PI * 2);
+  ctx.save();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.fill();
+  ctx.restore();
+}
+
+/**
+ * Symbols for equipment classes, keyed by the local name of the CIM class
+ */
+const equipmentSymbols: Record<string, SymbolRenderer> = {
+  Breaker: drawBreaker,
+  Recloser: drawBreaker,
+  Disconnector: drawDisconnector,
+  Switch: drawDisconnector,
+  GroundDisconnector: drawDisconnector,
+  Jumper: drawDisconnector,
+  LoadBreakSwitch: drawLoadBreakSwitch,
+  Sectionaliser: drawLoadBreakSwitch,
+  Fuse: drawFuse,
+  EnergyConsumer: drawLoad,
+  ConformLoad: drawLoad,
+  NonConformLoad: drawLoad,
+  StationSupply: drawLoad,
+  SynchronousMachine: drawMachine,
+  AsynchronousMachine: drawMachine,
+  EnergySource: drawMachine,
+  PowerTransformer: drawTransformer,
+  LinearShuntCompensator: drawCapacitor,
+  NonlinearShuntCompensator: drawCapacitor,
+  ExternalNetworkInjection: drawExternalNetwork,
+  EquivalentInjection: drawExternalNetwork,
+  BusbarSection: drawBusbar,
+  Junction: drawJunction,
+  ConnectivityNode: drawJunction,
+  TopologicalNode: drawJunction
+};
+
+/**
+ * Line widths in pixels for equipment drawn as lines, other objects use 1
+ */
+const equipmentLineWidths: Record<string, number> = {
+  BusbarSection: 4,
+  ACLineSegment: 1.5,
+  DCLineSegment: 1.5
+};
+
+/**
+ * Check if there is a symbol for an equipment class
+ * 
+ * @param className - CIM class of the equipment
+ * @returns True if a symbol is available
+ */
+export function hasEquipmentSymbol(className: string | null): boolean {
+  return !!className && className in equipmentSymbols;
+}
+
+/**
+ * Get the line width for equipment drawn as a line or polygon
+ * 
+ * @param className - CIM class of the equipment
+ * @returns Line width in pixels
+ */
+export function getEquipmentLineWidth(className: string | null): number {
+  return (className && equipmentLineWidths[className]) || 1;
+}
+
+/**
+ * Render the single-line symbol of the equipment a point object depicts
+ * 
+ * @param ctx - Canvas context
+ * @param object - Single-point object depicting the equipment
+ * @param viewTransform - Current view transformation
+ * @param color - Symbol color, defaults to the configured line color
+ */
+export function renderEquipmentSymbol(
+  ctx: DrawingContext,
+  object: DiagramObjectModel,
+  viewTransform: ViewTransform,
+  color: string = AppConfig.canvas.colors.line
+): void {
+  const className = object.getEquipmentClass();
+  const drawSymbol = className ? equipmentSymbols[className] : undefined;
+  if (!drawSymbol || object.points.length === 0) return;
+  
+  const style = getObjectStyle(object);
+  
+  ctx.save();
+  applyObjectPlacement(ctx, object, object.points[0], viewTransform);
+  ctx.strokeStyle = color;
+  ctx.fillStyle = AppConfig.canvas.colors.symbolFill;
+  ctx.lineWidth = (style?.lineWidth ?? 1.5) / viewTransform.scale;
+  ctx.setLineDash((style?.lineDash ?? []).map(length => length / viewTransform.scale));
+  
+  drawSymbol(ctx, AppConfig.canvas.symbolSize);
+  
+  ctx.restore();
 }
 
 /**
@@ -159,6 +448,113 @@ export function renderSelectionRectangle(
   ctx.strokeRect(startX, startY, width, height);
 }
 
+/**
+ * Render the object being drawn with the drawing tool
+ * 
+ * @param ctx - Canvas context
+ * @param drawing - Drawing tool state with the placed points and cursor
+ * @param viewTransform - Current view transformation
+ */
+export function renderDrawingPreview(
+  ctx: CanvasRenderingContext2D,
+  drawing: DrawingState,
+  viewTransform: ViewTransform
+): void {
+  const points = drawing.cursor ? [...drawing.points, drawing.cursor] : drawing.points;
+  if (points.length === 0) return;
+  
+  const color = AppConfig.canvas.colors.drawingPreview;
+  const radius = getDynamicSize(AppConfig.canvas.pointSize, viewTransform.scale);
+  
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 1.5 / viewTransform.scale;
+  
+  // Placed segments
+  ctx.setLineDash([]);
+  if (drawing.points.length > 1) {
+    ctx.beginPath();
+    ctx.moveTo(drawing.points[0].x, drawing.points[0].y);
+    for (let i = 1; i < drawing.points.length; i++) {
+      ctx.lineTo(drawing.points[i].x, drawing.points[i].y);
+    }
+    ctx.stroke();
+  }
+  
+  // Segments to the cursor and closing the polygon are not placed yet
+  if (points.length > drawing.points.length && drawing.points.length > 0) {
+    const last = drawing.points[drawing.points.length - 1];
+    ctx.setLineDash([4 / viewTransform.scale, 4 / viewTransform.scale]);
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+    if (drawing.tool === DrawingTool.POLYGON && points.length > 2) {
+      ctx.lineTo(points[0].x, points[0].y);
+    }
+    ctx.stroke();
+  }
+  
+  ctx.setLineDash([]);
+  points.forEach(point => {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  
+  if (drawing.tool === DrawingTool.TEXT && drawing.text) {
+    const fontSize = getDynamicSize(AppConfig.canvas.fontSize, viewTransform.scale);
+    ctx.font = `${fontSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.translate(points[0].x, points[0].y);
+    ctx.scale(1, getYDirection(viewTransform));
+    ctx.fillText(drawing.text, 0, 0);
+  }
+  
+  ctx.restore();
+}
+
+/**
+ * Render the positions proposed by the auto-layout
+ * 
+ * @param ctx - Canvas context
+ * @param preview - Computed layout
+ * @param viewTransform - Current view transformation
+ */
+export function renderLayoutPreview(
+  ctx: CanvasRenderingContext2D,
+  preview: LayoutPreview,
+  viewTransform: ViewTransform
+): void {
+  const radius = getDynamicSize(AppConfig.canvas.pointSize, viewTransform.scale);
+  
+  ctx.save();
+  ctx.strokeStyle = AppConfig.canvas.colors.layoutPreview;
+  ctx.fillStyle = AppConfig.canvas.colors.layoutPreview;
+  ctx.lineWidth = 1.5 / viewTransform.scale;
+  ctx.setLineDash([4 / viewTransform.scale, 4 / viewTransform.scale]);
+  
+  preview.placements.forEach(placement => {
+    const positions = placement.positions;
+    
+    if (positions.length === 1) {
+      ctx.beginPath();
+      ctx.arc(positions[0].x, positions[0].y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    
+    ctx.beginPath();
+    ctx.moveTo(positions[0].x, positions[0].y);
+    for (let i = 1; i < positions.length; i++) {
+      ctx.lineTo(positions[i].x, positions[i].y);
+    }
+    ctx.stroke();
+  });
+  
+  ctx.restore();
+}
 
 /**
  * Render grid on canvas
@@ -176,8 +572,11 @@ export function renderGrid(
   canvasHeight: number,
   gridSize: number
 ): void {
-  const startX = Math.floor(-viewTransform.offsetX / viewTransform.scale / gridSize) * gridSize;
-  const startY = Math.floor(-viewTransform.offsetY / viewTransform.scale / gridSize) * gridSize;
+  // The top screen edge is the largest visible Y when the view is flipped
+  const topLeft = screenToWorld(0, 0, viewTransform);
+  const bottomLeft = screenToWorld(0, canvasHeight, viewTransform);
+  const startX = Math.floor(topLeft.x / gridSize) * gridSize;
+  const startY = Math.floor(Math.min(topLeft.y, bottomLeft.y) / gridSize) * gridSize;
   
   const endX = startX + Math.ceil(canvasWidth / viewTransform.scale / gridSize) * gridSize + gridSize;
   const endY = startY + Math.ceil(canvasHeight / viewTransform.scale / gridSize) * gridSize + gridSize;
@@ -0,0 +1,53 @@
+/**
+ * Colors used by the configuration, others are resolved by the browser
+ */
+const namedColors: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  orange: [255, 165, 0],
+  darkorange: [255, 140, 0],
+  mediumseagreen: [60, 179, 113]
+};
+
+let colorContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Get the RGB components of a CSS color, black if it cannot be read
+ *
+ * @param style - CSS color, gradients and patterns are read as black
+ * @returns Red, green and blue from 0 to 255
+ */
+export function parseColor(style: string | CanvasGradient | CanvasPattern): [number, number, number] {
+  if (typeof style !== 'string') return [0, 0, 0];
+  let color = style.trim().toLowerCase();
+
+  if (!(color in namedColors) && !color.startsWith('#') && !color.startsWith('rgb')) {
+    // Let the browser turn other color names into hex notation
+    if (colorContext === undefined) {
+      colorContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+    }
+    if (colorContext) {
+      colorContext.fillStyle = '#000';
+      colorContext.fillStyle = color;
+      color = String(colorContext.fillStyle);
+    }
+  }
+
+  if (color in namedColors) return namedColors[color];
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit) : hex[1].match(/../g)!;
+    return digits.map(digit => parseInt(digit, 16)) as [number, number, number];
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+
+  return [0, 0, 0];
+}
@@ -0,0 +1,21 @@
+/**
+ * Offer content to the user as a file download
+ * 
+ * @param content - File content
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  
+  // Give the browser time to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -22,6 +22,16 @@ export function distanceSquared(x1: number, y1: number, x2: number, y2: number):
   return dx * dx + dy * dy;
 }
 
+/**
+ * Direction of the world Y axis on screen
+ * 
+ * @param viewTransform - Current view transformation
+ * @returns 1 if world Y grows downwards like screen Y, -1 if it grows upwards
+ */
+export function getYDirection(viewTransform: ViewTransform): number {
+  return viewTransform.flipY ? -1 : 1;
+}
+
 /**
  * Convert screen coordinates to world coordinates
  * 
@@ -33,7 +43,7 @@ export function distanceSquared(x1: number, y1: number, x2: number, y2: number):
 export function screenToWorld(screenX: number, screenY: number, viewTransform: ViewTransform): Point2D {
   return {
     x: (screenX - viewTransform.offsetX) / viewTransform.scale,
-    y: (screenY - viewTransform.offsetY) / viewTransform.scale
+    y: (screenY - viewTransform.offsetY) / (viewTransform.scale * getYDirection(viewTransform))
   };
 }
 
@@ -48,7 +58,7 @@ export function screenToWorld(screenX: number, screenY: number, viewTransform: V
 export function worldToScreen(worldX: number, worldY: number, viewTransform: ViewTransform): Point2D {
   return {
     x: worldX * viewTransform.scale + viewTransform.offsetX,
-    y: worldY * viewTransform.scale + viewTransform.offsetY
+    y: worldY * viewTransform.scale * getYDirection(viewTransform) + viewTransform.offsetY
   };
 }
 
@@ -177,8 +187,15 @@ export function findClosestLineSegment(
   let closestResult = null;
   let closestDistSquared = maxDistanceSquared;
   
-  // Process each object in the diagram
-  for (const object of diagram.objects) {
+  // Process the objects whose bounds are within reach
+  const candidates = diagram.findObjectsInBounds({
+    minX: point.x - maxDistance,
+    minY: point.y - maxDistance,
+    maxX: point.x + maxDistance,
+    maxY: point.y + maxDistance
+  });
+  
+  for (const object of candidates) {
     if (object.points.length < 2) continue;
     
     // Find closest segment from regular segments
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { DiagramModel } from '@/core/models/DiagramModel';
+import { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import { PointModel } from '@/core/models/PointModel';
+import { findCoincidentPoints, proposeGluePoints } from './gluing';
+
+/**
+ * Diagram with one object per entry, named by the keys
+ */
+function createDiagram(objects: Record<string, [number, number][]>): DiagramModel {
+  const diagram = new DiagramModel();
+  Object.entries(objects).forEach(([name, positions], order) => {
+    const object = new DiagramObjectModel(`urn:${name}`, order, false, false, '');
+    diagram.addObject(object);
+    positions.forEach(([x, y], index) => {
+      const point = new PointModel(`urn:${name}/${index}`, x, y, index, object);
+      object.addPoint(point);
+      diagram.addPoint(point);
+    });
+  });
+  return diagram;
+}
+
+function pointIrisOf(groups: PointModel[][]): string[][] {
+  return groups.map(group => group.map(point => point.iri));
+}
+
+describe('findCoincidentPoints', () => {
+  it('groups the ends of lines meeting at a point', () => {
+    const diagram = createDiagram({
+      a: [[0, 0], [10, 0]],
+      b: [[10.5, 0], [20, 0]],
+      c: [[10, 0.5]]
+    });
+
+    expect(pointIrisOf(findCoincidentPoints(diagram, 1))).toEqual([['urn:a/1', 'urn:b/0', 'urn:c/0']]);
+  });
+
+  it('skips inner points, glued points, texts and polygons', () => {
+    const diagram = createDiagram({
+      line: [[0, 0], [5, 0], [10, 0]],
+      symbol: [[5, 0]],
+      glued: [[0, 0]],
+      other: [[0.2, 0]]
+    });
+    diagram.createGluePoint(['urn:glued/0', 'urn:other/0']);
+
+    expect(findCoincidentPoints(diagram, 1)).toEqual([]);
+
+    const shapes = createDiagram({ a: [[0, 0]], b: [[0, 0]] });
+    shapes.objects[0].isText = true;
+    shapes.objects[1].isPolygon = true;
+    expect(findCoincidentPoints(shapes, 1)).toEqual([]);
+  });
+
+  it('takes one point per object', () => {
+    // Both ends of the short line are close to the symbol
+    const diagram = createDiagram({
+      short: [[0, 0], [0.6, 0]],
+      symbol: [[0.5, 0]]
+    });
+
+    expect(pointIrisOf(findCoincidentPoints(diagram, 1))).toEqual([['urn:short/1', 'urn:symbol/0']]);
+  });
+
+  it('does not chain points each close to the next into one group', () => {
+    const diagram = createDiagram({
+      a: [[0, 0]],
+      b: [[0.8, 0]],
+      c: [[1.6, 0]],
+      d: [[2.4, 0]]
+    });
+
+    const groups = findCoincidentPoints(diagram, 1);
+
+    expect(pointIrisOf(groups)).toEqual([['urn:a/0', 'urn:b/0'], ['urn:c/0', 'urn:d/0']]);
+    groups.forEach(group => group.forEach(point => group.forEach(other => {
+      expect(Math.hypot(point.x - other.x, point.y - other.y)).toBeLessThanOrEqual(1);
+    })));
+  });
+
+  it('joins the closest pair first', () => {
+    const diagram = createDiagram({
+      a: [[0, 0]],
+      b: [[0.9, 0]],
+      c: [[1.05, 0]]
+    });
+
+    expect(pointIrisOf(findCoincidentPoints(diagram, 1))).toEqual([['urn:b/0', 'urn:c/0']]);
+  });
+
+  it('finds points across cell borders', () => {
+    const diagram = createDiagram({ a: [[-0.1, -0.1]], b: [[0.1, 0.1]] });
+
+    expect(pointIrisOf(findCoincidentPoints(diagram, 1))).toEqual([['urn:a/0', 'urn:b/0']]);
+  });
+});
+
+describe('proposeGluePoints', () => {
+  const diagram = () => createDiagram({
+    line: [[0, 0], [10, 0]],
+    breaker: [[10, 0.2]],
+    load: [[10.2, 0]]
+  });
+
+  it('proposes groups at their centre without checking the topology', () => {
+    const proposals = proposeGluePoints(diagram(), 1, null);
+
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0].pointIris).toEqual(['urn:line/1', 'urn:breaker/0', 'urn:load/0']);
+    expect(proposals[0].center.x).toBeCloseTo(10.0667);
+    expect(proposals[0].center.y).toBeCloseTo(0.0667);
+    expect(proposals[0].topologyConfirmed).toBe(false);
+  });
+
+  it('confirms groups whose equipment all shares nodes', () => {
+    const nodes = new Map([
+      ['urn:line', new Set(['urn:node1'])],
+      ['urn:breaker', new Set(['urn:node1', 'urn:node2'])],
+      ['urn:load', new Set(['urn:node1'])]
+    ]);
+
+    const proposals = proposeGluePoints(diagram(), 1, nodes);
+
+    expect(proposals.map(proposal => proposal.topologyConfirmed)).toEqual([true]);
+  });
+
+  it('drops points of equipment connected to none of the others', () => {
+    const nodes = new Map([
+      ['urn:line', new Set(['urn:node1'])],
+      ['urn:breaker', new Set(['urn:node1'])],
+      ['urn:load', new Set(['urn:node3'])]
+    ]);
+
+    const proposals = proposeGluePoints(diagram(), 1, nodes);
+
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0].pointIris).toEqual(['urn:line/1', 'urn:breaker/0']);
+    expect(proposals[0].topologyConfirmed).toBe(true);
+  });
+
+  it('keeps points of equipment without known nodes unconfirmed', () => {
+    const nodes = new Map([
+      ['urn:line', new Set(['urn:node1'])],
+      ['urn:breaker', new Set(['urn:node1'])]
+    ]);
+
+    const proposals = proposeGluePoints(diagram(), 1, nodes);
+
+    expect(proposals[0].pointIris).toEqual(['urn:line/1', 'urn:breaker/0', 'urn:load/0']);
+    expect(proposals[0].topologyConfirmed).toBe(false);
+  });
+
+  it('drops groups left with a single point', () => {
+    const nodes = new Map([
+      ['urn:a', new Set(['urn:node1'])],
+      ['urn:b', new Set(['urn:node2'])]
+    ]);
+
+    expect(proposeGluePoints(createDiagram({ a: [[0, 0]], b: [[0.5, 0]] }), 1, nodes)).toEqual([]);
+  });
+});
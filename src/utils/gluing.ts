@@ -0,0 +1,150 @@
+import type { DiagramModel } from '@/core/models/DiagramModel';
+import type { PointModel } from '@/core/models/PointModel';
+import type { GluePointProposal } from '@/core/models/types';
+
+/**
+ * Group points of different objects lying within a tolerance of each other
+ *
+ * Only the ends of lines and the points of single-point objects are
+ * considered, text objects, polygons and glued points are skipped. Groups are
+ * grown from the closest pairs and only joined while every point of the joined
+ * group stays within the tolerance of every other one, so that a chain of
+ * points each close to the next does not end up in a single group.
+ *
+ * @param diagram - Diagram to search
+ * @param tolerance - Maximum distance between any two points of a group
+ * @returns Groups with one point per object, at least two objects each
+ */
+export function findCoincidentPoints(diagram: DiagramModel, tolerance: number): PointModel[][] {
+  // Line ends and single points that are not glued yet
+  const candidates: PointModel[] = [];
+  diagram.objects.forEach(object => {
+    if (object.isText || object.isPolygon || object.points.length === 0) return;
+
+    const ends = object.points.length === 1
+      ? [object.points[0]]
+      : [object.points[0], object.points[object.points.length - 1]];
+    ends
+      .filter(point => !diagram.pointToGluePointMap.has(point.iri))
+      .forEach(point => candidates.push(point));
+  });
+
+  // Bucket the points so that only neighbouring cells are compared
+  const cellSize = Math.max(tolerance, 1e-6);
+  const cellKey = (i: number, j: number) => `${i},${j}`;
+  const cells = new Map<string, number[]>();
+  candidates.forEach((point, index) => {
+    const key = cellKey(Math.floor(point.x / cellSize), Math.floor(point.y / cellSize));
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(index);
+    } else {
+      cells.set(key, [index]);
+    }
+  });
+
+  const distance = (a: PointModel, b: PointModel) => Math.hypot(a.x - b.x, a.y - b.y);
+
+  // Pairs of points of different objects within the tolerance
+  const pairs: { a: number; b: number; distance: number }[] = [];
+  candidates.forEach((point, index) => {
+    const i = Math.floor(point.x / cellSize);
+    const j = Math.floor(point.y / cellSize);
+
+    for (let di = -1; di <= 1; di++) {
+      for (let dj = -1; dj <= 1; dj++) {
+        (cells.get(cellKey(i + di, j + dj)) ?? []).forEach(otherIndex => {
+          if (otherIndex <= index) return;
+
+          const other = candidates[otherIndex];
+          if (other.parentObject.iri === point.parentObject.iri) return;
+
+          const pairDistance = distance(point, other);
+          if (pairDistance <= tolerance) {
+            pairs.push({ a: index, b: otherIndex, distance: pairDistance });
+          }
+        });
+      }
+    }
+  });
+
+  // Join the groups of the closest pairs first
+  const groupOf = candidates.map((_, index) => index);
+  const groups = new Map<number, number[]>(candidates.map((_, index) => [index, [index]]));
+
+  pairs
+    .sort((p, q) => p.distance - q.distance || p.a - q.a || p.b - q.b)
+    .forEach(pair => {
+      const first = groupOf[pair.a];
+      const second = groupOf[pair.b];
+      if (first === second) return;
+
+      const members = groups.get(first)!;
+      const otherMembers = groups.get(second)!;
+      const fits = otherMembers.every(otherIndex => members.every(index => {
+        const point = candidates[index];
+        const other = candidates[otherIndex];
+        return point.parentObject.iri !== other.parentObject.iri && distance(point, other) <= tolerance;
+      }));
+      if (!fits) return;
+
+      otherMembers.forEach(index => {
+        groupOf[index] = first;
+        members.push(index);
+      });
+      groups.delete(second);
+    });
+
+  return Array.from(groups.values())
+    .filter(group => group.length >= 2)
+    .map(group => group.sort((a, b) => a - b).map(index => candidates[index]));
+}
+
+/**
+ * Propose glue points for groups of coincident points
+ *
+ * With the ConnectivityNodes of the objects' equipment, points whose
+ * equipment is connected to none of the other equipment with known nodes are
+ * dropped from a proposal. A proposal is confirmed by the topology if every
+ * remaining equipment shares a node with another one.
+ *
+ * @param diagram - Diagram to search
+ * @param tolerance - Maximum distance between any two points of a proposal
+ * @param objectNodes - ConnectivityNodes by object IRI, null to ignore the topology
+ * @returns Proposals without IRIs
+ */
+export function proposeGluePoints(
+    diagram: DiagramModel,
+    tolerance: number,
+    objectNodes: Map<string, Set<string>> | null
+): Omit<GluePointProposal, 'iri'>[] {
+  const nodesOf = (point: PointModel) => objectNodes?.get(point.parentObject.iri);
+  const sharesNode = (point: PointModel, other: PointModel) => {
+    const nodes = nodesOf(point);
+    const otherNodes = nodesOf(other);
+    return !!nodes && !!otherNodes && Array.from(nodes).some(node => otherNodes.has(node));
+  };
+
+  return findCoincidentPoints(diagram, tolerance).flatMap(group => {
+    // A point contradicts the topology if its equipment is connected
+    // to none of the other equipment with known terminals
+    const points = objectNodes
+      ? group.filter(point => {
+          const others = group.filter(other => other !== point && nodesOf(other));
+          return !nodesOf(point) || others.length === 0 || others.some(other => sharesNode(point, other));
+        })
+      : group;
+
+    if (points.length < 2) return [];
+
+    return [{
+      pointIris: points.map(point => point.iri),
+      center: {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+      },
+      topologyConfirmed: !!objectNodes &&
+        points.every(point => points.some(other => other !== point && sharesNode(point, other)))
+    }];
+  });
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { computeForceLayout } from './layout';
+import type { ForceLayoutOptions } from './layout';
+import type { LayoutEdge, LayoutNode, Point2D } from '@/core/models/types';
+
+const options: ForceLayoutOptions = { spacing: 10, iterations: 100, groupStrength: 0 };
+
+function node(id: string, position: Point2D | null = null, fixed = false, group?: string): LayoutNode {
+  return { id, position, fixed, group };
+}
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+describe('computeForceLayout', () => {
+  it('returns a finite position for every vertex', () => {
+    const nodes = ['a', 'b', 'c', 'd'].map(id => node(id));
+    const edges: LayoutEdge[] = [{ source: 'a', target: 'b' }, { source: 'b', target: 'c' }];
+
+    const positions = computeForceLayout(nodes, edges, options);
+
+    expect(Array.from(positions.keys())).toEqual(['a', 'b', 'c', 'd']);
+    positions.forEach(position => {
+      expect(Number.isFinite(position.x)).toBe(true);
+      expect(Number.isFinite(position.y)).toBe(true);
+    });
+  });
+
+  it('returns the same positions for the same input', () => {
+    const nodes = ['a', 'b', 'c'].map(id => node(id));
+    const edges: LayoutEdge[] = [{ source: 'a', target: 'b' }, { source: 'b', target: 'c' }];
+
+    expect(computeForceLayout(nodes, edges, options)).toEqual(computeForceLayout(nodes, edges, options));
+  });
+
+  it('keeps fixed vertices at their start position', () => {
+    const nodes = [node('a', { x: 100, y: 50 }, true), node('b'), node('c', { x: 0, y: 0 })];
+    const edges: LayoutEdge[] = [{ source: 'a', target: 'b' }, { source: 'b', target: 'c' }];
+
+    const positions = computeForceLayout(nodes, edges, options);
+
+    expect(positions.get('a')).toEqual({ x: 100, y: 50 });
+    expect(positions.get('c')).not.toEqual({ x: 0, y: 0 });
+  });
+
+  it('places vertices without a position next to a placed neighbour', () => {
+    const nodes = [node('a', { x: 100, y: 100 }, true), node('b')];
+
+    const positions = computeForceLayout(nodes, [{ source: 'a', target: 'b' }], { ...options, iterations: 0 });
+
+    expect(distance(positions.get('a')!, positions.get('b')!)).toBeCloseTo(options.spacing / 2);
+  });
+
+  it('separates vertices starting at the same position', () => {
+    const nodes = [node('a', { x: 0, y: 0 }), node('b', { x: 0, y: 0 })];
+
+    const positions = computeForceLayout(nodes, [], options);
+
+    expect(distance(positions.get('a')!, positions.get('b')!)).toBeGreaterThan(options.spacing / 2);
+  });
+
+  it('keeps connected vertices closer than unconnected ones', () => {
+    const nodes = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => node(id));
+    const edges: LayoutEdge[] = [
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'c' },
+      { source: 'd', target: 'e' },
+      { source: 'e', target: 'f' }
+    ];
+
+    const positions = computeForceLayout(nodes, edges, options);
+    const connected = distance(positions.get('a')!, positions.get('b')!);
+    const unconnected = distance(positions.get('a')!, positions.get('f')!);
+
+    expect(connected).toBeLessThan(unconnected);
+  });
+
+  it('ignores edges to unknown vertices and loops', () => {
+    const nodes = [node('a'), node('b')];
+    const edges: LayoutEdge[] = [{ source: 'a', target: 'missing' }, { source: 'a', target: 'a' }];
+
+    expect(computeForceLayout(nodes, edges, options)).toEqual(computeForceLayout(nodes, [], options));
+  });
+
+  it('pulls the vertices of a group together', () => {
+    const nodes = [
+      node('a1', null, false, 'a'), node('b1', null, false, 'b'),
+      node('a2', null, false, 'a'), node('b2', null, false, 'b')
+    ];
+
+    const loose = computeForceLayout(nodes, [], options);
+    const grouped = computeForceLayout(nodes, [], { ...options, groupStrength: 1 });
+
+    expect(distance(grouped.get('a1')!, grouped.get('a2')!))
+      .toBeLessThan(distance(loose.get('a1')!, loose.get('a2')!));
+    expect(distance(grouped.get('a1')!, grouped.get('a2')!))
+      .toBeLessThan(distance(grouped.get('a1')!, grouped.get('b1')!));
+  });
+});
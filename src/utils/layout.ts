@@ -0,0 +1,254 @@
+import type { LayoutEdge, LayoutNode, Point2D } from '@/core/models/types';
+
+/**
+ * Options of the force-directed layout
+ */
+export interface ForceLayoutOptions {
+  spacing: number;       // Preferred distance between connected vertices
+  iterations: number;    // Simulation steps
+  groupStrength: number; // Pull towards the centre of the own group, 0 disables it
+}
+
+// Angle between consecutive positions on a spiral, spreads them evenly
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Vertices farther apart than this many spacings do not repel each other
+const REPULSION_RANGE = 3;
+
+/**
+ * Position on a spiral around a centre
+ *
+ * @param centre - Centre of the spiral
+ * @param index - Position number, 0 is closest to the centre
+ * @param spacing - Distance between neighbouring positions
+ * @returns Position on the spiral
+ */
+function spiralPosition(centre: Point2D, index: number, spacing: number): Point2D {
+  const radius = spacing * Math.sqrt(index + 1);
+  const angle = index * GOLDEN_ANGLE;
+  return {
+    x: centre.x + radius * Math.cos(angle),
+    y: centre.y + radius * Math.sin(angle)
+  };
+}
+
+/**
+ * Compute positions for the vertices of a graph with a force-directed layout
+ *
+ * Follows Fruchterman-Reingold: vertices repel each other, connected vertices
+ * attract each other and vertices are pulled towards the centre of their group.
+ * Repulsion is only computed between nearby vertices, found with a grid of
+ * cells, so large networks stay fast. Vertices without a start position are
+ * placed next to an already placed neighbour, or near the centre of their
+ * group. The result is the same for the same input.
+ *
+ * @param nodes - Vertices of the graph
+ * @param edges - Connections between vertices, unknown ids are ignored
+ * @param options - Layout options
+ * @returns Position of every vertex by id
+ */
+export function computeForceLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: ForceLayoutOptions
+): Map<string, Point2D> {
+  const count = nodes.length;
+  const spacing = options.spacing;
+
+  const indexById = new Map<string, number>();
+  nodes.forEach((node, index) => indexById.set(node.id, index));
+
+  const neighbours: number[][] = nodes.map(() => []);
+  const links: Array<[number, number]> = [];
+  edges.forEach(edge => {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined || source === target) return;
+
+    links.push([source, target]);
+    neighbours[source].push(target);
+    neighbours[target].push(source);
+  });
+
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  const placed = new Array<boolean>(count).fill(false);
+  const movable = nodes.map(node => !node.fixed || !node.position);
+
+  // Start with the known positions
+  let knownX = 0;
+  let knownY = 0;
+  let knownCount = 0;
+  const queue: number[] = [];
+  nodes.forEach((node, index) => {
+    if (node.position) {
+      xs[index] = node.position.x;
+      ys[index] = node.position.y;
+      placed[index] = true;
+      queue.push(index);
+      knownX += node.position.x;
+      knownY += node.position.y;
+      knownCount++;
+    }
+  });
+
+  const centre = knownCount > 0 ? { x: knownX / knownCount, y: knownY / knownCount } : { x: 0, y: 0 };
+
+  // Groups without known positions start apart from each other
+  const groupCentres = new Map<string, Point2D>();
+  const getGroupCentre = (group: string): Point2D => {
+    let groupCentre = groupCentres.get(group);
+    if (!groupCentre) {
+      groupCentre = spiralPosition(centre, groupCentres.size, spacing * 8);
+      groupCentres.set(group, groupCentre);
+    }
+    return groupCentre;
+  };
+
+  // Place the remaining vertices next to placed neighbours, breadth first
+  let spiralIndex = 0;
+  let head = 0;
+  const placeNeighbours = () => {
+    while (head < queue.length) {
+      const current = queue[head++];
+      neighbours[current].forEach(neighbour => {
+        if (placed[neighbour]) return;
+
+        const position = spiralPosition({ x: xs[current], y: ys[current] }, spiralIndex++ % 8, spacing / 2);
+        xs[neighbour] = position.x;
+        ys[neighbour] = position.y;
+        placed[neighbour] = true;
+        queue.push(neighbour);
+      });
+    }
+  };
+
+  placeNeighbours();
+  nodes.forEach((node, index) => {
+    if (placed[index]) return;
+
+    const start = node.group ? getGroupCentre(node.group) : centre;
+    const position = spiralPosition(start, spiralIndex++, spacing);
+    xs[index] = position.x;
+    ys[index] = position.y;
+    placed[index] = true;
+    queue.push(index);
+    placeNeighbours();
+  });
+
+  const groups = nodes.map(node => node.group);
+  const hasGroups = options.groupStrength > 0 && groups.some(group => group !== undefined);
+  const range = spacing * REPULSION_RANGE;
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+
+  // The largest step shrinks to zero over the iterations
+  const startTemperature = spacing * Math.max(1, Math.sqrt(count) / 2);
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    // Repulsion between vertices in the same or adjacent grid cells
+    const cells = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+      const key = `${Math.floor(xs[i] / range)},${Math.floor(ys[i] / range)}`;
+      const cell = cells.get(key);
+      if (cell) {
+        cell.push(i);
+      } else {
+        cells.set(key, [i]);
+      }
+    }
+
+    for (let i = 0; i < count; i++) {
+      const cellX = Math.floor(xs[i] / range);
+      const cellY = Math.floor(ys[i] / range);
+
+      for (let offsetX = -1; offsetX <= 1; offsetX++) {
+        for (let offsetY = -1; offsetY <= 1; offsetY++) {
+          const cell = cells.get(`${cellX + offsetX},${cellY + offsetY}`);
+          if (!cell) continue;
+
+          for (const j of cell) {
+            if (j <= i) continue;
+
+            let deltaX = xs[i] - xs[j];
+            let deltaY = ys[i] - ys[j];
+            // Separate vertices at the same position in a reproducible direction
+            if (deltaX === 0 && deltaY === 0) {
+              deltaX = Math.cos(i * GOLDEN_ANGLE) * 0.01;
+              deltaY = Math.sin(i * GOLDEN_ANGLE) * 0.01;
+            }
+
+            const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+            if (distance > range) continue;
+
+            const force = spacing * spacing / distance;
+            dx[i] += deltaX / distance * force;
+            dy[i] += deltaY / distance * force;
+            dx[j] -= deltaX / distance * force;
+            dy[j] -= deltaY / distance * force;
+          }
+        }
+      }
+    }
+
+    // Attraction along edges
+    links.forEach(([source, target]) => {
+      const deltaX = xs[source] - xs[target];
+      const deltaY = ys[source] - ys[target];
+      const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+      if (distance === 0) return;
+
+      const force = distance / spacing;
+      dx[source] -= deltaX * force;
+      dy[source] -= deltaY * force;
+      dx[target] += deltaX * force;
+      dy[target] += deltaY * force;
+    });
+
+    // Attraction towards the centre of the own group
+    if (hasGroups) {
+      const sums = new Map<string, { x: number, y: number, count: number }>();
+      groups.forEach((group, i) => {
+        if (group === undefined) return;
+        const sum = sums.get(group) ?? { x: 0, y: 0, count: 0 };
+        sum.x += xs[i];
+        sum.y += ys[i];
+        sum.count++;
+        sums.set(group, sum);
+      });
+
+      groups.forEach((group, i) => {
+        const sum = group !== undefined ? sums.get(group) : undefined;
+        if (!sum || sum.count < 2) return;
+
+        const deltaX = sum.x / sum.count - xs[i];
+        const deltaY = sum.y / sum.count - ys[i];
+        const force = options.groupStrength * Math.sqrt(deltaX * deltaX + deltaY * deltaY) / spacing;
+        dx[i] += deltaX * force;
+        dy[i] += deltaY * force;
+      });
+    }
+
+    // Move the vertices, at most by the current temperature
+    const temperature = startTemperature * (1 - iteration / options.iterations);
+    for (let i = 0; i < count; i++) {
+      if (!movable[i]) continue;
+
+      const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (length === 0) continue;
+
+      const step = Math.min(length, temperature);
+      xs[i] += dx[i] / length * step;
+      ys[i] += dy[i] / length * step;
+    }
+  }
+
+  const positions = new Map<string, Point2D>();
+  nodes.forEach((node, index) => {
+    positions.set(node.id, { x: xs[index], y: ys[index] });
+  });
+  return positions;
+}
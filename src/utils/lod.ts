@@ -0,0 +1,47 @@
+import type { LevelOfDetail, Point2D } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+
+/**
+ * Get what is drawn at a zoom level
+ *
+ * @param scale - View scale in screen pixels per world unit
+ * @returns Level of detail for the configured thresholds
+ */
+export function getLevelOfDetail(scale: number): LevelOfDetail {
+  const thresholds = AppConfig.canvas.levelOfDetail;
+
+  return {
+    showPoints: scale >= thresholds.pointsMinScale,
+    showText: scale >= thresholds.textMinScale,
+    showSymbols: scale >= thresholds.symbolsMinScale,
+    minSegmentLength: thresholds.minSegmentPixels / scale
+  };
+}
+
+/**
+ * Drop the points of a path that are closer than a length to the previous point
+ *
+ * The first and the last point are always kept, so lines keep their ends.
+ *
+ * @param points - Points of the path
+ * @param minLength - Shortest segment that is kept
+ * @returns Simplified path, the given array if nothing was dropped
+ */
+export function simplifyPath<T extends Point2D>(points: T[], minLength: number): T[] {
+  if (points.length <= 2 || minLength <= 0) return points;
+
+  const minLengthSquared = minLength * minLength;
+  const simplified = [points[0]];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const previous = simplified[simplified.length - 1];
+    const dx = points[i].x - previous.x;
+    const dy = points[i].y - previous.y;
+    if (dx * dx + dy * dy >= minLengthSquared) {
+      simplified.push(points[i]);
+    }
+  }
+  simplified.push(points[points.length - 1]);
+
+  return simplified.length === points.length ? points : simplified;
+}
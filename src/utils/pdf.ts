@@ -0,0 +1,270 @@
+import { zlibSync } from 'fflate';
+import { VectorContext } from './vector';
+import { parseColor } from './color';
+
+/**
+ * Widths of the printable ASCII characters in Helvetica, in 1/1000 of the font size
+ */
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+/**
+ * Characters outside Latin-1 that the WinAnsi encoding of the standard fonts contains
+ */
+const winAnsiCodes: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+/**
+ * Format a number for PDF output, with at most three decimals
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function formatColor(style: string | CanvasGradient | CanvasPattern): string {
+  return parseColor(style).map(component => formatNumber(component / 255)).join(' ');
+}
+
+/**
+ * Encode text as a PDF string in the WinAnsi encoding, unknown characters become "?"
+ */
+function encodeText(text: string): string {
+  const encoded = Array.from(text).map(character => {
+    const code = character.charCodeAt(0);
+    if (character.length === 1 && ((code >= 32 && code <= 126) || (code >= 160 && code <= 255))) return character;
+    return character in winAnsiCodes ? String.fromCharCode(winAnsiCodes[character]) : '?';
+  }).join('');
+
+  return `(${encoded.replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+/**
+ * Get the width of text in Helvetica
+ *
+ * @param text - Text to measure
+ * @param fontSize - Font size
+ * @returns Width in the units of the font size
+ */
+export function measurePdfText(text: string, fontSize: number): number {
+  const width = Array.from(text).reduce((sum, character) => {
+    const code = character.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556);
+  }, 0);
+
+  return width * fontSize / 1000;
+}
+
+/**
+ * Drawing context that records canvas drawing operations as the content of a PDF page
+ *
+ * Coordinates are in points with the origin at the top left of the page and
+ * the Y axis pointing down, like on a canvas. All text is set in Helvetica,
+ * the standard font closest to the Arial used on screen.
+ */
+export class PdfContext extends VectorContext {
+  private operations: string[];
+
+  /**
+   * @param pageHeight - Height of the page in points
+   */
+  constructor(pageHeight: number) {
+    super();
+    this.operations = [`1 0 0 -1 0 ${formatNumber(pageHeight)} cm`];
+  }
+
+  save(): void {
+    super.save();
+    this.operations.push('q');
+  }
+
+  restore(): void {
+    super.restore();
+    this.operations.push('Q');
+  }
+
+  fill(): void {
+    if (this.path.length === 0) return;
+    this.operations.push(`${formatColor(this.state.fillStyle)} rg`, this.formatPath(), 'f');
+  }
+
+  stroke(): void {
+    if (this.path.length === 0) return;
+
+    const scaleFactor = this.getScaleFactor();
+    const dash = this.state.lineDash.map(length => formatNumber(length * scaleFactor)).join(' ');
+    this.operations.push(
+        `${formatColor(this.state.strokeStyle)} RG`,
+        `${formatNumber(this.state.lineWidth * scaleFactor)} w`,
+        `[${dash}] 0 d`,
+        this.formatPath(),
+        'S'
+    );
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const fontSize = Number(this.state.font.match(/([\d.]+)px/)?.[1] ?? 10);
+    const width = measurePdfText(text, fontSize);
+
+    const alignOffset = { start: 0, left: 0, center: -width / 2, right: -width, end: -width }[this.state.textAlign];
+    // Helvetica has an ascent of about 0.72 and a descent of about 0.21 of the font size
+    const baselineOffset = {
+      alphabetic: 0,
+      ideographic: -0.21,
+      bottom: -0.21,
+      middle: 0.36,
+      hanging: 0.72,
+      top: 0.72
+    }[this.state.textBaseline] * fontSize;
+
+    // Text space points up, so it is mirrored back into the page coordinates
+    this.operations.push(
+        'q',
+        `${this.state.matrix.map(formatNumber).join(' ')} cm`,
+        'BT',
+        `/F1 ${formatNumber(fontSize)} Tf`,
+        `${formatColor(this.state.fillStyle)} rg`,
+        `1 0 0 -1 ${formatNumber(x + alignOffset)} ${formatNumber(y + baselineOffset)} Tm`,
+        `${encodeText(text)} Tj`,
+        'ET',
+        'Q'
+    );
+  }
+
+  /**
+   * Restrict drawing to a rectangle until the state is restored
+   */
+  clipRect(x: number, y: number, width: number, height: number): void {
+    const corners = [
+      this.transformPoint(x, y),
+      this.transformPoint(x + width, y),
+      this.transformPoint(x + width, y + height),
+      this.transformPoint(x, y + height)
+    ];
+    this.operations.push(
+        corners.map((point, index) => `${formatNumber(point.x)} ${formatNumber(point.y)} ${index === 0 ? 'm' : 'l'}`).join(' '),
+        'h W n'
+    );
+  }
+
+  /**
+   * Get the content stream of the page
+   */
+  getContent(): string {
+    return this.operations.join('\n');
+  }
+
+  private formatPath(): string {
+    return this.path.map(segment => {
+      switch (segment.type) {
+        case 'move':
+          return `${formatNumber(segment.point.x)} ${formatNumber(segment.point.y)} m`;
+        case 'line':
+          return `${formatNumber(segment.point.x)} ${formatNumber(segment.point.y)} l`;
+        case 'curve':
+          return `${segment.points.map(point => `${formatNumber(point.x)} ${formatNumber(point.y)}`).join(' ')} c`;
+        case 'close':
+          return 'h';
+      }
+    }).join(' ');
+  }
+}
+
+/**
+ * Minimal PDF document of vector pages
+ */
+export class PdfDocument {
+  private pages: Array<{ width: number; height: number; context: PdfContext }> = [];
+
+  /**
+   * @param info - Title and author shown in the document properties
+   */
+  constructor(private info: { title?: string; author?: string } = {}) {}
+
+  /**
+   * Add a page to the end of the document
+   *
+   * @param width - Page width in points
+   * @param height - Page height in points
+   * @returns Context to draw the page with
+   */
+  addPage(width: number, height: number): PdfContext {
+    const context = new PdfContext(height);
+    this.pages.push({ width, height, context });
+    return context;
+  }
+
+  /**
+   * Write the document
+   *
+   * @returns PDF file
+   */
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (content: string | Uint8Array) => {
+      const bytes = typeof content === 'string'
+        ? Uint8Array.from(content, character => character.charCodeAt(0))
+        : content;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const writeObject = (number: number, content: string | Uint8Array[]) => {
+      offsets[number] = length;
+      write(`${number} 0 obj\n`);
+      (typeof content === 'string' ? [content] : content).forEach(write);
+      write('\nendobj\n');
+    };
+
+    // Objects 1 to 4 are shared, each page adds its page and content objects
+    const pageNumber = (index: number) => 5 + index * 2;
+    const infoEntries = [
+      this.info.title ? `/Title ${encodeText(this.info.title)}` : '',
+      this.info.author ? `/Author ${encodeText(this.info.author)}` : '',
+      '/Producer (CGMES DiagramLayout Editor)'
+    ].filter(Boolean).join(' ');
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${this.pages.map((_, index) => `${pageNumber(index)} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject(4, `<< ${infoEntries} >>`);
+
+    this.pages.forEach((page, index) => {
+      const stream = zlibSync(Uint8Array.from(page.context.getContent(), character => character.charCodeAt(0)));
+      writeObject(pageNumber(index),
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}]` +
+          ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageNumber(index) + 1} 0 R >>`);
+      writeObject(pageNumber(index) + 1, [
+        Uint8Array.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, character => character.charCodeAt(0)),
+        stream,
+        Uint8Array.from('\nendstream', character => character.charCodeAt(0))
+      ]);
+    });
+
+    const objectCount = 5 + this.pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let number = 1; number < objectCount; number++) {
+      write(`${String(offsets[number]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    chunks.reduce((offset, chunk) => {
+      output.set(chunk, offset);
+      return offset + chunk.length;
+    }, 0);
+
+    return new Blob([output], { type: 'application/pdf' });
+  }
+}
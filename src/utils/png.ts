@@ -0,0 +1,45 @@
+/**
+ * CRC-32 lookup table used by PNG chunks
+ */
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Store the resolution in a PNG image, so that it is printed and placed in documents at its intended size
+ *
+ * Canvas encoders leave the resolution out, which applications read as 72 or 96 DPI.
+ * A pHYs chunk is inserted right after the IHDR chunk, which always comes first.
+ *
+ * @param png - PNG image without a pHYs chunk
+ * @param dpi - Resolution in dots per inch
+ * @returns PNG image with the resolution
+ */
+export async function setPngResolution(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const headerEnd = 8 + 25; // Signature, then the IHDR chunk with 13 bytes of data
+
+  const dotsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, dotsPerMeter);
+  view.setUint32(12, dotsPerMeter);
+  chunk[16] = 1; // Unit is the meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: 'image/png' });
+}
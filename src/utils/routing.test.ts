@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { routeOrthogonal } from './routing';
+import type { OrthogonalRouteOptions } from './routing';
+import type { Bounds, Point2D } from '@/core/models/types';
+
+const options: OrthogonalRouteOptions = { margin: 5, bendPenalty: 20 };
+
+function box(minX: number, minY: number, maxX: number, maxY: number): Bounds {
+  return { minX, minY, maxX, maxY };
+}
+
+function expectOrthogonal(route: Point2D[]): void {
+  route.slice(1).forEach((point, index) => {
+    const previous = route[index];
+    expect(point.x === previous.x || point.y === previous.y).toBe(true);
+  });
+}
+
+/**
+ * Whether any segment of a route runs through the inside of bounds
+ */
+function crosses(route: Point2D[], bounds: Bounds): boolean {
+  return route.slice(1).some((point, index) => {
+    const previous = route[index];
+    const minX = Math.min(previous.x, point.x);
+    const maxX = Math.max(previous.x, point.x);
+    const minY = Math.min(previous.y, point.y);
+    const maxY = Math.max(previous.y, point.y);
+    return maxX > bounds.minX && minX < bounds.maxX && maxY > bounds.minY && minY < bounds.maxY;
+  });
+}
+
+describe('routeOrthogonal', () => {
+  it('connects aligned points with a straight segment', () => {
+    expect(routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 0 }, [], options))
+      .toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+  });
+
+  it('connects other points with a single bend', () => {
+    const route = routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 50 }, [], options)!;
+
+    expect(route).toHaveLength(3);
+    expect(route[0]).toEqual({ x: 0, y: 0 });
+    expect(route[2]).toEqual({ x: 100, y: 50 });
+    expectOrthogonal(route);
+  });
+
+  it('goes around obstacles with the margin', () => {
+    const obstacle = box(40, -20, 60, 20);
+
+    const route = routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 0 }, [obstacle], options)!;
+
+    expect(route[0]).toEqual({ x: 0, y: 0 });
+    expect(route.at(-1)).toEqual({ x: 100, y: 0 });
+    expectOrthogonal(route);
+    expect(crosses(route, box(35, -25, 65, 25))).toBe(false);
+    // Leaving the straight line and coming back to it takes two bends
+    expect(route).toHaveLength(4);
+  });
+
+  it('bends at the free corner', () => {
+    const corner = box(-10, 90, 10, 110);
+
+    expect(routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 100 }, [corner], options))
+      .toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }]);
+  });
+
+  it('prefers one bend to a step through the middle of equal length', () => {
+    const route = routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 2 }, [], options)!;
+
+    expect(route).toHaveLength(3);
+    expectOrthogonal(route);
+  });
+
+  it('leaves the symbols the ends are connected to', () => {
+    const startSymbol = box(-10, -10, 10, 10);
+    const endSymbol = box(90, -10, 110, 10);
+
+    expect(routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 0 }, [startSymbol, endSymbol], options))
+      .toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+  });
+
+  it('ignores obstacles far away from both ends', () => {
+    const far = box(10000, 10000, 10010, 10010);
+
+    expect(routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 0 }, [far], options))
+      .toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+  });
+
+  it('returns null if the end is walled in', () => {
+    const walls = [
+      box(80, -30, 120, -20),
+      box(80, 20, 120, 30),
+      box(80, -30, 90, 30),
+      box(110, -30, 120, 30)
+    ];
+
+    expect(routeOrthogonal({ x: 0, y: 0 }, { x: 100, y: 0 }, walls, options)).toBeNull();
+  });
+});
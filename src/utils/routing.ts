@@ -0,0 +1,243 @@
+import type { Bounds, Point2D } from '@/core/models/types';
+
+/**
+ * Options of the orthogonal router
+ */
+export interface OrthogonalRouteOptions {
+  margin: number;       // Clearance kept around obstacles
+  bendPenalty: number;  // Extra cost of a bend, in world units of length
+}
+
+// Directions a route can arrive at a grid node from
+const NO_DIRECTION = 0;
+const HORIZONTAL = 1;
+const VERTICAL = 2;
+
+/**
+ * Minimal binary heap of grid states ordered by their estimated cost
+ */
+class StateQueue {
+  private states: number[] = [];
+  private costs: number[] = [];
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  push(state: number, cost: number): void {
+    this.states.push(state);
+    this.costs.push(cost);
+
+    let index = this.states.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.costs[parent] <= this.costs[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.states[0];
+    const lastState = this.states.pop()!;
+    const lastCost = this.costs.pop()!;
+
+    if (this.states.length > 0) {
+      this.states[0] = lastState;
+      this.costs[0] = lastCost;
+
+      let index = 0;
+      while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.costs.length && this.costs[left] < this.costs[smallest]) smallest = left;
+        if (right < this.costs.length && this.costs[right] < this.costs[smallest]) smallest = right;
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.states[a], this.states[b]] = [this.states[b], this.states[a]];
+    [this.costs[a], this.costs[b]] = [this.costs[b], this.costs[a]];
+  }
+}
+
+/**
+ * Sorted distinct values
+ */
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+/**
+ * Whether a position lies strictly inside bounds
+ */
+function isInside(bounds: Bounds, x: number, y: number): boolean {
+  return x > bounds.minX && x < bounds.maxX && y > bounds.minY && y < bounds.maxY;
+}
+
+/**
+ * Remove points in the middle of straight runs
+ */
+function removeCollinearPoints(points: Point2D[]): Point2D[] {
+  return points.filter((point, index) => {
+    if (index === 0 || index === points.length - 1) return true;
+
+    const previous = points[index - 1];
+    const next = points[index + 1];
+    return !((previous.x === point.x && point.x === next.x) || (previous.y === point.y && point.y === next.y));
+  });
+}
+
+/**
+ * Find a route of horizontal and vertical segments between two points
+ *
+ * The route runs along a sparse grid made of the coordinates of both ends,
+ * their middle and the sides of the obstacles enlarged by the margin. It is
+ * the shortest route on that grid, with every bend counted as extra length.
+ * Obstacles containing one of the ends are ignored, since the route has to
+ * leave the symbol it is connected to. Only obstacles near the box spanned
+ * by both ends are considered, which keeps the grid small in large diagrams.
+ *
+ * @param start - First point of the route
+ * @param end - Last point of the route
+ * @param obstacles - Bounding boxes the route must not cross
+ * @param options - Router options
+ * @returns Points of the route including both ends, or null if there is none
+ */
+export function routeOrthogonal(
+  start: Point2D,
+  end: Point2D,
+  obstacles: Bounds[],
+  options: OrthogonalRouteOptions
+): Point2D[] | null {
+  const margin = options.margin;
+  const padding = Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y)) / 2 + margin * 4;
+  const area: Bounds = {
+    minX: Math.min(start.x, end.x) - padding,
+    minY: Math.min(start.y, end.y) - padding,
+    maxX: Math.max(start.x, end.x) + padding,
+    maxY: Math.max(start.y, end.y) + padding
+  };
+
+  const blocking = obstacles
+    .filter(bounds =>
+      bounds.maxX >= area.minX && bounds.minX <= area.maxX &&
+      bounds.maxY >= area.minY && bounds.minY <= area.maxY)
+    .map(bounds => ({
+      minX: bounds.minX - margin,
+      minY: bounds.minY - margin,
+      maxX: bounds.maxX + margin,
+      maxY: bounds.maxY + margin
+    }))
+    .filter(bounds => !isInside(bounds, start.x, start.y) && !isInside(bounds, end.x, end.y));
+
+  const xs = uniqueSorted([
+    start.x,
+    end.x,
+    (start.x + end.x) / 2,
+    ...blocking.flatMap(bounds => [bounds.minX, bounds.maxX])
+  ]);
+  const ys = uniqueSorted([
+    start.y,
+    end.y,
+    (start.y + end.y) / 2,
+    ...blocking.flatMap(bounds => [bounds.minY, bounds.maxY])
+  ]);
+
+  const columns = xs.length;
+  const nodeCount = xs.length * ys.length;
+  const nodeIndex = (i: number, j: number) => j * columns + i;
+
+  // Nodes inside an obstacle cannot be used
+  const blocked = new Uint8Array(nodeCount);
+  for (let j = 0; j < ys.length; j++) {
+    for (let i = 0; i < columns; i++) {
+      if (blocking.some(bounds => isInside(bounds, xs[i], ys[j]))) {
+        blocked[nodeIndex(i, j)] = 1;
+      }
+    }
+  }
+
+  // A segment between neighbouring nodes crosses an obstacle if its middle is inside it
+  const isSegmentFree = (x: number, y: number) => !blocking.some(bounds => isInside(bounds, x, y));
+
+  const startNode = nodeIndex(xs.indexOf(start.x), ys.indexOf(start.y));
+  const endNode = nodeIndex(xs.indexOf(end.x), ys.indexOf(end.y));
+
+  // States combine a node with the direction it was entered in
+  const stateCount = nodeCount * 3;
+  const costs = new Float64Array(stateCount).fill(Infinity);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const queue = new StateQueue();
+
+  const estimate = (node: number) => {
+    const i = node % columns;
+    const j = Math.floor(node / columns);
+    return Math.abs(xs[i] - end.x) + Math.abs(ys[j] - end.y);
+  };
+
+  const startState = startNode * 3 + NO_DIRECTION;
+  costs[startState] = 0;
+  queue.push(startState, estimate(startNode));
+
+  let endState = -1;
+  const settled = new Uint8Array(stateCount);
+
+  while (queue.size > 0) {
+    const state = queue.pop();
+    if (settled[state]) continue;
+    settled[state] = 1;
+
+    const node = Math.floor(state / 3);
+    const direction = state % 3;
+    if (node === endNode) {
+      endState = state;
+      break;
+    }
+
+    const i = node % columns;
+    const j = Math.floor(node / columns);
+    const neighbours: Array<[number, number, number]> = [
+      [i - 1, j, HORIZONTAL],
+      [i + 1, j, HORIZONTAL],
+      [i, j - 1, VERTICAL],
+      [i, j + 1, VERTICAL]
+    ];
+
+    for (const [ni, nj, nextDirection] of neighbours) {
+      if (ni < 0 || nj < 0 || ni >= columns || nj >= ys.length) continue;
+
+      const nextNode = nodeIndex(ni, nj);
+      if (blocked[nextNode] && nextNode !== endNode) continue;
+      if (!isSegmentFree((xs[i] + xs[ni]) / 2, (ys[j] + ys[nj]) / 2)) continue;
+
+      const length = Math.abs(xs[ni] - xs[i]) + Math.abs(ys[nj] - ys[j]);
+      const bend = direction !== NO_DIRECTION && direction !== nextDirection ? options.bendPenalty : 0;
+      const nextState = nextNode * 3 + nextDirection;
+      const cost = costs[state] + length + bend;
+
+      if (cost < costs[nextState]) {
+        costs[nextState] = cost;
+        previous[nextState] = state;
+        queue.push(nextState, cost + estimate(nextNode));
+      }
+    }
+  }
+
+  if (endState < 0) return null;
+
+  const route: Point2D[] = [];
+  for (let state = endState; state >= 0; state = previous[state]) {
+    const node = Math.floor(state / 3);
+    route.unshift({ x: xs[node % columns], y: ys[Math.floor(node / columns)] });
+  }
+
+  return removeCollinearPoints(route);
+}
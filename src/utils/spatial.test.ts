@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { GridIndex } from './spatial';
+import type { Bounds } from '@/core/models/types';
+
+function box(minX: number, minY: number, maxX: number, maxY: number): Bounds {
+  return { minX, minY, maxX, maxY };
+}
+
+describe('GridIndex', () => {
+  it('finds items overlapping an area', () => {
+    const index = new GridIndex<string>(10);
+    index.insert('a', box(0, 0, 5, 5));
+    index.insert('b', box(20, 20, 25, 25));
+    index.insert('c', box(-15, -15, -12, -12));
+
+    expect(index.size).toBe(3);
+    expect(index.search(box(4, 4, 21, 21))).toEqual(['a', 'b']);
+    expect(index.search(box(-20, -20, -10, -10))).toEqual(['c']);
+    expect(index.search(box(6, 6, 19, 19))).toEqual([]);
+  });
+
+  it('checks the bounds and not only the cells', () => {
+    const index = new GridIndex<string>(10);
+    index.insert('a', box(0, 0, 2, 2));
+
+    // Same cell, no overlap
+    expect(index.search(box(5, 5, 8, 8))).toEqual([]);
+    // Touching counts as overlapping
+    expect(index.search(box(2, 2, 8, 8))).toEqual(['a']);
+  });
+
+  it('moves an item inserted again', () => {
+    const index = new GridIndex<string>(10);
+    index.insert('a', box(0, 0, 5, 5));
+    index.insert('a', box(100, 100, 105, 105));
+
+    expect(index.size).toBe(1);
+    expect(index.search(box(0, 0, 5, 5))).toEqual([]);
+    expect(index.search(box(100, 100, 105, 105))).toEqual(['a']);
+  });
+
+  it('forgets removed items', () => {
+    const index = new GridIndex<string>(10);
+    index.insert('a', box(0, 0, 5, 5));
+    index.insert('b', box(0, 0, 5, 5));
+    index.remove('a');
+    index.remove('missing');
+
+    expect(index.size).toBe(1);
+    expect(index.search(box(0, 0, 5, 5))).toEqual(['b']);
+  });
+
+  it('keeps items spanning too many cells in a list every search checks', () => {
+    const index = new GridIndex<string>(10, 4);
+    index.insert('line', box(0, 0, 1000, 1));
+    index.insert('symbol', box(500, 0, 505, 5));
+
+    expect(index.search(box(700, 0, 702, 2))).toEqual(['line']);
+    expect(index.search(box(501, 1, 502, 2))).toEqual(['line', 'symbol']);
+    expect(index.search(box(0, 50, 1000, 60))).toEqual([]);
+  });
+
+  it('enters an oversized item into the grid after it shrinks and removes it', () => {
+    const index = new GridIndex<string>(10, 4);
+    index.insert('line', box(0, 0, 1000, 1));
+    index.insert('line', box(0, 0, 5, 5));
+
+    expect(index.search(box(700, 0, 702, 2))).toEqual([]);
+    expect(index.search(box(1, 1, 2, 2))).toEqual(['line']);
+
+    index.insert('line', box(0, 0, 1000, 1));
+    index.remove('line');
+    expect(index.search(box(0, 0, 1000, 1))).toEqual([]);
+  });
+
+  it('returns items in the order they were first indexed', () => {
+    const index = new GridIndex<string>(10, 4);
+    index.insert('first', box(30, 30, 35, 35));
+    index.insert('second', box(0, 0, 100, 100));
+    index.insert('third', box(0, 0, 5, 5));
+    // Moving keeps the position among the items
+    index.insert('first', box(1, 1, 3, 3));
+
+    expect(index.search(box(0, 0, 10, 10))).toEqual(['first', 'second', 'third']);
+    // Searching more cells than are occupied visits the occupied cells
+    expect(index.search(box(-1000, -1000, 1000, 1000))).toEqual(['first', 'second', 'third']);
+  });
+});
@@ -0,0 +1,140 @@
+import type { Bounds } from '@/core/models/types';
+
+/**
+ * Indexed item with the cells it was entered into
+ */
+interface GridEntry {
+  bounds: Bounds;
+  keys: string[];   // Empty for items too large for the grid
+  order: number;    // Position among the items, search results keep it
+}
+
+/**
+ * Uniform grid of bounding boxes for finding items near a position or in an area
+ *
+ * Every item is entered into the cells its bounds overlap. Items overlapping
+ * more than a limit of cells, such as long lines across the diagram, are kept
+ * in a separate list that every search checks, so that they do not fill
+ * thousands of cells. The grid is unbounded, items can move anywhere.
+ */
+export class GridIndex<T> {
+  private cells = new Map<string, Set<T>>();
+  private entries = new Map<T, GridEntry>();
+  private oversized = new Set<T>();
+  private nextOrder = 0;
+
+  /**
+   * @param cellSize - Width and height of the cells in world coordinates
+   * @param maxCellsPerItem - Items overlapping more cells are not entered into the grid
+   */
+  constructor(
+      private cellSize: number,
+      private maxCellsPerItem: number = 64
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add an item, or move it if it is already indexed
+   *
+   * @param item - Item to index
+   * @param bounds - Bounds of the item
+   */
+  insert(item: T, bounds: Bounds): void {
+    const existing = this.entries.get(item);
+    if (existing) {
+      this.removeFromCells(item, existing);
+    }
+
+    const entry: GridEntry = { bounds, keys: [], order: existing?.order ?? this.nextOrder++ };
+    const [minI, minJ, maxI, maxJ] = this.getCellRange(bounds);
+
+    if ((maxI - minI + 1) * (maxJ - minJ + 1) > this.maxCellsPerItem) {
+      this.oversized.add(item);
+    } else {
+      for (let i = minI; i <= maxI; i++) {
+        for (let j = minJ; j <= maxJ; j++) {
+          const key = `${i},${j}`;
+          let cell = this.cells.get(key);
+          if (!cell) {
+            cell = new Set<T>();
+            this.cells.set(key, cell);
+          }
+          cell.add(item);
+          entry.keys.push(key);
+        }
+      }
+    }
+
+    this.entries.set(item, entry);
+  }
+
+  /**
+   * Remove an item
+   *
+   * @param item - Indexed item
+   */
+  remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+
+    this.removeFromCells(item, entry);
+    this.entries.delete(item);
+  }
+
+  /**
+   * Find the items whose bounds overlap an area
+   *
+   * @param bounds - Area to search
+   * @returns Items in the order they were first indexed
+   */
+  search(bounds: Bounds): T[] {
+    const found = new Set<T>();
+    const [minI, minJ, maxI, maxJ] = this.getCellRange(bounds);
+    const cellCount = (maxI - minI + 1) * (maxJ - minJ + 1);
+
+    const addIfOverlapping = (item: T) => {
+      if (found.has(item)) return;
+      const itemBounds = this.entries.get(item)!.bounds;
+      if (itemBounds.maxX >= bounds.minX && itemBounds.minX <= bounds.maxX &&
+          itemBounds.maxY >= bounds.minY && itemBounds.minY <= bounds.maxY) {
+        found.add(item);
+      }
+    };
+
+    if (cellCount > this.cells.size) {
+      // Searching most of the grid, visiting the occupied cells is cheaper
+      this.cells.forEach(cell => cell.forEach(addIfOverlapping));
+    } else {
+      for (let i = minI; i <= maxI; i++) {
+        for (let j = minJ; j <= maxJ; j++) {
+          this.cells.get(`${i},${j}`)?.forEach(addIfOverlapping);
+        }
+      }
+    }
+    this.oversized.forEach(addIfOverlapping);
+
+    return Array.from(found).sort((a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order);
+  }
+
+  private getCellRange(bounds: Bounds): [number, number, number, number] {
+    return [
+      Math.floor(bounds.minX / this.cellSize),
+      Math.floor(bounds.minY / this.cellSize),
+      Math.floor(bounds.maxX / this.cellSize),
+      Math.floor(bounds.maxY / this.cellSize)
+    ];
+  }
+
+  private removeFromCells(item: T, entry: GridEntry): void {
+    this.oversized.delete(item);
+    entry.keys.forEach(key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      cell.delete(item);
+      if (cell.size === 0) this.cells.delete(key);
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { VectorContext } from './vector';
+
+const textAnchors: Record<CanvasTextAlign, string> = {
+  start: 'start',
+  left: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end'
+};
+
+const textBaselines: Record<CanvasTextBaseline, string> = {
+  alphabetic: 'alphabetic',
+  bottom: 'text-after-edge',
+  hanging: 'hanging',
+  ideographic: 'ideographic',
+  middle: 'central',
+  top: 'text-before-edge'
+};
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a number for SVG output, with at most three decimals
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Drawing context that records canvas drawing operations as SVG elements
+ *
+ * Text keeps its transformation so that it stays text in the output.
+ */
+export class SvgContext extends VectorContext {
+  private elements: string[] = [];
+
+  fill(): void {
+    if (this.path.length === 0) return;
+    this.elements.push(`<path d="${this.formatPath()}" fill="${this.formatColor(this.state.fillStyle)}"/>`);
+  }
+
+  stroke(): void {
+    if (this.path.length === 0) return;
+    this.elements.push(`<path d="${this.formatPath()}" fill="none"${this.formatStroke()}/>`);
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const matrix = this.state.matrix.map(formatNumber).join(' ');
+    this.elements.push(
+      `<text transform="matrix(${matrix})" x="${formatNumber(x)}" y="${formatNumber(y)}"` +
+      ` style="font: ${escapeXml(this.state.font)}" fill="${this.formatColor(this.state.fillStyle)}"` +
+      ` text-anchor="${textAnchors[this.state.textAlign]}" dominant-baseline="${textBaselines[this.state.textBaseline]}"` +
+      `>${escapeXml(text)}</text>`
+    );
+  }
+
+  /**
+   * Get the SVG document of everything drawn so far
+   *
+   * @param width - Width of the image in pixels
+   * @param height - Height of the image in pixels
+   * @param background - Color filling the image behind the drawing, transparent if not given
+   * @returns SVG document
+   */
+  toSvg(width: number, height: number, background?: string): string {
+    const size = `width="${formatNumber(width)}" height="${formatNumber(height)}"`;
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}" stroke-miterlimit="10">`,
+      ...(background ? [`<rect ${size} fill="${escapeXml(background)}"/>`] : []),
+      ...this.elements,
+      '</svg>'
+    ].join('\n');
+  }
+
+  private formatPath(): string {
+    return this.path.map(segment => {
+      switch (segment.type) {
+        case 'move':
+          return `M${formatNumber(segment.point.x)} ${formatNumber(segment.point.y)}`;
+        case 'line':
+          return `L${formatNumber(segment.point.x)} ${formatNumber(segment.point.y)}`;
+        case 'curve':
+          return `C${segment.points.map(point => `${formatNumber(point.x)} ${formatNumber(point.y)}`).join(' ')}`;
+        case 'close':
+          return 'Z';
+      }
+    }).join('');
+  }
+
+  private formatColor(style: string | CanvasGradient | CanvasPattern): string {
+    // Gradients and patterns are not used by the diagram renderers
+    return typeof style === 'string' ? escapeXml(style) : 'black';
+  }
+
+  private formatStroke(): string {
+    const scaleFactor = this.getScaleFactor();
+    const dash = this.state.lineDash.length > 0
+      ? ` stroke-dasharray="${this.state.lineDash.map(length => formatNumber(length * scaleFactor)).join(' ')}"`
+      : '';
+    return ` stroke="${this.formatColor(this.state.strokeStyle)}"` +
+      ` stroke-width="${formatNumber(this.state.lineWidth * scaleFactor)}"${dash}`;
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { DiagramModel } from '@/core/models/DiagramModel';
+import { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import { PointModel } from '@/core/models/PointModel';
+import type { IdentifiedObjectData } from '@/core/models/types';
+import { ValidationRule } from '@/core/models/types';
+import { validateDiagram } from './validation';
+import type { DiagramValidationContext } from './validation';
+
+interface ObjectSpec {
+  points: [number, number, number?][];  // x, y and sequence number, numbered in order if omitted
+  isPolygon?: boolean;
+  equipment?: IdentifiedObjectData;
+  name?: string;
+}
+
+const noContext: DiagramValidationContext = { objectsWithoutPoints: [], extent: null };
+
+/**
+ * Diagram with one object per entry, named by the keys
+ */
+function createDiagram(objects: Record<string, ObjectSpec>): DiagramModel {
+  const diagram = new DiagramModel();
+  Object.entries(objects).forEach(([key, spec], order) => {
+    const object = new DiagramObjectModel(`urn:${key}`, order, !!spec.isPolygon, false, '', spec.equipment ?? null, {}, spec.name);
+    diagram.addObject(object);
+    spec.points.forEach(([x, y, sequenceNumber], index) => {
+      const point = new PointModel(`urn:${key}/${index}`, x, y, sequenceNumber ?? index, object);
+      object.addPoint(point);
+      diagram.addPoint(point);
+    });
+  });
+  return diagram;
+}
+
+describe('validateDiagram', () => {
+  it('finds no issues in a consistent diagram', () => {
+    const diagram = createDiagram({
+      line: { points: [[0, 0], [10, 0]], equipment: { iri: 'urn:l', className: 'ACLineSegment' } },
+      breaker: { points: [[10, 0]], equipment: { iri: 'urn:b', className: 'Breaker' } }
+    });
+    diagram.createGluePoint(['urn:line/1', 'urn:breaker/0'], 'urn:glue');
+
+    expect(validateDiagram(diagram, noContext)).toEqual([]);
+  });
+
+  it('reports duplicate sequence numbers as errors and gaps as warnings', () => {
+    const diagram = createDiagram({
+      duplicate: { points: [[0, 0, 1], [5, 0, 1], [10, 0, 2]], name: 'Duplicate' },
+      gapped: { points: [[0, 10, 0], [5, 10, 1], [10, 10, 3]] }
+    });
+
+    const issues = validateDiagram(diagram, noContext);
+
+    expect(issues.map(issue => [issue.rule, issue.severity, issue.objectIris])).toEqual([
+      [ValidationRule.SEQUENCE_NUMBERS, 'error', ['urn:duplicate']],
+      [ValidationRule.SEQUENCE_NUMBERS, 'warning', ['urn:gapped']]
+    ]);
+    expect(issues[0].message).toBe('"Duplicate" has duplicate point sequence numbers (1, 1, 2)');
+    expect(issues[1].message).toBe('urn:gapped has gapped point sequence numbers (0, 1, 3)');
+    expect(issues.every(issue => issue.quickFix === 'Renumber points')).toBe(true);
+  });
+
+  it('accepts sequence numbers starting at any number', () => {
+    const diagram = createDiagram({ line: { points: [[0, 0, 1], [5, 0, 2], [10, 0, 3]] } });
+
+    expect(validateDiagram(diagram, noContext)).toEqual([]);
+  });
+
+  it('reports polygons with fewer than three points', () => {
+    const diagram = createDiagram({
+      flat: { points: [[0, 0], [10, 0]], isPolygon: true },
+      area: { points: [[0, 0], [10, 0], [10, 10]], isPolygon: true }
+    });
+
+    const issues = validateDiagram(diagram, noContext);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      rule: ValidationRule.POLYGON_POINTS,
+      severity: 'error',
+      objectIris: ['urn:flat'],
+      bounds: { minX: 0, minY: 0, maxX: 10, maxY: 0 },
+      quickFix: 'Make open line'
+    });
+  });
+
+  it('reports glue points connecting a single object or none', () => {
+    const diagram = createDiagram({ line: { points: [[0, 0], [10, 0]] } });
+    diagram.createGluePoint(['urn:line/0', 'urn:line/1'], 'urn:self');
+    diagram.createGluePoint(['urn:elsewhere'], 'urn:empty');
+
+    const issues = validateDiagram(diagram, noContext);
+
+    expect(issues.map(issue => [issue.rule, issue.gluePointIri, issue.objectIris, issue.quickFix])).toEqual([
+      [ValidationRule.GLUE_POINT_OBJECTS, 'urn:self', ['urn:line'], 'Remove glue point'],
+      [ValidationRule.GLUE_POINT_OBJECTS, 'urn:empty', [], 'Remove glue point']
+    ]);
+    expect(issues[0].bounds).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 0 });
+    expect(issues[1].bounds).toBeNull();
+  });
+
+  it('reports objects without points from the context', () => {
+    const issues = validateDiagram(new DiagramModel(), {
+      objectsWithoutPoints: [{ iri: 'urn:empty', className: 'DiagramObject', name: 'Empty' }],
+      extent: null
+    });
+
+    expect(issues).toEqual([{
+      id: `${ValidationRule.OBJECT_WITHOUT_POINTS}:urn:empty`,
+      rule: ValidationRule.OBJECT_WITHOUT_POINTS,
+      severity: 'warning',
+      message: 'DiagramObject "Empty" has no points',
+      objectIris: ['urn:empty'],
+      pointIris: [],
+      bounds: null,
+      quickFix: 'Delete object'
+    }]);
+  });
+
+  it('reports references to equipment that is not in the data', () => {
+    const diagram = createDiagram({
+      missing: { points: [[0, 0]], equipment: { iri: 'urn:gone', className: '' } },
+      known: { points: [[100, 0]], equipment: { iri: 'urn:b', className: 'Breaker' } }
+    });
+
+    const issues = validateDiagram(diagram, noContext);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      rule: ValidationRule.MISSING_IDENTIFIED_OBJECT,
+      severity: 'warning',
+      objectIris: ['urn:missing'],
+      message: 'urn:missing references urn:gone, which is not in the data'
+    });
+    expect(issues[0].quickFix).toBeUndefined();
+  });
+
+  it('reports points outside the extent only if the extent is known', () => {
+    const diagram = createDiagram({ line: { points: [[0, 0], [50, 0], [150, 0]] } });
+    const extent = { minX: 0, minY: -10, maxX: 100, maxY: 10 };
+
+    expect(validateDiagram(diagram, noContext)).toEqual([]);
+
+    const issues = validateDiagram(diagram, { objectsWithoutPoints: [], extent });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      rule: ValidationRule.POINT_OUTSIDE_EXTENT,
+      pointIris: ['urn:line/2'],
+      message: 'urn:line has 1 point(s) outside the diagram extent'
+    });
+  });
+
+  it('reports each pair of overlapping symbols once', () => {
+    const breaker = (iri: string): IdentifiedObjectData => ({ iri, className: 'Breaker', name: iri.slice(4) });
+    const diagram = createDiagram({
+      a: { points: [[0, 0]], equipment: breaker('urn:a') },
+      b: { points: [[5, 5]], equipment: breaker('urn:b') },
+      c: { points: [[100, 0]], equipment: breaker('urn:c') },
+      // Objects without a symbol may overlap
+      label: { points: [[0, 0]] }
+    });
+
+    const issues = validateDiagram(diagram, noContext);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      rule: ValidationRule.OVERLAPPING_SYMBOLS,
+      severity: 'warning',
+      objectIris: ['urn:a', 'urn:b'],
+      pointIris: ['urn:a/0', 'urn:b/0'],
+      message: 'Breaker "a" overlaps Breaker "b"'
+    });
+  });
+
+  it('lists errors before warnings', () => {
+    const diagram = createDiagram({
+      gapped: { points: [[0, 0, 0], [5, 0, 2]] },
+      flat: { points: [[0, 10], [10, 10]], isPolygon: true }
+    });
+
+    expect(validateDiagram(diagram, noContext).map(issue => issue.severity)).toEqual(['error', 'warning']);
+  });
+});
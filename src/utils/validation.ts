@@ -0,0 +1,251 @@
+import type { DiagramModel } from '@/core/models/DiagramModel';
+import type { DiagramObjectModel } from '@/core/models/DiagramObjectModel';
+import type { Bounds, IdentifiedObjectData, ValidationIssue } from '@/core/models/types';
+import { ValidationRule } from '@/core/models/types';
+import { AppConfig } from '@/core/config/AppConfig';
+import { hasEquipmentSymbol } from './canvas';
+
+/**
+ * Diagram data the loaded model does not contain
+ */
+export interface DiagramValidationContext {
+  objectsWithoutPoints: IdentifiedObjectData[]; // Not loaded with the layout
+  extent: Bounds | null;                        // Initial view of the diagram, if stated
+}
+
+/**
+ * Display name of a diagram object in issue messages
+ */
+function describeObject(object: DiagramObjectModel): string {
+  const name = object.name || object.identifiedObject?.name;
+  const className = object.getEquipmentClass();
+
+  if (name && className) return `${className} "${name}"`;
+  if (name) return `"${name}"`;
+  if (className) return `${className} ${object.iri}`;
+  return object.iri;
+}
+
+/**
+ * Bounds of the points of an object
+ */
+function getObjectBounds(object: DiagramObjectModel): Bounds {
+  return {
+    minX: Math.min(...object.points.map(point => point.x)),
+    minY: Math.min(...object.points.map(point => point.y)),
+    maxX: Math.max(...object.points.map(point => point.x)),
+    maxY: Math.max(...object.points.map(point => point.y))
+  };
+}
+
+/**
+ * Duplicate or gapped sequence numbers of the points of an object
+ */
+function checkSequenceNumbers(object: DiagramObjectModel): ValidationIssue | null {
+  if (object.points.length < 2) return null;
+
+  const numbers = object.points.map(point => point.sequenceNumber);
+  const hasDuplicates = new Set(numbers).size < numbers.length;
+  const hasGaps = numbers.some((number, index) => index > 0 && number - numbers[index - 1] > 1);
+  if (!hasDuplicates && !hasGaps) return null;
+
+  return {
+    id: `${ValidationRule.SEQUENCE_NUMBERS}:${object.iri}`,
+    rule: ValidationRule.SEQUENCE_NUMBERS,
+    severity: hasDuplicates ? 'error' : 'warning',
+    message: `${describeObject(object)} has ${hasDuplicates ? 'duplicate' : 'gapped'} point sequence numbers (${numbers.join(', ')})`,
+    objectIris: [object.iri],
+    pointIris: object.points.map(point => point.iri),
+    bounds: getObjectBounds(object),
+    quickFix: 'Renumber points'
+  };
+}
+
+/**
+ * Polygons that cannot enclose an area
+ */
+function checkPolygonPoints(object: DiagramObjectModel): ValidationIssue | null {
+  if (!object.isPolygon || object.points.length >= 3) return null;
+
+  return {
+    id: `${ValidationRule.POLYGON_POINTS}:${object.iri}`,
+    rule: ValidationRule.POLYGON_POINTS,
+    severity: 'error',
+    message: `Polygon ${describeObject(object)} has only ${object.points.length} point(s)`,
+    objectIris: [object.iri],
+    pointIris: object.points.map(point => point.iri),
+    bounds: getObjectBounds(object),
+    quickFix: 'Make open line'
+  };
+}
+
+/**
+ * Objects referencing equipment that is not in the data
+ */
+function checkIdentifiedObject(object: DiagramObjectModel): ValidationIssue | null {
+  if (!object.identifiedObject || object.identifiedObject.className) return null;
+
+  return {
+    id: `${ValidationRule.MISSING_IDENTIFIED_OBJECT}:${object.iri}`,
+    rule: ValidationRule.MISSING_IDENTIFIED_OBJECT,
+    severity: 'warning',
+    message: `${describeObject(object)} references ${object.identifiedObject.iri}, which is not in the data`,
+    objectIris: [object.iri],
+    pointIris: object.points.map(point => point.iri),
+    bounds: getObjectBounds(object)
+  };
+}
+
+/**
+ * Points lying outside the extent of the diagram
+ */
+function checkExtent(object: DiagramObjectModel, extent: Bounds): ValidationIssue | null {
+  const outside = object.points.filter(point =>
+    point.x < extent.minX || point.x > extent.maxX || point.y < extent.minY || point.y > extent.maxY);
+  if (outside.length === 0) return null;
+
+  return {
+    id: `${ValidationRule.POINT_OUTSIDE_EXTENT}:${object.iri}`,
+    rule: ValidationRule.POINT_OUTSIDE_EXTENT,
+    severity: 'warning',
+    message: `${describeObject(object)} has ${outside.length} point(s) outside the diagram extent`,
+    objectIris: [object.iri],
+    pointIris: outside.map(point => point.iri),
+    bounds: getObjectBounds(object)
+  };
+}
+
+/**
+ * Glue points that do not connect different objects
+ */
+function checkGluePoints(diagram: DiagramModel): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  diagram.gluePoints.forEach(gluePoint => {
+    const points = diagram.points.filter(point => gluePoint.connectedPoints.has(point.iri));
+    const objectIris = new Set(points.map(point => point.parentObject.iri));
+    if (objectIris.size >= 2) return;
+
+    issues.push({
+      id: `${ValidationRule.GLUE_POINT_OBJECTS}:${gluePoint.iri}`,
+      rule: ValidationRule.GLUE_POINT_OBJECTS,
+      severity: 'error',
+      message: objectIris.size === 0
+        ? `Glue point ${gluePoint.iri} connects no points of this diagram`
+        : `Glue point ${gluePoint.iri} only connects points of ${describeObject(points[0].parentObject)}`,
+      objectIris: Array.from(objectIris),
+      pointIris: points.map(point => point.iri),
+      gluePointIri: gluePoint.iri,
+      bounds: points.length > 0 ? {
+        minX: Math.min(...points.map(point => point.x)),
+        minY: Math.min(...points.map(point => point.y)),
+        maxX: Math.max(...points.map(point => point.x)),
+        maxY: Math.max(...points.map(point => point.y))
+      } : null,
+      quickFix: 'Remove glue point'
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Equipment symbols drawn on top of each other
+ */
+function checkOverlappingSymbols(diagram: DiagramModel): ValidationIssue[] {
+  const spacing = AppConfig.canvas.symbolSize * AppConfig.validation.symbolSpacing;
+  const symbols = diagram.objects.filter(object =>
+    object.points.length === 1 && hasEquipmentSymbol(object.getEquipmentClass()));
+
+  // Bucket the symbols so that only neighbouring cells are compared
+  const cellKey = (i: number, j: number) => `${i},${j}`;
+  const cells = new Map<string, number[]>();
+  symbols.forEach((symbol, index) => {
+    const key = cellKey(Math.floor(symbol.points[0].x / spacing), Math.floor(symbol.points[0].y / spacing));
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(index);
+    } else {
+      cells.set(key, [index]);
+    }
+  });
+
+  const issues: ValidationIssue[] = [];
+  symbols.forEach((symbol, index) => {
+    const point = symbol.points[0];
+    const i = Math.floor(point.x / spacing);
+    const j = Math.floor(point.y / spacing);
+
+    for (let di = -1; di <= 1; di++) {
+      for (let dj = -1; dj <= 1; dj++) {
+        (cells.get(cellKey(i + di, j + dj)) ?? []).forEach(otherIndex => {
+          // Report each pair once
+          if (otherIndex <= index) return;
+
+          const other = symbols[otherIndex];
+          const otherPoint = other.points[0];
+          if (Math.abs(otherPoint.x - point.x) >= spacing || Math.abs(otherPoint.y - point.y) >= spacing) return;
+
+          issues.push({
+            id: `${ValidationRule.OVERLAPPING_SYMBOLS}:${symbol.iri}:${other.iri}`,
+            rule: ValidationRule.OVERLAPPING_SYMBOLS,
+            severity: 'warning',
+            message: `${describeObject(symbol)} overlaps ${describeObject(other)}`,
+            objectIris: [symbol.iri, other.iri],
+            pointIris: [point.iri, otherPoint.iri],
+            bounds: {
+              minX: Math.min(point.x, otherPoint.x),
+              minY: Math.min(point.y, otherPoint.y),
+              maxX: Math.max(point.x, otherPoint.x),
+              maxY: Math.max(point.y, otherPoint.y)
+            }
+          });
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check a diagram for problems
+ *
+ * @param diagram - Loaded diagram
+ * @param context - Diagram data not contained in the model
+ * @returns Issues found, errors first
+ */
+export function validateDiagram(diagram: DiagramModel, context: DiagramValidationContext): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  diagram.objects.forEach(object => {
+    if (object.points.length === 0) return;
+
+    [
+      checkSequenceNumbers(object),
+      checkPolygonPoints(object),
+      checkIdentifiedObject(object),
+      context.extent ? checkExtent(object, context.extent) : null
+    ].forEach(issue => {
+      if (issue) issues.push(issue);
+    });
+  });
+
+  context.objectsWithoutPoints.forEach(object => {
+    issues.push({
+      id: `${ValidationRule.OBJECT_WITHOUT_POINTS}:${object.iri}`,
+      rule: ValidationRule.OBJECT_WITHOUT_POINTS,
+      severity: 'warning',
+      message: `DiagramObject ${object.name ? `"${object.name}"` : object.iri} has no points`,
+      objectIris: [object.iri],
+      pointIris: [],
+      bounds: null,
+      quickFix: 'Delete object'
+    });
+  });
+
+  issues.push(...checkGluePoints(diagram));
+  issues.push(...checkOverlappingSymbols(diagram));
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
@@ -0,0 +1,223 @@
+import type { Point2D } from '@/core/models/types';
+import type { DrawingContext } from './canvas';
+
+/**
+ * Affine transformation [a, b, c, d, e, f] as used by canvas, SVG and PDF
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+/**
+ * Segment of a recorded path, in output coordinates
+ */
+export type PathSegment =
+  | { type: 'move' | 'line'; point: Point2D }
+  | { type: 'curve'; points: [Point2D, Point2D, Point2D] }
+  | { type: 'close' };
+
+/**
+ * Drawing state kept by save() and restore()
+ */
+interface VectorDrawingState {
+  matrix: Matrix;
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  lineWidth: number;
+  lineDash: number[];
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+}
+
+export function multiplyMatrix(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+/**
+ * Drawing context that records canvas drawing operations for a vector format
+ *
+ * Path coordinates are transformed when they are added, like on a canvas,
+ * so paths are handed to the format in output coordinates. Arcs are recorded
+ * as Bézier curves. Line widths and dashes have to be scaled by the
+ * transformation at the time of stroking, which assumes transformations
+ * without shear, as used by the diagram renderers.
+ */
+export abstract class VectorContext implements DrawingContext {
+  protected state: VectorDrawingState = {
+    matrix: [1, 0, 0, 1, 0, 0],
+    fillStyle: '#000',
+    strokeStyle: '#000',
+    lineWidth: 1,
+    lineDash: [],
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic'
+  };
+  protected path: PathSegment[] = [];
+  private stack: VectorDrawingState[] = [];
+  private hasCurrentPoint = false;
+
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(value) { this.state.fillStyle = value; }
+
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(value) { this.state.strokeStyle = value; }
+
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(value) { this.state.lineWidth = value; }
+
+  get font() { return this.state.font; }
+  set font(value) { this.state.font = value; }
+
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(value) { this.state.textAlign = value; }
+
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(value) { this.state.textBaseline = value; }
+
+  /**
+   * Fill the current path with the fill style
+   */
+  abstract fill(): void;
+
+  /**
+   * Stroke the current path with the stroke style, line width and dashes
+   */
+  abstract stroke(): void;
+
+  /**
+   * Draw text with the font, alignment and fill style
+   */
+  abstract fillText(text: string, x: number, y: number): void;
+
+  save(): void {
+    this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] });
+  }
+
+  restore(): void {
+    this.state = this.stack.pop() ?? this.state;
+  }
+
+  translate(x: number, y: number): void {
+    this.state.matrix = multiplyMatrix(this.state.matrix, [1, 0, 0, 1, x, y]);
+  }
+
+  scale(x: number, y: number): void {
+    this.state.matrix = multiplyMatrix(this.state.matrix, [x, 0, 0, y, 0, 0]);
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.state.matrix = multiplyMatrix(this.state.matrix, [cos, sin, -sin, cos, 0, 0]);
+  }
+
+  setLineDash(segments: number[]): void {
+    this.state.lineDash = [...segments];
+  }
+
+  beginPath(): void {
+    this.path = [];
+    this.hasCurrentPoint = false;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push({ type: 'move', point: this.transformPoint(x, y) });
+    this.hasCurrentPoint = true;
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push({ type: this.hasCurrentPoint ? 'line' : 'move', point: this.transformPoint(x, y) });
+    this.hasCurrentPoint = true;
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    if (!this.hasCurrentPoint) this.moveTo(cp1x, cp1y);
+    this.path.push({
+      type: 'curve',
+      points: [this.transformPoint(cp1x, cp1y), this.transformPoint(cp2x, cp2y), this.transformPoint(x, y)]
+    });
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise: boolean = false): void {
+    let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    if (sweep < Math.PI * 2) {
+      sweep = ((sweep % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+    } else {
+      sweep = Math.PI * 2;
+    }
+
+    const pointAt = (angle: number) => ({ x: x + radius * Math.cos(angle), y: y + radius * Math.sin(angle) });
+    const start = pointAt(startAngle);
+    this.lineTo(start.x, start.y);
+
+    // Quarter circles at most, each as one Bézier curve
+    const direction = counterclockwise ? -1 : 1;
+    const count = Math.ceil(sweep / (Math.PI / 2) - 1e-9);
+    const step = sweep / Math.max(count, 1) * direction;
+    const handle = 4 / 3 * Math.tan(step / 4) * radius;
+
+    for (let index = 0; index < count; index++) {
+      const from = startAngle + step * index;
+      const to = from + step;
+      this.bezierCurveTo(
+          x + radius * Math.cos(from) - handle * Math.sin(from),
+          y + radius * Math.sin(from) + handle * Math.cos(from),
+          x + radius * Math.cos(to) + handle * Math.sin(to),
+          y + radius * Math.sin(to) - handle * Math.cos(to),
+          x + radius * Math.cos(to),
+          y + radius * Math.sin(to)
+      );
+    }
+  }
+
+  closePath(): void {
+    if (this.path.length > 0) this.path.push({ type: 'close' });
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.withRectPath(x, y, width, height, () => this.fill());
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number): void {
+    this.withRectPath(x, y, width, height, () => this.stroke());
+  }
+
+  /**
+   * Factor lengths are scaled by in the current transformation
+   */
+  protected getScaleFactor(): number {
+    const [a, b, c, d] = this.state.matrix;
+    return Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  protected transformPoint(x: number, y: number): Point2D {
+    const [a, b, c, d, e, f] = this.state.matrix;
+    return { x: a * x + c * y + e, y: b * x + d * y + f };
+  }
+
+  /**
+   * Run a drawing operation on a rectangle, leaving the current path as it is
+   */
+  private withRectPath(x: number, y: number, width: number, height: number, draw: () => void): void {
+    const path = this.path;
+    const hasCurrentPoint = this.hasCurrentPoint;
+
+    this.beginPath();
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+    draw();
+
+    this.path = path;
+    this.hasCurrentPoint = hasCurrentPoint;
+  }
+}
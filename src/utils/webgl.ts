@@ -0,0 +1,362 @@
+import type { Point2D, ViewTransform } from '@/core/models/types';
+import { getYDirection } from './geometry';
+import { parseColor } from './color';
+
+/**
+ * Shapes of the marks drawn at a single position
+ */
+export enum MarkShape {
+  CIRCLE = 0,
+  SQUARE = 1
+}
+
+const SEGMENT_FLOATS = 9; // Start, end, color, width
+const MARK_FLOATS = 8;    // Center, radius, color, shape
+
+const segmentVertexShader = `#version 300 es
+in vec2 a_corner;
+in vec2 a_start;
+in vec2 a_end;
+in vec4 a_color;
+in float a_width;
+uniform vec2 u_scale;
+uniform vec2 u_offset;
+uniform vec2 u_resolution;
+out vec4 v_color;
+
+void main() {
+  vec2 start = a_start * u_scale + u_offset;
+  vec2 end = a_end * u_scale + u_offset;
+  vec2 direction = end - start;
+  float len = length(direction);
+  vec2 normal = len > 0.0 ? vec2(-direction.y, direction.x) / len : vec2(0.0, 1.0);
+  vec2 position = mix(start, end, a_corner.x) + normal * a_corner.y * a_width * 0.5;
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+}`;
+
+const markVertexShader = `#version 300 es
+in vec2 a_corner;
+in vec2 a_center;
+in float a_radius;
+in vec4 a_color;
+in float a_shape;
+uniform vec2 u_scale;
+uniform vec2 u_offset;
+uniform vec2 u_resolution;
+out vec4 v_color;
+out vec2 v_local;
+out float v_shape;
+
+void main() {
+  vec2 center = a_center * u_scale + u_offset;
+  vec2 position = center + a_corner * a_radius * abs(u_scale.x);
+  vec2 clip = position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+  v_local = a_corner;
+  v_shape = a_shape;
+}`;
+
+const segmentFragmentShader = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+
+void main() {
+  outColor = v_color;
+}`;
+
+const markFragmentShader = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+in vec2 v_local;
+in float v_shape;
+out vec4 outColor;
+
+void main() {
+  if (v_shape < 0.5 && dot(v_local, v_local) > 1.0) discard;
+  outColor = v_color;
+}`;
+
+/**
+ * Line segments and marks collected for one frame of the WebGL renderer
+ *
+ * Segments have a width in screen pixels, marks a radius in world
+ * coordinates, like the Canvas 2D drawing of lines and points.
+ */
+export class GeometryBatch {
+  private segments: number[] = [];
+  private marks: number[] = [];
+  private colors = new Map<string, [number, number, number]>();
+
+  get segmentCount(): number {
+    return this.segments.length / SEGMENT_FLOATS;
+  }
+
+  get markCount(): number {
+    return this.marks.length / MARK_FLOATS;
+  }
+
+  /**
+   * Add a straight line segment
+   *
+   * @param start - Start in world coordinates
+   * @param end - End in world coordinates
+   * @param color - CSS color
+   * @param width - Line width in screen pixels
+   */
+  addSegment(start: Point2D, end: Point2D, color: string, width: number): void {
+    this.segments.push(start.x, start.y, end.x, end.y, ...this.getColor(color), 1, width);
+  }
+
+  /**
+   * Add the segments of a path
+   *
+   * @param points - Points of the path in world coordinates
+   * @param closed - Whether the last point is connected to the first
+   * @param color - CSS color
+   * @param width - Line width in screen pixels
+   */
+  addPath(points: Point2D[], closed: boolean, color: string, width: number): void {
+    for (let i = 1; i < points.length; i++) {
+      this.addSegment(points[i - 1], points[i], color, width);
+    }
+    if (closed && points.length > 2) {
+      this.addSegment(points[points.length - 1], points[0], color, width);
+    }
+  }
+
+  /**
+   * Add a filled circle or square
+   *
+   * @param center - Center in world coordinates
+   * @param radius - Radius or half the side in world coordinates
+   * @param color - CSS color
+   * @param shape - Shape of the mark
+   */
+  addMark(center: Point2D, radius: number, color: string, shape: MarkShape = MarkShape.CIRCLE): void {
+    this.marks.push(center.x, center.y, radius, ...this.getColor(color), 1, shape);
+  }
+
+  getSegmentData(): Float32Array {
+    return new Float32Array(this.segments);
+  }
+
+  getMarkData(): Float32Array {
+    return new Float32Array(this.marks);
+  }
+
+  private getColor(color: string): [number, number, number] {
+    let rgb = this.colors.get(color);
+    if (!rgb) {
+      rgb = parseColor(color).map(component => component / 255) as [number, number, number];
+      this.colors.set(color, rgb);
+    }
+    return rgb;
+  }
+}
+
+/**
+ * Instanced drawing program with its buffers
+ */
+interface InstancedProgram {
+  program: WebGLProgram;
+  vertexArray: WebGLVertexArrayObject;
+  corners: WebGLBuffer;
+  instances: WebGLBuffer;
+  uniforms: {
+    scale: WebGLUniformLocation | null;
+    offset: WebGLUniformLocation | null;
+    resolution: WebGLUniformLocation | null;
+  };
+}
+
+/**
+ * WebGL2 renderer drawing line segments and marks as instanced quads
+ *
+ * Each segment and mark is one instance of a quad, so a frame needs two draw
+ * calls whatever the size of the diagram. Dashes are not supported, dashed
+ * lines are drawn solid.
+ */
+export class WebGLRenderer {
+  private segmentProgram: InstancedProgram;
+  private markProgram: InstancedProgram;
+
+  private constructor(private canvas: HTMLCanvasElement, private gl: WebGL2RenderingContext) {
+    // Segments are quads from the start (x = 0) to the end (x = 1) of the line
+    this.segmentProgram = this.createProgram(segmentVertexShader, segmentFragmentShader,
+        [0, -1, 1, -1, 0, 1, 0, 1, 1, -1, 1, 1], [
+          { name: 'a_start', size: 2 },
+          { name: 'a_end', size: 2 },
+          { name: 'a_color', size: 4 },
+          { name: 'a_width', size: 1 }
+        ]);
+    // Marks are quads around their center
+    this.markProgram = this.createProgram(markVertexShader, markFragmentShader,
+        [-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1], [
+          { name: 'a_center', size: 2 },
+          { name: 'a_radius', size: 1 },
+          { name: 'a_color', size: 4 },
+          { name: 'a_shape', size: 1 }
+        ]);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /**
+   * Create a renderer for a canvas
+   *
+   * @param canvas - Canvas without a context yet
+   * @returns Renderer, or null if WebGL2 is not available
+   */
+  static create(canvas: HTMLCanvasElement): WebGLRenderer | null {
+    const gl = canvas.getContext('webgl2', { antialias: true });
+    if (!gl) return null;
+
+    try {
+      return new WebGLRenderer(canvas, gl);
+    } catch (error) {
+      console.error('Error setting up WebGL rendering:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Draw a batch, replacing the previous frame
+   *
+   * @param batch - Segments and marks to draw
+   * @param viewTransform - View transformation
+   * @param width - Canvas width in pixels
+   * @param height - Canvas height in pixels
+   */
+  render(batch: GeometryBatch, viewTransform: ViewTransform, width: number, height: number): void {
+    const gl = this.gl;
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    this.clear();
+
+    const scale = [viewTransform.scale, viewTransform.scale * getYDirection(viewTransform)];
+    const offset = [viewTransform.offsetX, viewTransform.offsetY];
+
+    this.drawInstances(this.segmentProgram, batch.getSegmentData(), batch.segmentCount, scale, offset, width, height);
+    this.drawInstances(this.markProgram, batch.getMarkData(), batch.markCount, scale, offset, width, height);
+  }
+
+  /**
+   * Remove the drawing
+   */
+  clear(): void {
+    this.gl.clearColor(0, 0, 0, 0);
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+  }
+
+  /**
+   * Release the GPU resources
+   */
+  dispose(): void {
+    this.clear();
+    [this.segmentProgram, this.markProgram].forEach(program => {
+      this.gl.deleteBuffer(program.corners);
+      this.gl.deleteBuffer(program.instances);
+      this.gl.deleteVertexArray(program.vertexArray);
+      this.gl.deleteProgram(program.program);
+    });
+  }
+
+  private drawInstances(
+    program: InstancedProgram,
+    data: Float32Array,
+    count: number,
+    scale: number[],
+    offset: number[],
+    width: number,
+    height: number
+  ): void {
+    if (count === 0) return;
+    const gl = this.gl;
+
+    gl.useProgram(program.program);
+    gl.uniform2f(program.uniforms.scale, scale[0], scale[1]);
+    gl.uniform2f(program.uniforms.offset, offset[0], offset[1]);
+    gl.uniform2f(program.uniforms.resolution, width, height);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, program.instances);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+
+    gl.bindVertexArray(program.vertexArray);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, count);
+    gl.bindVertexArray(null);
+  }
+
+  private createProgram(
+    vertexSource: string,
+    fragmentSource: string,
+    corners: number[],
+    attributes: Array<{ name: string; size: number }>
+  ): InstancedProgram {
+    const gl = this.gl;
+    const program = gl.createProgram();
+    gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, vertexSource));
+    gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, fragmentSource));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Could not link WebGL program: ${gl.getProgramInfoLog(program)}`);
+    }
+
+    const vertexArray = gl.createVertexArray();
+    gl.bindVertexArray(vertexArray);
+
+    // Corners of the quad, shared by all instances
+    const cornerBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(corners), gl.STATIC_DRAW);
+    const cornerLocation = gl.getAttribLocation(program, 'a_corner');
+    gl.enableVertexAttribArray(cornerLocation);
+    gl.vertexAttribPointer(cornerLocation, 2, gl.FLOAT, false, 0, 0);
+
+    // Interleaved instance attributes
+    const instances = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, instances);
+    const stride = attributes.reduce((sum, attribute) => sum + attribute.size, 0) * 4;
+    attributes.reduce((offset, attribute) => {
+      const location = gl.getAttribLocation(program, attribute.name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, attribute.size, gl.FLOAT, false, stride, offset);
+      gl.vertexAttribDivisor(location, 1);
+      return offset + attribute.size * 4;
+    }, 0);
+
+    gl.bindVertexArray(null);
+
+    return {
+      program,
+      vertexArray,
+      corners: cornerBuffer,
+      instances,
+      uniforms: {
+        scale: gl.getUniformLocation(program, 'u_scale'),
+        offset: gl.getUniformLocation(program, 'u_offset'),
+        resolution: gl.getUniformLocation(program, 'u_resolution')
+      }
+    };
+  }
+
+  private compileShader(type: GLenum, source: string): WebGLShader {
+    const shader = this.gl.createShader(type);
+    if (!shader) throw new Error('Could not create WebGL shader');
+
+    this.gl.shaderSource(shader, source);
+    this.gl.compileShader(shader);
+    if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
+      throw new Error(`Could not compile WebGL shader: ${this.gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  }
+}
@@ -35,7 +35,9 @@ export default defineConfig(({ command }) => {
       }
     },
     optimizeDeps: {
-      include: ['svelte', '@asciidoctor/core']
+      include: ['svelte', '@asciidoctor/core'],
+      // Pre-bundling would break the URL of the WebAssembly module
+      exclude: ['oxigraph']
     },
     server: {
       host: true,